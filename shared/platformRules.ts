@@ -0,0 +1,262 @@
+// What each platform accepts, per content type. `checkPlatformRules` turns a
+// piece of content into counters, warnings and hard errors; errors block
+// publishing. Shared by the app (through `src/lib/platformRules.ts`) and the
+// edge functions, which run on different runtimes, so it must not import
+// anything.
+
+export interface PlatformRules {
+  label: string
+  // Hard limit, counted the way the platform counts (see `urlLength`)
+  maxLength: number
+  // More hashtags than this is rejected, or ignored by the platform
+  maxHashtags?: number
+  // More hashtags than this hurts reach
+  recommendedHashtags?: number
+  // `discouraged`: links reduce reach; `not_clickable`: links show as plain text
+  links: 'allowed' | 'discouraged' | 'not_clickable'
+  // Every link counts as this many characters, whatever its length
+  urlLength?: number
+  requiresMedia: boolean
+  // Long text is split into numbered posts of at most `maxLength` each
+  thread?: { maxSegments: number }
+}
+
+type PlatformRuleSet = Omit<PlatformRules, 'label'> & {
+  label: string
+  types?: Record<string, Partial<Omit<PlatformRules, 'label'>>>
+}
+
+const PLATFORM_RULES: Record<string, PlatformRuleSet> = {
+  twitter: {
+    label: 'Twitter',
+    maxLength: 280,
+    recommendedHashtags: 2,
+    links: 'allowed',
+    urlLength: 23,
+    requiresMedia: false,
+    types: {
+      thread: { thread: { maxSegments: 25 } },
+      image: { requiresMedia: true }
+    }
+  },
+  linkedin: {
+    label: 'LinkedIn',
+    maxLength: 3000,
+    recommendedHashtags: 5,
+    links: 'discouraged',
+    requiresMedia: false,
+    types: {
+      article: { maxLength: 110000, links: 'allowed' },
+      newsletter: { maxLength: 110000, links: 'allowed' },
+      'image post': { requiresMedia: true },
+      image: { requiresMedia: true }
+    }
+  },
+  instagram: {
+    label: 'Instagram',
+    maxLength: 2200,
+    maxHashtags: 30,
+    recommendedHashtags: 10,
+    links: 'not_clickable',
+    requiresMedia: true
+  },
+  facebook: {
+    label: 'Facebook',
+    maxLength: 63206,
+    recommendedHashtags: 3,
+    links: 'allowed',
+    requiresMedia: false,
+    types: {
+      image: { requiresMedia: true },
+      video: { requiresMedia: true }
+    }
+  },
+  tiktok: {
+    label: 'TikTok',
+    maxLength: 4000,
+    recommendedHashtags: 5,
+    links: 'not_clickable',
+    requiresMedia: true
+  },
+  youtube: {
+    label: 'YouTube',
+    maxLength: 5000,
+    maxHashtags: 60,
+    recommendedHashtags: 15,
+    links: 'allowed',
+    requiresMedia: true
+  }
+}
+
+export interface RuleIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface RuleCheck {
+  // Null for platforms without rules; only emptiness is checked then
+  rules: PlatformRules | null
+  length: number
+  hashtags: number
+  links: number
+  // Thread parts, empty unless the content type is a thread
+  segments: string[]
+  issues: RuleIssue[]
+  passed: boolean
+}
+
+interface CheckedContent {
+  content: string | null
+  type: string | null
+  media_url?: string | null
+}
+
+const URL_PATTERN = /https?:\/\/[^\s]+/gi
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#[\p{L}\p{N}_]+/gu
+
+export const getPlatformRules = (platform: string | null | undefined, type?: string | null): PlatformRules | null => {
+  const ruleSet = platform ? PLATFORM_RULES[platform.toLowerCase()] : undefined
+  if (!ruleSet) return null
+
+  const { types, ...rules } = ruleSet
+  return { ...rules, ...(type ? types?.[type.toLowerCase()] : undefined) }
+}
+
+// Length as the platform counts it: code points, with links at a fixed length
+// where the platform shortens them
+export const countLength = (text: string, rules: PlatformRules | null) => {
+  const counted = rules?.urlLength
+    ? text.replace(URL_PATTERN, 'x'.repeat(rules.urlLength))
+    : text
+  return Array.from(counted).length
+}
+
+export const countHashtags = (text: string) => (text.match(HASHTAG_PATTERN) || []).length
+
+// Pieces of at most `limit` characters, cut at the widest boundary that fits:
+// paragraphs, then sentences, then words
+const splitToFit = (text: string, limit: number, measure: (text: string) => number): string[] => {
+  if (measure(text) <= limit) return [text]
+
+  const boundaries = [/\n\s*\n/, /(?<=[.!?])\s+/, /\s+/]
+  for (const boundary of boundaries) {
+    const pieces = text.split(boundary).map(piece => piece.trim()).filter(Boolean)
+    if (pieces.length < 2) continue
+
+    const joiner = boundary === boundaries[0] ? '\n\n' : ' '
+    const segments: string[] = []
+    let current = ''
+    for (const piece of pieces) {
+      const candidate = current ? `${current}${joiner}${piece}` : piece
+      if (measure(candidate) <= limit) {
+        current = candidate
+      } else {
+        if (current) segments.push(current)
+        current = piece
+      }
+    }
+    if (current) segments.push(current)
+
+    return segments.flatMap(segment => splitToFit(segment, limit, measure))
+  }
+
+  // A single word longer than the limit
+  const characters = Array.from(text)
+  const segments: string[] = []
+  for (let index = 0; index < characters.length; index += limit) {
+    segments.push(characters.slice(index, index + limit).join(''))
+  }
+  return segments
+}
+
+// Split text into numbered thread posts ("… 1/4") that each fit `maxLength`
+export const segmentThread = (text: string, rules: PlatformRules) => {
+  const trimmed = text.trim()
+  if (!trimmed) return []
+
+  const measure = (value: string) => countLength(value, rules)
+  if (measure(trimmed) <= rules.maxLength) return [trimmed]
+
+  // Reserve room for the numbering; redo if the post count gains a digit
+  let count = 9
+  for (;;) {
+    const suffixLength = ` ${count}/${count}`.length
+    const parts = splitToFit(trimmed, rules.maxLength - suffixLength, measure)
+    if (String(parts.length).length <= String(count).length) {
+      return parts.map((part, index) => `${part} ${index + 1}/${parts.length}`)
+    }
+    count = parts.length
+  }
+}
+
+export const checkPlatformRules = (content: CheckedContent, platform: string | null | undefined): RuleCheck => {
+  const text = content.content || ''
+  const rules = getPlatformRules(platform, content.type)
+  const issues: RuleIssue[] = []
+  const length = countLength(text, rules)
+  const hashtags = countHashtags(text)
+  const links = (text.match(URL_PATTERN) || []).length
+  const segments = rules?.thread ? segmentThread(text, rules) : []
+
+  if (!text.trim()) {
+    issues.push({ severity: 'error', message: 'Content is empty' })
+  }
+
+  if (rules) {
+    if (rules.thread) {
+      if (segments.length > rules.thread.maxSegments) {
+        issues.push({
+          severity: 'error',
+          message: `Splits into ${segments.length} posts, ${rules.label} threads are limited to ${rules.thread.maxSegments}`
+        })
+      } else if (segments.length > 1) {
+        issues.push({ severity: 'warning', message: `Will be posted as a thread of ${segments.length} posts` })
+      }
+    } else if (length > rules.maxLength) {
+      issues.push({
+        severity: 'error',
+        message: `${length.toLocaleString()} characters, ${rules.label} allows ${rules.maxLength.toLocaleString()}`
+      })
+    }
+
+    if (rules.maxHashtags !== undefined && hashtags > rules.maxHashtags) {
+      issues.push({ severity: 'error', message: `${hashtags} hashtags, ${rules.label} allows ${rules.maxHashtags}` })
+    } else if (rules.recommendedHashtags !== undefined && hashtags > rules.recommendedHashtags) {
+      issues.push({
+        severity: 'warning',
+        message: `${hashtags} hashtags, more than ${rules.recommendedHashtags} tends to reduce reach on ${rules.label}`
+      })
+    }
+
+    if (links > 0 && rules.links === 'not_clickable') {
+      issues.push({ severity: 'warning', message: `Links are not clickable in ${rules.label} captions` })
+    } else if (links > 0 && rules.links === 'discouraged') {
+      issues.push({ severity: 'warning', message: `Posts with links get less reach on ${rules.label}, consider a comment instead` })
+    }
+
+    if (rules.requiresMedia && !content.media_url?.trim()) {
+      issues.push({
+        severity: 'error',
+        message: `${rules.label}${content.type ? ` ${content.type.toLowerCase()}` : ''} needs an image or video`
+      })
+    }
+  }
+
+  return {
+    rules,
+    length,
+    hashtags,
+    links,
+    segments,
+    issues,
+    passed: !issues.some(issue => issue.severity === 'error')
+  }
+}
+
+// One line for toasts and publish errors
+export const describeRuleErrors = (check: RuleCheck) => {
+  return check.issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => issue.message)
+    .join('; ')
+}
@@ -3,6 +3,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { resolveWebhookEndpoint } from "@/lib/webhookEndpoints";
+import { saveWorkspaceSettings } from "@/lib/workspaceSettings";
+import { describeDeliveryFailure, dispatchWebhook, isDeliverySucceeded } from "@/lib/webhookDeliveries";
 import UserIdSection from "./form-sections/UserIdSection";
 import ContentDomainSection from "./form-sections/ContentDomainSection";
 import ContentSourcesSection from "./form-sections/ContentSourcesSection";
@@ -29,7 +32,7 @@ export interface FormData {
   prioritySettings: {
     engagementWeight: number;
     relevanceWeight: number;
-    trendingWeight: number;
+    recencyWeight: number;
   };
 }
 
@@ -52,7 +55,7 @@ const AutomationForm = ({ onBack }: AutomationFormProps) => {
     prioritySettings: {
       engagementWeight: 0.5,
       relevanceWeight: 0.5,
-      trendingWeight: 0.5
+      recencyWeight: 0.5
     }
   });
 
@@ -107,22 +110,38 @@ const AutomationForm = ({ onBack }: AutomationFormProps) => {
     console.log("Submitting form data:", formData);
 
     try {
-      // Replace with your actual Make.com webhook URL
-      const webhookUrl = "https://hook.us2.make.com/9ncgoj14ec9a8kvj9u5i4ep6axtypus2";
+      // The onboarding Make.com hook is managed under Settings > Webhooks
+      const endpoint = await resolveWebhookEndpoint('onboarding', null);
+      if (!endpoint) {
+        throw new Error("No onboarding webhook configured");
+      }
       
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        mode: "no-cors",
-        body: JSON.stringify({
-          ...formData,
-          timestamp: new Date().toISOString(),
-          source: "LeaderAmplifierAi"
-        }),
+      const delivery = await dispatchWebhook({
+        endpointId: endpoint.id,
+        profile: formData
       });
 
+      if (!isDeliverySucceeded(delivery)) {
+        throw new Error(describeDeliveryFailure(delivery));
+      }
+
+      // Priority scoring reads the weights from the workspace settings. The
+      // profile is already submitted, so a failed save only warns.
+      try {
+        await saveWorkspaceSettings({
+          engagement_weight: formData.prioritySettings.engagementWeight,
+          relevance_weight: formData.prioritySettings.relevanceWeight,
+          recency_weight: formData.prioritySettings.recencyWeight
+        });
+      } catch (error) {
+        console.error("Error saving priority weights:", error);
+        toast({
+          title: "Priority Weights Not Saved",
+          description: "Your profile was submitted, but the priority weights could not be saved. Set them again under Settings.",
+          variant: "destructive"
+        });
+      }
+
       toast({
         title: "Success!",
         description: "Your automation profile has been created successfully. You'll receive a confirmation email shortly.",
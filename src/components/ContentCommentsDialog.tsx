@@ -0,0 +1,320 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCheck, Loader2, MessageSquarePlus, Reply, RotateCcw, Trash2 } from "lucide-react";
+import { useContentComments, type LocatedThread } from "@/hooks/useContentComments";
+import { createAnchor, highlightSegments, type TextAnchor } from "@/lib/commentAnchors";
+import type { ContentComment } from "@/lib/supabase";
+
+interface ContentCommentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: { id: number; content: string | null } | null;
+  currentUserId: number;
+  getAuthorName: (userId: number | null) => string | undefined;
+}
+
+// Character offset of a DOM position within `container`, counting only text
+const textOffset = (container: HTMLElement, node: Node, offset: number) => {
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(node, offset);
+  return before.toString().length;
+};
+
+const ContentCommentsDialog = ({ open, onOpenChange, content, currentUserId, getAuthorName }: ContentCommentsDialogProps) => {
+  const text = content?.content || "";
+  const { threads, loading, addThread, addReply, setResolved, deleteComment } = useContentComments(
+    open && content ? content.id : null,
+    text
+  );
+  const textRef = useRef<HTMLDivElement>(null);
+  const [draftAnchor, setDraftAnchor] = useState<TextAnchor | null>(null);
+  const [draftBody, setDraftBody] = useState("");
+  const [replyBodies, setReplyBodies] = useState<Record<number, string>>({});
+  const [activeThreadId, setActiveThreadId] = useState<number | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const openThreads = threads.filter(thread => !thread.root.resolved_at);
+  const visibleThreads = showResolved ? threads : openThreads;
+  const segments = highlightSegments(
+    text,
+    visibleThreads
+      .filter(thread => thread.range)
+      .map(thread => ({ id: thread.root.id, ...thread.range! }))
+  );
+
+  const describeUser = (userId: number | null) => {
+    return getAuthorName(userId) || (userId ? `User #${userId}` : "Unknown");
+  };
+
+  // Turn the selected text into the range of a new thread
+  const handleSelection = () => {
+    const container = textRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.rangeCount === 0 || selection.isCollapsed) return;
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+    let start = textOffset(container, range.startContainer, range.startOffset);
+    let end = textOffset(container, range.endContainer, range.endOffset);
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) {
+      setDraftAnchor(createAnchor(text, start, end));
+    }
+  };
+
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    setPending(key);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      // Error handling is done in the hook
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleAddThread = async () => {
+    if (!draftAnchor || !draftBody.trim()) return;
+    const added = await run("thread", () => addThread(draftAnchor, draftBody, currentUserId));
+    if (added) {
+      setDraftAnchor(null);
+      setDraftBody("");
+      window.getSelection()?.removeAllRanges();
+    }
+  };
+
+  const handleReply = async (threadId: number) => {
+    const body = replyBodies[threadId]?.trim();
+    if (!body) return;
+    const added = await run(`reply-${threadId}`, () => addReply(threadId, body, currentUserId));
+    if (added) {
+      setReplyBodies(prev => ({ ...prev, [threadId]: "" }));
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setDraftAnchor(null);
+      setDraftBody("");
+      setActiveThreadId(null);
+    }
+    onOpenChange(next);
+  };
+
+  const renderComment = (comment: ContentComment) => (
+    <div key={comment.id} className="text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-white font-medium">{describeUser(comment.author_id)}</span>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-gray-500">{new Date(comment.created_at).toLocaleString()}</span>
+          {comment.author_id === currentUserId && (
+            <button
+              onClick={() => run(`delete-${comment.id}`, () => deleteComment(comment.id))}
+              disabled={pending !== null}
+              className="text-gray-500 hover:text-red-400"
+              title={comment.parent_id === null ? "Delete thread" : "Delete reply"}
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-gray-300 whitespace-pre-wrap break-words">{comment.body}</p>
+    </div>
+  );
+
+  const renderThread = (thread: LocatedThread) => {
+    const { root, replies, range } = thread;
+    const isActive = activeThreadId === root.id;
+
+    return (
+      <div
+        key={root.id}
+        onClick={() => setActiveThreadId(root.id)}
+        className={`p-3 rounded-lg border space-y-2 cursor-pointer transition-all ${
+          isActive ? "bg-yellow-500/10 border-yellow-400/40" : "bg-white/5 border-white/10 hover:bg-white/10"
+        } ${root.resolved_at ? "opacity-60" : ""}`}
+      >
+        <div className={`text-xs border-l-2 pl-2 ${range ? "border-yellow-400/60 text-gray-400" : "border-red-400/60 text-red-300"}`}>
+          {!range && <div className="font-medium">Text no longer found:</div>}
+          <span className="line-clamp-2">"{root.anchor_text}"</span>
+        </div>
+
+        {renderComment(root)}
+        {replies.length > 0 && (
+          <div className="pl-3 border-l border-white/10 space-y-2">
+            {replies.map(renderComment)}
+          </div>
+        )}
+
+        {root.resolved_at && (
+          <p className="text-xs text-green-300">
+            Resolved by {describeUser(root.resolved_by)} · {new Date(root.resolved_at).toLocaleString()}
+          </p>
+        )}
+
+        {isActive && (
+          <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+            {!root.resolved_at && (
+              <Textarea
+                placeholder="Reply..."
+                value={replyBodies[root.id] || ""}
+                onChange={(e) => setReplyBodies(prev => ({ ...prev, [root.id]: e.target.value }))}
+                className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 min-h-[60px] text-sm"
+              />
+            )}
+            <div className="flex gap-2">
+              {!root.resolved_at && (
+                <Button
+                  size="sm"
+                  onClick={() => handleReply(root.id)}
+                  disabled={pending !== null || !replyBodies[root.id]?.trim()}
+                  className="bg-purple-600 hover:bg-purple-700"
+                >
+                  {pending === `reply-${root.id}` ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Reply className="h-3 w-3 mr-1" />
+                  )}
+                  Reply
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => run(`resolve-${root.id}`, () => setResolved(root.id, !root.resolved_at, currentUserId))}
+                disabled={pending !== null}
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                {root.resolved_at ? (
+                  <>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Reopen
+                  </>
+                ) : (
+                  <>
+                    <CheckCheck className="h-3 w-3 mr-1" />
+                    Resolve
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700 max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Comments{content && ` · Content #${content.id}`}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-4">
+          <div className="flex-1 min-w-0 space-y-3">
+            <p className="text-xs text-gray-400">Select text to comment on it.</p>
+            {text ? (
+              <div
+                ref={textRef}
+                onMouseUp={handleSelection}
+                onKeyUp={handleSelection}
+                className="bg-white/5 border border-white/20 rounded-lg p-3 text-gray-300 whitespace-pre-wrap break-words max-h-[60vh] overflow-y-auto"
+              >
+                {segments.map((segment) => (
+                  segment.ids.length === 0 ? (
+                    <span key={segment.start}>{segment.text}</span>
+                  ) : (
+                    <mark
+                      key={segment.start}
+                      onClick={() => setActiveThreadId(segment.ids.includes(activeThreadId ?? -1) ? activeThreadId : segment.ids[0])}
+                      className={`text-gray-100 rounded-sm cursor-pointer ${
+                        segment.ids.includes(activeThreadId ?? -1) ? "bg-yellow-400/50" : "bg-yellow-400/20"
+                      }`}
+                    >
+                      {segment.text}
+                    </mark>
+                  )
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-400 text-sm">This content has no text to comment on.</p>
+            )}
+
+            {draftAnchor && (
+              <div className="space-y-2 p-3 bg-purple-500/10 border border-purple-400/30 rounded-lg">
+                <Label htmlFor="new-comment" className="text-white">New comment</Label>
+                <div className="text-xs text-gray-400 border-l-2 border-purple-400/60 pl-2 line-clamp-2">"{draftAnchor.text}"</div>
+                <Textarea
+                  id="new-comment"
+                  placeholder="What should change here?"
+                  value={draftBody}
+                  onChange={(e) => setDraftBody(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleAddThread}
+                    disabled={pending !== null || !draftBody.trim()}
+                    className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+                  >
+                    {pending === "thread" ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <MessageSquarePlus className="h-4 w-4 mr-2" />
+                    )}
+                    Comment
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setDraftAnchor(null)}
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="w-80 flex-shrink-0 space-y-2 max-h-[70vh] overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <span className="text-white font-medium text-sm">
+                {openThreads.length} open {openThreads.length === 1 ? "thread" : "threads"}
+              </span>
+              <button
+                onClick={() => setShowResolved(prev => !prev)}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                {showResolved ? "Hide" : "Show"} resolved ({threads.length - openThreads.length})
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center py-4 text-gray-300 text-sm">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading comments...
+              </div>
+            ) : visibleThreads.length === 0 ? (
+              <p className="text-gray-400 text-sm">No comments yet.</p>
+            ) : (
+              visibleThreads.map(renderThread)
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContentCommentsDialog;
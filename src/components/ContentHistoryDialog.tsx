@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns2, Loader2, RotateCcw, Rows3 } from "lucide-react";
+import { useContentRevisions } from "@/hooks/useContentRevisions";
+import { revisionKindLabels } from "@/lib/contentRevisions";
+import { diffStats, diffText, type DiffPart } from "@/lib/textDiff";
+import type { ContentRevision } from "@/lib/supabase";
+
+interface ContentHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: { id: number; content: string | null } | null;
+  getAuthorName: (userId: number | null) => string | undefined;
+  onRestore: (revisionId: number) => Promise<unknown>;
+}
+
+const partClass: Record<DiffPart["type"], string> = {
+  equal: "text-gray-300",
+  added: "bg-green-500/20 text-green-200",
+  removed: "bg-red-500/20 text-red-200 line-through"
+};
+
+const DiffText = ({ parts }: { parts: DiffPart[] }) => (
+  <div className="whitespace-pre-wrap break-words text-sm bg-white/5 border border-white/10 rounded-lg p-3 max-h-[50vh] overflow-y-auto">
+    {parts.length === 0 ? (
+      <span className="text-gray-500">Empty</span>
+    ) : (
+      parts.map((part, index) => (
+        <span key={index} className={partClass[part.type]}>{part.text}</span>
+      ))
+    )}
+  </div>
+);
+
+const ContentHistoryDialog = ({ open, onOpenChange, content, getAuthorName, onRestore }: ContentHistoryDialogProps) => {
+  const { revisions, loading } = useContentRevisions(open && content ? content.id : null, content?.content);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<"previous" | "current">("previous");
+  const [mode, setMode] = useState<"inline" | "split">("inline");
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Revisions are newest first; the newest is selected until another is picked
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId));
+  const selected: ContentRevision | undefined = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+  const baseText = compareTo === "current" ? content?.content : previous?.content;
+  const parts = selected ? diffText(baseText, selected.content) : [];
+  const isCurrentText = !!selected && selected.content === content?.content;
+
+  const describeAuthor = (revision: ContentRevision) => {
+    return getAuthorName(revision.author_id) || (revision.author_id ? `User #${revision.author_id}` : "System");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setSelectedId(null);
+      setCompareTo("previous");
+    }
+    onOpenChange(next);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestore(selected.id);
+      setSelectedId(null);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700 max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Revision History{content && ` · Content #${content.id}`}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-300">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading revisions...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-gray-400 text-sm">No revisions recorded yet.</p>
+        ) : (
+          <div className="flex gap-4">
+            <div className="w-56 flex-shrink-0 space-y-2 max-h-[60vh] overflow-y-auto">
+              {revisions.map((revision, index) => {
+                const stats = diffStats(diffText(revisions[index + 1]?.content, revision.content));
+                return (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left p-2 rounded-lg border text-sm transition-all ${
+                      revision.id === selected?.id
+                        ? "bg-purple-500/20 border-purple-400/30"
+                        : "bg-white/5 border-white/10 hover:bg-white/10"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-white font-medium">#{revision.revision_number}</span>
+                      <span className="text-xs text-gray-400">
+                        {revisionKindLabels[revision.kind]}
+                        {revision.kind === "restore" && revision.restored_from && (
+                          ` from #${revisions.find(item => item.id === revision.restored_from)?.revision_number ?? "?"}`
+                        )}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">{describeAuthor(revision)}</div>
+                    <div className="text-xs text-gray-500">{new Date(revision.created_at).toLocaleString()}</div>
+                    {index < revisions.length - 1 && (
+                      <div className="text-xs mt-1">
+                        <span className="text-green-300">+{stats.added}</span>{" "}
+                        <span className="text-red-300">−{stats.removed}</span>
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {selected && (
+              <div className="flex-1 min-w-0 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label className="text-white">Compare with</Label>
+                  <Select value={compareTo} onValueChange={(value) => setCompareTo(value as "previous" | "current")}>
+                    <SelectTrigger className="w-48 bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="previous" className="text-white hover:bg-gray-700">Previous revision</SelectItem>
+                      <SelectItem value="current" className="text-white hover:bg-gray-700">Current text</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="flex rounded-md border border-white/20 overflow-hidden">
+                    {([["inline", Rows3, "Inline"], ["split", Columns2, "Side by side"]] as const).map(([value, Icon, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setMode(value)}
+                        className={`flex items-center px-3 py-2 text-sm transition-all ${
+                          mode === value
+                            ? "bg-gradient-to-r from-purple-600 to-blue-600 text-white"
+                            : "bg-white/10 text-gray-300 hover:bg-white/20"
+                        }`}
+                      >
+                        <Icon className="h-4 w-4 mr-1" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <Button
+                    onClick={handleRestore}
+                    disabled={isRestoring || isCurrentText}
+                    className="ml-auto bg-yellow-600 hover:bg-yellow-700"
+                    title={isCurrentText ? "This is the current text" : undefined}
+                  >
+                    {isRestoring ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    Restore #{selected.revision_number}
+                  </Button>
+                </div>
+
+                {compareTo === "previous" && !previous ? (
+                  <>
+                    <p className="text-xs text-gray-400">The first revision, nothing to compare with.</p>
+                    <DiffText parts={diffText(selected.content, selected.content)} />
+                  </>
+                ) : mode === "inline" ? (
+                  <DiffText parts={parts} />
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <p className="text-xs text-gray-400 mb-1">
+                        {compareTo === "current" ? "Current text" : `Revision #${previous?.revision_number}`}
+                      </p>
+                      <DiffText parts={parts.filter(part => part.type !== "added")} />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-400 mb-1">Revision #{selected.revision_number}</p>
+                      <DiffText parts={parts.filter(part => part.type !== "removed")} />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContentHistoryDialog;
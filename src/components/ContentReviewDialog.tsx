@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Loader2, MessageSquareWarning, UserCheck } from "lucide-react";
+import { useContentReviews } from "@/hooks/useContentReviews";
+import {
+  canSubmitForReview,
+  getContentStatusLabel,
+  needsReviewBy,
+  reviewActionLabels,
+  type ReviewDecision
+} from "@/lib/contentReview";
+import type { Content } from "@/lib/supabase";
+
+interface ContentReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: Content | null;
+  reviewers: { id: number; name: string | null }[];
+  currentUserId: number;
+  getAuthorName: (userId: number | null) => string | undefined;
+  getStatusColor: (status: string | null) => string;
+  onSubmit: (reviewerId: number, comment: string) => Promise<unknown>;
+  onReview: (decision: ReviewDecision, comment: string) => Promise<unknown>;
+}
+
+const actionClass = {
+  submitted: "text-blue-300",
+  approved: "text-green-300",
+  changes_requested: "text-orange-300"
+};
+
+const ContentReviewDialog = ({
+  open,
+  onOpenChange,
+  content,
+  reviewers,
+  currentUserId,
+  getAuthorName,
+  getStatusColor,
+  onSubmit,
+  onReview
+}: ContentReviewDialogProps) => {
+  const { reviews, loading, fetchReviews } = useContentReviews(open && content ? content.id : null, content?.status);
+  // The leader the content is written for signs off unless someone else is picked
+  const [reviewerId, setReviewerId] = useState<string>(String(content?.reviewer_id ?? content?.user_id ?? ""));
+  const [comment, setComment] = useState("");
+  const [pending, setPending] = useState<"submit" | ReviewDecision | null>(null);
+
+  if (!content) return null;
+
+  const isMyReview = needsReviewBy(content, currentUserId);
+  const canSubmit = canSubmitForReview(content.status);
+  const isReassigning = content.status === "in_review";
+
+  const describeUser = (userId: number | null) => {
+    return getAuthorName(userId) || (userId ? `User #${userId}` : "System");
+  };
+
+  const run = async (action: "submit" | ReviewDecision) => {
+    setPending(action);
+    try {
+      if (action === "submit") {
+        await onSubmit(Number(reviewerId), comment);
+      } else {
+        await onReview(action, comment);
+      }
+      setComment("");
+      fetchReviews();
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Review · Content #{content.id}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-2 py-1 rounded-full ${getStatusColor(content.status)}`}>
+              {getContentStatusLabel(content.status)}
+            </span>
+            {content.reviewer_id && (
+              <span className="text-gray-400">Reviewer: {describeUser(content.reviewer_id)}</span>
+            )}
+          </div>
+
+          <div className="bg-white/5 border border-white/20 rounded-lg p-3 text-gray-300 max-h-60 overflow-y-auto whitespace-pre-wrap">
+            {content.content || "No content"}
+          </div>
+
+          <div>
+            <Label className="text-white">Review History</Label>
+            {loading ? (
+              <div className="flex items-center py-2 text-gray-300 text-sm">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading reviews...
+              </div>
+            ) : reviews.length === 0 ? (
+              <p className="text-gray-400 text-sm mt-1">Not submitted for review yet.</p>
+            ) : (
+              <div className="space-y-2 mt-1">
+                {reviews.map((review) => (
+                  <div key={review.id} className="bg-white/5 border border-white/10 rounded-lg p-2 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className={actionClass[review.action]}>
+                        {reviewActionLabels[review.action]}
+                        {review.action === "submitted" && review.reviewer_id && ` to ${describeUser(review.reviewer_id)}`}
+                      </span>
+                      <span className="text-xs text-gray-500">{new Date(review.created_at).toLocaleString()}</span>
+                    </div>
+                    <div className="text-xs text-gray-400">{describeUser(review.author_id)}</div>
+                    {review.comment && <p className="text-gray-300 mt-1 whitespace-pre-wrap">{review.comment}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {isMyReview && (
+            <div className="space-y-2 p-3 bg-purple-500/10 border border-purple-400/30 rounded-lg">
+              <Label htmlFor="review-comment" className="text-white">Your review</Label>
+              <Textarea
+                id="review-comment"
+                placeholder="What should change? Optional when approving."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+              />
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => run("approved")}
+                  disabled={pending !== null}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {pending === "approved" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                  )}
+                  Approve
+                </Button>
+                <Button
+                  onClick={() => run("changes_requested")}
+                  disabled={pending !== null || !comment.trim()}
+                  className="bg-orange-600 hover:bg-orange-700"
+                  title={!comment.trim() ? "Add a comment saying what needs to change" : undefined}
+                >
+                  {pending === "changes_requested" ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <MessageSquareWarning className="h-4 w-4 mr-2" />
+                  )}
+                  Request Changes
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {canSubmit && (
+            <div className="space-y-2 p-3 bg-white/5 border border-white/20 rounded-lg">
+              <Label className="text-white">{isReassigning ? "Hand to another reviewer" : "Submit for review"}</Label>
+              <Select value={reviewerId} onValueChange={setReviewerId}>
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue placeholder="Select reviewer" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  {reviewers.map((reviewer) => (
+                    <SelectItem key={reviewer.id} value={String(reviewer.id)} className="text-white hover:bg-gray-700">
+                      {reviewer.name || `User #${reviewer.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!isMyReview && (
+                <Textarea
+                  placeholder="Note for the reviewer (optional)"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                />
+              )}
+              <Button
+                onClick={() => run("submit")}
+                disabled={pending !== null || !reviewerId || (isReassigning && Number(reviewerId) === content.reviewer_id)}
+                className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+              >
+                {pending === "submit" ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <UserCheck className="h-4 w-4 mr-2" />
+                )}
+                {isReassigning ? "Reassign" : "Submit for Review"}
+              </Button>
+            </div>
+          )}
+
+          {content.status === "approved" && (
+            <p className="text-sm text-green-300">Approved - ready to publish or schedule. Editing the text sends it back to review.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContentReviewDialog;
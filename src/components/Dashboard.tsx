@@ -11,6 +11,7 @@ import PromptsTab from "./dashboard-tabs/PromptsTab";
 import UsersTab from "./dashboard-tabs/UsersTab";
 import ScheduledPostsTab from "./dashboard-tabs/ScheduledPostsTab";
 import UserProfile from "./UserProfile";
+import SettingsPanel from "./SettingsPanel";
 import { useUsers } from "@/hooks/useUsers";
 import { useIdeas } from "@/hooks/useIdeas";
 import { useContents } from "@/hooks/useContents";
@@ -22,10 +23,11 @@ interface DashboardProps {
 
 const Dashboard = ({ onBack }: DashboardProps) => {
   const { currentUser, logout } = useUsers();
-  const { ideas } = useIdeas();
+  const { totalCount } = useIdeas();
   const { contents } = useContents();
   const { sources } = useSources();
   const [activeTab, setActiveTab] = useState("ideas");
+  const [activeView, setActiveView] = useState<"dashboard" | "settings">("dashboard");
 
   const handleSignOut = () => {
     logout();
@@ -34,7 +36,7 @@ const Dashboard = ({ onBack }: DashboardProps) => {
   };
 
   // Calculate stats
-  const totalIdeas = ideas.length;
+  const totalIdeas = totalCount;
   const contentGenerated = contents.length;
   const activeSources = sources.filter(source => source.key === 'Active').length;
   
@@ -62,10 +64,22 @@ const Dashboard = ({ onBack }: DashboardProps) => {
             <div className="px-3 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
               Main
             </div>
-            <Button variant="ghost" className="w-full justify-start text-gray-300 hover:bg-gray-700 hover:text-white">
+            <Button
+              variant="ghost"
+              onClick={() => setActiveView("dashboard")}
+              className={`w-full justify-start hover:bg-gray-700 hover:text-white ${activeView === "dashboard" ? "bg-gray-700 text-white" : "text-gray-300"}`}
+            >
               <LayoutDashboard className="mr-3 h-4 w-4" />
               Dashboard
             </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setActiveView("settings")}
+              className={`w-full justify-start hover:bg-gray-700 hover:text-white ${activeView === "settings" ? "bg-gray-700 text-white" : "text-gray-300"}`}
+            >
+              <Settings className="mr-3 h-4 w-4" />
+              Settings
+            </Button>
           </nav>
         </div>
         
@@ -84,7 +98,12 @@ const Dashboard = ({ onBack }: DashboardProps) => {
             </div>
           </div>
           <div className="flex space-x-2">
-            <Button variant="ghost" size="sm" className="flex-1 text-gray-300 hover:bg-gray-700 hover:text-white">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex-1 text-gray-300 hover:bg-gray-700 hover:text-white"
+              onClick={() => setActiveView("settings")}
+            >
               <Settings className="h-4 w-4" />
             </Button>
             <Button 
@@ -105,8 +124,10 @@ const Dashboard = ({ onBack }: DashboardProps) => {
         <header className="bg-white/10 backdrop-blur-sm shadow-lg border-b border-white/20 px-6 py-4">
           <div className="flex items-center justify-between">
             <div>
-              <h2 className="text-2xl font-bold text-white">Dashboard</h2>
-              <p className="text-gray-200">Manage your content automation</p>
+              <h2 className="text-2xl font-bold text-white">{activeView === "settings" ? "Settings" : "Dashboard"}</h2>
+              <p className="text-gray-200">
+                {activeView === "settings" ? "Manage workspace integrations" : "Manage your content automation"}
+              </p>
             </div>
             <div className="flex items-center space-x-4">
               <div className="text-sm text-gray-300">
@@ -118,121 +139,127 @@ const Dashboard = ({ onBack }: DashboardProps) => {
 
         {/* Dashboard Content */}
         <main className="flex-1 p-6">
-          {/* Stats Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-            <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-white">Total Ideas</CardTitle>
-                <Lightbulb className="h-4 w-4 text-yellow-400" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-white">{totalIdeas}</div>
-                <p className="text-xs text-green-400">{getGrowthPercentage(totalIdeas)} from last month</p>
-              </CardContent>
-            </Card>
+          {activeView === "settings" ? (
+            <SettingsPanel />
+          ) : (
+            <>
+              {/* Stats Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+                <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-white">Total Ideas</CardTitle>
+                    <Lightbulb className="h-4 w-4 text-yellow-400" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-white">{totalIdeas}</div>
+                    <p className="text-xs text-green-400">{getGrowthPercentage(totalIdeas)} from last month</p>
+                  </CardContent>
+                </Card>
             
-            <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-white">Content Generated</CardTitle>
-                <FileText className="h-4 w-4 text-blue-400" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-white">{contentGenerated}</div>
-                <p className="text-xs text-green-400">{getGrowthPercentage(contentGenerated, 100)} from last month</p>
-              </CardContent>
-            </Card>
+                <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-white">Content Generated</CardTitle>
+                    <FileText className="h-4 w-4 text-blue-400" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-white">{contentGenerated}</div>
+                    <p className="text-xs text-green-400">{getGrowthPercentage(contentGenerated, 100)} from last month</p>
+                  </CardContent>
+                </Card>
             
-            <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-white">Active Sources</CardTitle>
-                <Globe className="h-4 w-4 text-green-400" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-white">{activeSources}</div>
-                <p className="text-xs text-green-400">+{Math.max(0, activeSources - 5)} new this week</p>
-              </CardContent>
-            </Card>
+                <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-white">Active Sources</CardTitle>
+                    <Globe className="h-4 w-4 text-green-400" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-white">{activeSources}</div>
+                    <p className="text-xs text-green-400">+{Math.max(0, activeSources - 5)} new this week</p>
+                  </CardContent>
+                </Card>
             
-            <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-white">Engagement Rate</CardTitle>
-                <BarChart3 className="h-4 w-4 text-purple-400" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-white">{engagementRate}%</div>
-                <p className="text-xs text-green-400">+2.1% from last month</p>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Tabs */}
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-7 mb-8 bg-white/10 backdrop-blur-sm border-white/20">
-              <TabsTrigger value="ideas" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <Lightbulb className="h-4 w-4" />
-                <span>Ideas</span>
-              </TabsTrigger>
-              <TabsTrigger value="content" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <FileText className="h-4 w-4" />
-                <span>Content</span>
-              </TabsTrigger>
-              <TabsTrigger value="scheduled" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <Calendar className="h-4 w-4" />
-                <span>Scheduled</span>
-              </TabsTrigger>
-              <TabsTrigger value="sources" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <Globe className="h-4 w-4" />
-                <span>Sources</span>
-              </TabsTrigger>
-              <TabsTrigger value="tracking" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <BarChart3 className="h-4 w-4" />
-                <span>Tracking</span>
-              </TabsTrigger>
-              <TabsTrigger value="prompts" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <MessageSquare className="h-4 w-4" />
-                <span>Prompts</span>
-              </TabsTrigger>
-              <TabsTrigger value="users" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
-                <Users className="h-4 w-4" />
-                <span>Users</span>
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="ideas">
-              <IdeasTab />
-            </TabsContent>
-
-            <TabsContent value="content">
-              <ContentTab />
-            </TabsContent>
-
-            <TabsContent value="scheduled">
-              <ScheduledPostsTab />
-            </TabsContent>
-
-            <TabsContent value="sources">
-              <SourcesTab />
-            </TabsContent>
-
-            <TabsContent value="tracking">
-              <TrackingTab />
-            </TabsContent>
-
-            <TabsContent value="prompts">
-              <PromptsTab />
-            </TabsContent>
-
-            <TabsContent value="users">
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                <div className="lg:col-span-2">
-                  <UsersTab />
-                </div>
-                <div>
-                  <UserProfile />
-                </div>
+                <Card className="bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/20 transition-all duration-300">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium text-white">Engagement Rate</CardTitle>
+                    <BarChart3 className="h-4 w-4 text-purple-400" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-white">{engagementRate}%</div>
+                    <p className="text-xs text-green-400">+2.1% from last month</p>
+                  </CardContent>
+                </Card>
               </div>
-            </TabsContent>
-          </Tabs>
+
+              {/* Tabs */}
+              <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+                <TabsList className="grid w-full grid-cols-7 mb-8 bg-white/10 backdrop-blur-sm border-white/20">
+                  <TabsTrigger value="ideas" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <Lightbulb className="h-4 w-4" />
+                    <span>Ideas</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="content" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <FileText className="h-4 w-4" />
+                    <span>Content</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="scheduled" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <Calendar className="h-4 w-4" />
+                    <span>Scheduled</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="sources" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <Globe className="h-4 w-4" />
+                    <span>Sources</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="tracking" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <BarChart3 className="h-4 w-4" />
+                    <span>Tracking</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="prompts" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <MessageSquare className="h-4 w-4" />
+                    <span>Prompts</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="users" className="flex items-center space-x-2 text-white data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-600 data-[state=active]:to-blue-600 data-[state=active]:text-white">
+                    <Users className="h-4 w-4" />
+                    <span>Users</span>
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="ideas">
+                  <IdeasTab />
+                </TabsContent>
+
+                <TabsContent value="content">
+                  <ContentTab />
+                </TabsContent>
+
+                <TabsContent value="scheduled">
+                  <ScheduledPostsTab />
+                </TabsContent>
+
+                <TabsContent value="sources">
+                  <SourcesTab />
+                </TabsContent>
+
+                <TabsContent value="tracking">
+                  <TrackingTab />
+                </TabsContent>
+
+                <TabsContent value="prompts">
+                  <PromptsTab />
+                </TabsContent>
+
+                <TabsContent value="users">
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2">
+                      <UsersTab />
+                    </div>
+                    <div>
+                      <UserProfile />
+                    </div>
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
         </main>
       </div>
     </div>
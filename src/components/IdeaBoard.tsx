@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eye, Loader2 } from "lucide-react";
+import IdeaFreshnessBadge from "@/components/IdeaFreshnessBadge";
+import { formatPriorityScore } from "@/lib/priorityScoring";
+import { effectivePriority } from "@/lib/ideaFreshness";
+import { canMoveManually, IDEA_STATUSES, ideaStatusLabels, type IdeaStatus } from "@/lib/ideaLifecycle";
+import type { Idea, Tag } from "@/lib/supabase";
+
+interface PendingSelection {
+  ideaId: number;
+  platform: string;
+  contentType: string;
+}
+
+interface IdeaBoardProps {
+  ideas: Idea[];
+  // Matching ideas per status, including those not loaded yet
+  statusCounts: Record<string, number>;
+  selectedIdeas: number[];
+  contentSelections: PendingSelection[];
+  getIdeaTags: (ideaId: number) => Tag[];
+  getStatusColor: (status: string | null) => string;
+  onToggleSelect: (ideaId: number) => void;
+  onView: (idea: Idea) => void;
+  onMove: (ideaId: number, to: IdeaStatus) => Promise<unknown>;
+}
+
+const IdeaBoard = ({
+  ideas,
+  statusCounts,
+  selectedIdeas,
+  contentSelections,
+  getIdeaTags,
+  getStatusColor,
+  onToggleSelect,
+  onView,
+  onMove
+}: IdeaBoardProps) => {
+  const [draggingIdea, setDraggingIdea] = useState<Idea | null>(null);
+  const [dropTarget, setDropTarget] = useState<IdeaStatus | null>(null);
+  const [movingIdeaId, setMovingIdeaId] = useState<number | null>(null);
+
+  // Columns an idea can't move to are dimmed while it is dragged. Generating
+  // and drafted are left to content generation.
+  const canDropOn = (status: IdeaStatus) => {
+    return !!draggingIdea && draggingIdea.status !== status && canMoveManually(draggingIdea.status, status);
+  };
+
+  const handleDrop = async (status: IdeaStatus) => {
+    const idea = draggingIdea;
+    setDraggingIdea(null);
+    setDropTarget(null);
+    if (!idea || !canMoveManually(idea.status, status)) return;
+
+    setMovingIdeaId(idea.id);
+    try {
+      await onMove(idea.id, status);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setMovingIdeaId(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {IDEA_STATUSES.map((status) => {
+        const columnIdeas = ideas
+          .filter(idea => idea.status === status)
+          .sort((a, b) => effectivePriority(b) - effectivePriority(a));
+        const droppable = canDropOn(status);
+        const total = statusCounts[status] || 0;
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              if (!droppable) return;
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDragLeave={() => setDropTarget(prev => prev === status ? null : prev)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(status);
+            }}
+            className={`flex-shrink-0 w-64 rounded-lg border p-2 transition-all ${
+              dropTarget === status
+                ? "border-purple-400 bg-purple-500/10"
+                : "border-white/10 bg-white/5"
+            } ${draggingIdea && !droppable && draggingIdea.status !== status ? "opacity-40" : ""}`}
+          >
+            <div className="flex items-center justify-between mb-2 px-1">
+              <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(status)}`}>
+                {ideaStatusLabels[status]}
+              </span>
+              <span className="text-sm text-gray-400" title={`${columnIdeas.length} loaded`}>
+                {columnIdeas.length < total ? `${columnIdeas.length} of ${total}` : total}
+              </span>
+            </div>
+
+            <div className="space-y-2 min-h-[80px]">
+              {columnIdeas.map((idea) => {
+                const selections = contentSelections.filter(selection => selection.ideaId === idea.id);
+                const ideaTags = getIdeaTags(idea.id);
+
+                return (
+                  <div
+                    key={idea.id}
+                    draggable={movingIdeaId !== idea.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", String(idea.id));
+                      setDraggingIdea(idea);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingIdea(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => onToggleSelect(idea.id)}
+                    className={`p-3 rounded-lg border cursor-grab active:cursor-grabbing transition-all ${
+                      selectedIdeas.includes(idea.id)
+                        ? "bg-purple-500/20 border-purple-400/30"
+                        : "bg-gray-900/60 border-white/10 hover:bg-white/10"
+                    } ${movingIdeaId === idea.id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="text-xs text-gray-500 font-mono">#{idea.id}</span>
+                      <div className="flex items-center gap-1">
+                        {movingIdeaId === idea.id && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+                        <span className="text-xs text-gray-300" title="Priority score after freshness decay">
+                          {formatPriorityScore(effectivePriority(idea))}/10
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-sm text-white mt-1 line-clamp-3" title={idea.content || ""}>
+                      {idea.content || "No content"}
+                    </p>
+                    <div className="mt-1">
+                      <IdeaFreshnessBadge idea={idea} />
+                    </div>
+                    {ideaTags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {ideaTags.map((tag) => (
+                          <span key={tag.id} className="px-2 py-0.5 rounded-full text-xs bg-indigo-500/20 text-indigo-300">
+                            {tag.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {selections.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {selections.map((selection) => (
+                          <span key={selection.platform} className="px-2 py-0.5 rounded text-xs bg-blue-600/30 text-blue-200">
+                            {selection.platform}: {selection.contentType}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-end mt-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onView(idea);
+                        }}
+                        className="h-6 px-2 text-blue-400 hover:text-blue-300 hover:bg-blue-500/20"
+                      >
+                        <Eye className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IdeaBoard;
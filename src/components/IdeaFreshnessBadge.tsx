@@ -0,0 +1,35 @@
+import { daysUntilExpiry, isExpired, isStale } from "@/lib/ideaFreshness";
+import type { Idea } from "@/lib/supabase";
+
+interface IdeaFreshnessBadgeProps {
+  idea: Idea;
+}
+
+// Nothing for evergreen ideas; timely ones show how long they have left
+const IdeaFreshnessBadge = ({ idea }: IdeaFreshnessBadgeProps) => {
+  if (idea.timeliness !== "timely") {
+    return null;
+  }
+
+  const daysLeft = daysUntilExpiry(idea);
+  const label = isExpired(idea)
+    ? "Expired"
+    : isStale(idea)
+      ? "Stale"
+      : daysLeft !== null
+        ? `Timely · ${daysLeft}d left`
+        : "Timely";
+
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs ${
+        isStale(idea) ? "bg-amber-500/20 text-amber-300" : "bg-sky-500/20 text-sky-300"
+      }`}
+      title={idea.expires_at ? `Expires ${new Date(idea.expires_at).toLocaleString()}` : undefined}
+    >
+      {label}
+    </span>
+  );
+};
+
+export default IdeaFreshnessBadge;
@@ -0,0 +1,58 @@
+import { Label } from "@/components/ui/label";
+import { ExternalLink } from "lucide-react";
+import { describeSource } from "@/lib/ideaProvenance";
+import type { Idea, Source } from "@/lib/supabase";
+
+interface IdeaProvenanceProps {
+  idea: Idea;
+  // Null when the idea has no source or the source was deleted
+  source: Source | null;
+}
+
+const IdeaProvenance = ({ idea, source }: IdeaProvenanceProps) => {
+  const hasProvenance = source || idea.source_url || idea.source_excerpt;
+
+  return (
+    <div>
+      <Label className="text-white">Derived from</Label>
+      {!hasProvenance ? (
+        <p className="text-sm text-gray-400">Not linked to a source</p>
+      ) : (
+        <div className="bg-white/5 border border-white/20 rounded-lg p-3 space-y-2">
+          {source && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="px-2 py-0.5 rounded-full text-xs bg-teal-500/20 text-teal-300">
+                {source.source_type || "Source"}
+              </span>
+              {source.url ? (
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 truncate">
+                  {describeSource(source)}
+                </a>
+              ) : (
+                <span className="text-gray-300 truncate">{describeSource(source)}</span>
+              )}
+            </div>
+          )}
+          {idea.source_url && (
+            <a
+              href={idea.source_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center text-sm text-blue-400 hover:text-blue-300 break-all"
+            >
+              <ExternalLink className="h-3 w-3 mr-1 flex-shrink-0" />
+              {idea.source_url}
+            </a>
+          )}
+          {idea.source_excerpt && (
+            <blockquote className="border-l-2 border-teal-500/50 pl-3 text-sm text-gray-300 italic whitespace-pre-wrap">
+              {idea.source_excerpt}
+            </blockquote>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdeaProvenance;
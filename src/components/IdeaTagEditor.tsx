@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { X } from "lucide-react";
+import type { Tag } from "@/lib/supabase";
+
+interface IdeaTagEditorProps {
+  ideaId: number;
+  tags: Tag[];
+  allTags: Tag[];
+  onAdd: (ideaIds: number[], name: string) => Promise<unknown>;
+  onRemove: (ideaId: number, tagId: number) => Promise<unknown>;
+}
+
+const IdeaTagEditor = ({ ideaId, tags, allTags, onAdd, onRemove }: IdeaTagEditorProps) => {
+  const [newTag, setNewTag] = useState("");
+
+  const suggestions = newTag.trim()
+    ? allTags
+        .filter(tag => tag.name.toLowerCase().includes(newTag.trim().toLowerCase()))
+        .filter(tag => !tags.some(current => current.id === tag.id))
+        .slice(0, 5)
+    : [];
+
+  const handleAdd = async (name: string) => {
+    if (!name.trim()) return;
+    try {
+      await onAdd([ideaId], name);
+      setNewTag("");
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  const handleRemove = async (tagId: number) => {
+    try {
+      await onRemove(ideaId, tagId);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <div>
+      <Label className="text-white">Tags</Label>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {tags.length === 0 && <span className="text-sm text-gray-400">No tags yet</span>}
+        {tags.map((tag) => (
+          <span key={tag.id} className="flex items-center px-2 py-0.5 rounded-full text-xs bg-indigo-500/20 text-indigo-300">
+            {tag.name}
+            <button onClick={() => handleRemove(tag.id)} className="ml-1 hover:text-white" title="Remove tag">
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <Input
+        placeholder="Add a tag and press Enter..."
+        value={newTag}
+        onChange={(e) => setNewTag(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            handleAdd(newTag);
+          }
+        }}
+        className="mt-2 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.id}
+              onClick={() => handleAdd(tag.name)}
+              className="px-2 py-0.5 rounded-full text-xs bg-white/10 text-gray-300 hover:bg-white/20"
+            >
+              + {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdeaTagEditor;
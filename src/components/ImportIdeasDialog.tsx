@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Loader2, Upload } from "lucide-react";
+import {
+  guessImportMapping,
+  IMPORT_FIELDS,
+  importFieldLabels,
+  parseImportFile,
+  validateImportRows,
+  type ImportField,
+  type ImportMapping,
+  type ImportRow,
+  type ParsedImport
+} from "@/lib/ideaImportExport";
+import { formatPriorityScore } from "@/lib/priorityScoring";
+import { ideaStatusLabels, type IdeaStatus } from "@/lib/ideaLifecycle";
+
+interface ImportIdeasDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: number | null;
+  onImport: (rows: ImportRow[]) => Promise<unknown>;
+}
+
+const NOT_IMPORTED = "__none__";
+
+const ImportIdeasDialog = ({ open, onOpenChange, userId, onImport }: ImportIdeasDialogProps) => {
+  const [step, setStep] = useState<"upload" | "map" | "preview">("upload");
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setStep("upload");
+    setParsed(null);
+    setMapping(null);
+    setPastedText("");
+    setParseError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const loadText = (text: string, fileName?: string) => {
+    try {
+      const result = parseImportFile(text, fileName);
+      setParsed(result);
+      setMapping(guessImportMapping(result.headers));
+      setParseError(null);
+      setStep("map");
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : "The file could not be read");
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    loadText(await file.text(), file.name);
+  };
+
+  const rows = parsed && mapping ? validateImportRows(parsed.records, mapping, userId) : [];
+  const validRows = rows.filter(row => row.errors.length === 0);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(validRows);
+      handleOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700 max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Import Ideas</DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="import-file" className="text-white">CSV or JSON file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,.txt,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="bg-white/10 border-white/20 text-white"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                The first CSV line must hold the column names. JSON files must contain an array of ideas.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="import-paste" className="text-white">Or paste rows from a spreadsheet</Label>
+              <Textarea
+                id="import-paste"
+                placeholder={"content,priority,status,tags\nAI triage in rural clinics,8,new,\"healthcare, ai\""}
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 min-h-[120px] font-mono text-sm"
+              />
+            </div>
+            {parseError && <p className="text-sm text-red-400">{parseError}</p>}
+            <Button
+              onClick={() => loadText(pastedText)}
+              disabled={!pastedText.trim()}
+              className="w-full bg-blue-600 hover:bg-blue-700"
+            >
+              Continue
+            </Button>
+          </div>
+        )}
+
+        {step === "map" && parsed && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300">
+              Found {parsed.records.length} rows. Choose which column fills each idea field.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map((field: ImportField) => (
+                <div key={field}>
+                  <Label className="text-white">
+                    {importFieldLabels[field]}{field === "content" && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] ?? NOT_IMPORTED}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_IMPORTED ? null : value })}
+                  >
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value={NOT_IMPORTED} className="text-white hover:bg-gray-700">
+                        {field === "content" ? "Choose a column" : "Don't import"}
+                      </SelectItem>
+                      {parsed.headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header} className="text-white hover:bg-gray-700">
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              Priorities can be 0-1, 0-10 or 0-100. Ideas without a status start as New, tags are separated by commas.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                onClick={reset}
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={() => setStep("preview")}
+                disabled={!mapping.content}
+                className="flex-1 bg-blue-600 hover:bg-blue-700"
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-300">
+              {validRows.length} of {rows.length} rows are ready to import.
+              {validRows.length < rows.length && " Rows with problems are skipped."}
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto border border-white/10 rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-white/10">
+                    <TableHead className="text-white">Row</TableHead>
+                    <TableHead className="text-white">Content</TableHead>
+                    <TableHead className="text-white">Priority</TableHead>
+                    <TableHead className="text-white">Status</TableHead>
+                    <TableHead className="text-white">Tags</TableHead>
+                    <TableHead className="text-white">Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.row} className={`border-white/10 ${row.errors.length > 0 ? "bg-red-500/10" : ""}`}>
+                      <TableCell className="text-gray-400 font-mono text-sm">{row.row}</TableCell>
+                      <TableCell className="text-white max-w-xs">
+                        <div className="truncate" title={row.idea.content || ""}>{row.idea.content || "—"}</div>
+                        {row.idea.source_url && (
+                          <div className="truncate text-xs text-gray-400" title={row.idea.source_url}>{row.idea.source_url}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-gray-300">{formatPriorityScore(row.idea.priority_score)}</TableCell>
+                      <TableCell className="text-gray-300">
+                        {ideaStatusLabels[row.idea.status as IdeaStatus] || row.idea.status}
+                      </TableCell>
+                      <TableCell className="text-gray-300 text-sm">{row.tags.join(", ")}</TableCell>
+                      <TableCell className="text-red-300 text-sm">{row.errors.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setStep("map")}
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || validRows.length === 0}
+                className="flex-1 bg-green-600 hover:bg-green-700"
+              >
+                {isImporting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {validRows.length} Ideas
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportIdeasDialog;
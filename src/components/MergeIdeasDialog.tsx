@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { GitMerge, Loader2 } from "lucide-react";
+import { formatPriorityScore } from "@/lib/priorityScoring";
+import type { Idea } from "@/lib/supabase";
+
+interface MergeIdeasDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The flagged idea and the existing idea it was matched against
+  duplicate: Idea | null;
+  original: Idea | null;
+  onMerge: (keepId: number, mergeId: number, content: string | null) => Promise<unknown>;
+  onDismiss: (duplicateId: number) => Promise<unknown>;
+}
+
+const MergeIdeasDialog = ({ open, onOpenChange, duplicate, original, onMerge, onDismiss }: MergeIdeasDialogProps) => {
+  const [textSource, setTextSource] = useState<"original" | "duplicate">("original");
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    setTextSource("original");
+  }, [duplicate?.id]);
+
+  if (!duplicate || !original) {
+    return null;
+  }
+
+  const mergedScore = Math.max(original.priority_score ?? 0, duplicate.priority_score ?? 0);
+  const provenance = [...original.merged_idea_ids, duplicate.id, ...duplicate.merged_idea_ids];
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      // The older idea survives so its drafts and history keep their ids
+      await onMerge(original.id, duplicate.id, textSource === "duplicate" ? duplicate.content : null);
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setIsMerging(true);
+    try {
+      await onDismiss(duplicate.id);
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const renderIdea = (idea: Idea, value: "original" | "duplicate", title: string) => (
+    <div className="bg-white/5 border border-white/20 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-white">{title} #{idea.id}</span>
+        <span className="text-xs text-gray-400">Priority {formatPriorityScore(idea.priority_score)}/10</span>
+      </div>
+      <p className="text-sm text-gray-300 whitespace-pre-wrap">{idea.content || "No content"}</p>
+      <div className="flex items-center gap-2">
+        <RadioGroupItem value={value} id={`merge-text-${value}`} />
+        <Label htmlFor={`merge-text-${value}`} className="text-sm text-gray-300">Keep this text</Label>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-gray-700 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Possible Duplicate</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-300">
+          Idea #{duplicate.id} is {Math.round((duplicate.duplicate_similarity ?? 0) * 100)}% similar to idea #{original.id}.
+        </p>
+        <RadioGroup
+          value={textSource}
+          onValueChange={(value) => setTextSource(value as "original" | "duplicate")}
+          className="grid md:grid-cols-2 gap-3"
+        >
+          {renderIdea(original, "original", "Existing")}
+          {renderIdea(duplicate, "duplicate", "New")}
+        </RadioGroup>
+        <div className="text-sm text-gray-400 space-y-1">
+          <p>Merged idea #{original.id} keeps priority {formatPriorityScore(mergedScore)}/10.</p>
+          <p>Drafts and webhook history of #{duplicate.id} move over; merged from: {provenance.map(id => `#${id}`).join(", ")}.</p>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleDismiss}
+            disabled={isMerging}
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            Not a Duplicate
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={isMerging}
+            className="bg-purple-600 hover:bg-purple-700 text-white"
+          >
+            {isMerging ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <GitMerge className="h-4 w-4 mr-2" />
+            )}
+            Merge Ideas
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeIdeasDialog;
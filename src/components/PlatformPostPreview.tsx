@@ -0,0 +1,281 @@
+import { useState, type ReactNode } from "react";
+import { Bookmark, Globe, Heart, MessageCircle, Repeat2, Send, Share, ThumbsUp } from "lucide-react";
+import { getPlatformRules, segmentThread } from "@/lib/platformRules";
+import {
+  firstUrl,
+  foldText,
+  linkDomain,
+  PREVIEW_WIDTHS,
+  tokenizePostText,
+  type PostTextPart,
+  type PreviewDevice
+} from "@/lib/postPreview";
+
+export interface PreviewAuthor {
+  name: string;
+  handle: string | null;
+  headline: string | null;
+}
+
+interface PlatformPostPreviewProps {
+  platform: string;
+  content: string | null;
+  type: string | null;
+  mediaUrl?: string | null;
+  author: PreviewAuthor;
+  device: PreviewDevice;
+}
+
+interface RendererProps extends Omit<PlatformPostPreviewProps, "platform"> {
+  text: string;
+}
+
+const isVideo = (url: string) => /\.(mp4|mov|webm|m4v)(\?|#|$)/i.test(url);
+
+const Avatar = ({ name, className }: { name: string; className: string }) => (
+  <div className={`rounded-full bg-gray-300 flex items-center justify-center font-semibold text-gray-700 flex-shrink-0 ${className}`}>
+    {name.charAt(0).toUpperCase()}
+  </div>
+);
+
+// Links, hashtags and mentions in the platform's link colour
+const PostText = ({ text, linkClass }: { text: string; linkClass: string }) => (
+  <>
+    {tokenizePostText(text).map((part: PostTextPart, index) => (
+      <span key={index} className={part.type === "text" ? undefined : linkClass}>{part.text}</span>
+    ))}
+  </>
+);
+
+// Text cut at the platform's fold with its own "see more" link
+const FoldedPostText = ({
+  text,
+  platform,
+  device,
+  linkClass,
+  moreLabel,
+  prefix
+}: {
+  text: string;
+  platform: string;
+  device: PreviewDevice;
+  linkClass: string;
+  moreLabel: string;
+  prefix?: ReactNode;
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const folded = foldText(text, platform, device);
+  const shown = expanded || !folded.truncated ? text : folded.visible;
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {prefix}
+      <PostText text={shown} linkClass={linkClass} />
+      {folded.truncated && !expanded && (
+        <button onClick={() => setExpanded(true)} className="text-gray-500 hover:underline">
+          {moreLabel}
+        </button>
+      )}
+    </p>
+  );
+};
+
+const Media = ({ url, className }: { url: string; className: string }) => (
+  isVideo(url) ? (
+    <video src={url} controls muted className={`w-full bg-black ${className}`} />
+  ) : (
+    <img src={url} alt="" className={`w-full object-cover ${className}`} />
+  )
+);
+
+const LinkedInPreview = ({ text, mediaUrl, author, device }: RendererProps) => {
+  const url = firstUrl(text);
+
+  return (
+    <div className="bg-white text-gray-900 rounded-lg border border-gray-200">
+      <div className="flex gap-2 p-3">
+        <Avatar name={author.name} className="h-12 w-12 text-lg" />
+        <div className="min-w-0">
+          <div className="text-sm font-semibold">{author.name}</div>
+          {author.headline && <div className="text-xs text-gray-500 truncate">{author.headline}</div>}
+          <div className="text-xs text-gray-500 flex items-center gap-1">Now · <Globe className="h-3 w-3" /></div>
+        </div>
+      </div>
+      <div className="px-3 pb-2">
+        <FoldedPostText
+          text={text}
+          platform="linkedin"
+          device={device}
+          linkClass="text-[#0a66c2] font-semibold"
+          moreLabel="…see more"
+        />
+      </div>
+      {mediaUrl ? (
+        <Media url={mediaUrl} className="max-h-[420px]" />
+      ) : url && (
+        <div className="border-y border-gray-200 bg-gray-50 px-3 py-2">
+          <div className="text-sm font-semibold truncate">{url}</div>
+          <div className="text-xs text-gray-500">{linkDomain(url)}</div>
+        </div>
+      )}
+      <div className="flex justify-around px-2 py-1 border-t border-gray-200 text-xs font-semibold text-gray-600">
+        <span className="flex items-center gap-1 py-2"><ThumbsUp className="h-4 w-4" />Like</span>
+        <span className="flex items-center gap-1 py-2"><MessageCircle className="h-4 w-4" />Comment</span>
+        <span className="flex items-center gap-1 py-2"><Repeat2 className="h-4 w-4" />Repost</span>
+        <span className="flex items-center gap-1 py-2"><Send className="h-4 w-4" />Send</span>
+      </div>
+    </div>
+  );
+};
+
+const TwitterPreview = ({ text, type, mediaUrl, author }: RendererProps) => {
+  const rules = getPlatformRules("twitter", type);
+  const tweets = rules?.thread ? segmentThread(text, rules) : [text];
+  const handle = author.handle || author.name.toLowerCase().replace(/\s+/g, "");
+
+  return (
+    <div className="bg-white text-gray-900 rounded-lg border border-gray-200">
+      {tweets.map((tweet, index) => {
+        const url = firstUrl(tweet);
+        const isLast = index === tweets.length - 1;
+        return (
+          <div key={index} className="flex gap-3 px-4 pt-3">
+            <div className="flex flex-col items-center">
+              <Avatar name={author.name} className="h-10 w-10" />
+              {!isLast && <div className="w-0.5 flex-1 bg-gray-200 mt-1" />}
+            </div>
+            <div className={`min-w-0 flex-1 ${isLast ? "pb-3" : "pb-4"}`}>
+              <div className="text-sm">
+                <span className="font-bold">{author.name}</span>{" "}
+                <span className="text-gray-500">@{handle} · now</span>
+              </div>
+              <p className="text-[15px] leading-5 whitespace-pre-wrap break-words">
+                <PostText text={tweet} linkClass="text-[#1d9bf0]" />
+              </p>
+              {index === 0 && mediaUrl ? (
+                <Media url={mediaUrl} className="mt-3 rounded-2xl border border-gray-200 max-h-[360px]" />
+              ) : url && (
+                <div className="mt-3 rounded-2xl border border-gray-200 overflow-hidden">
+                  <div className="h-28 bg-gray-100" />
+                  <div className="px-3 py-2 border-t border-gray-200">
+                    <div className="text-xs text-gray-500">{linkDomain(url)}</div>
+                    <div className="text-sm truncate">{url}</div>
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-between max-w-[425px] mt-3 text-gray-500">
+                <MessageCircle className="h-4 w-4" />
+                <Repeat2 className="h-4 w-4" />
+                <Heart className="h-4 w-4" />
+                <Share className="h-4 w-4" />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const InstagramPreview = ({ text, mediaUrl, author, device }: RendererProps) => {
+  const handle = author.handle || author.name.toLowerCase().replace(/\s+/g, "");
+
+  return (
+    <div className="bg-white text-gray-900 rounded-lg border border-gray-200">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <div className="rounded-full p-0.5 bg-gradient-to-tr from-yellow-400 via-pink-500 to-purple-600">
+          <Avatar name={author.name} className="h-8 w-8 border-2 border-white text-sm" />
+        </div>
+        <span className="text-sm font-semibold">{handle}</span>
+      </div>
+      {mediaUrl ? (
+        <Media url={mediaUrl} className="aspect-square" />
+      ) : (
+        <div className="aspect-square bg-gray-100 flex items-center justify-center text-sm text-gray-400">
+          No image or video
+        </div>
+      )}
+      <div className="px-3 py-2 space-y-1">
+        <div className="flex justify-between">
+          <div className="flex gap-4">
+            <Heart className="h-6 w-6" />
+            <MessageCircle className="h-6 w-6" />
+            <Send className="h-6 w-6" />
+          </div>
+          <Bookmark className="h-6 w-6" />
+        </div>
+        <FoldedPostText
+          text={text}
+          platform="instagram"
+          device={device}
+          linkClass="text-[#00376b]"
+          moreLabel="… more"
+          prefix={<span className="font-semibold">{handle} </span>}
+        />
+      </div>
+    </div>
+  );
+};
+
+const FacebookPreview = ({ text, mediaUrl, author, device }: RendererProps) => {
+  const url = firstUrl(text);
+
+  return (
+    <div className="bg-white text-gray-900 rounded-lg border border-gray-200">
+      <div className="flex gap-2 p-3">
+        <Avatar name={author.name} className="h-10 w-10" />
+        <div>
+          <div className="text-sm font-semibold">{author.name}</div>
+          <div className="text-xs text-gray-500 flex items-center gap-1">Just now · <Globe className="h-3 w-3" /></div>
+        </div>
+      </div>
+      <div className="px-3 pb-2">
+        <FoldedPostText
+          text={text}
+          platform="facebook"
+          device={device}
+          linkClass="text-[#1877f2]"
+          moreLabel="… See more"
+        />
+      </div>
+      {mediaUrl ? (
+        <Media url={mediaUrl} className="max-h-[500px]" />
+      ) : url && (
+        <div className="bg-gray-100">
+          <div className="h-40 bg-gray-200" />
+          <div className="px-3 py-2">
+            <div className="text-xs uppercase text-gray-500">{linkDomain(url)}</div>
+            <div className="text-sm font-semibold truncate">{url}</div>
+          </div>
+        </div>
+      )}
+      <div className="flex justify-around mx-3 py-1 border-t border-gray-200 text-sm font-semibold text-gray-600">
+        <span className="flex items-center gap-1 py-2"><ThumbsUp className="h-4 w-4" />Like</span>
+        <span className="flex items-center gap-1 py-2"><MessageCircle className="h-4 w-4" />Comment</span>
+        <span className="flex items-center gap-1 py-2"><Share className="h-4 w-4" />Share</span>
+      </div>
+    </div>
+  );
+};
+
+const renderers: Record<string, (props: RendererProps) => JSX.Element> = {
+  linkedin: LinkedInPreview,
+  twitter: TwitterPreview,
+  instagram: InstagramPreview,
+  facebook: FacebookPreview
+};
+
+// Content as it will look in the platform's feed, at phone or desktop width.
+// Renders nothing for platforms outside `PREVIEW_PLATFORMS`.
+const PlatformPostPreview = ({ platform, device, content, ...props }: PlatformPostPreviewProps) => {
+  const Renderer = renderers[platform.toLowerCase()];
+  if (!Renderer) return null;
+
+  return (
+    <div className="mx-auto max-w-full" style={{ width: PREVIEW_WIDTHS[device] }}>
+      <Renderer {...props} content={content} text={content || ""} device={device} />
+    </div>
+  );
+};
+
+export default PlatformPostPreview;
@@ -0,0 +1,61 @@
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { RuleCheck } from "@/lib/platformRules";
+
+interface PlatformRulesFeedbackProps {
+  check: RuleCheck;
+}
+
+// Live counters and rule issues under a content editor
+const PlatformRulesFeedback = ({ check }: PlatformRulesFeedbackProps) => {
+  const { rules } = check;
+  const overLength = !!rules && !rules.thread && check.length > rules.maxLength;
+  const overHashtags = rules?.maxHashtags !== undefined && check.hashtags > rules.maxHashtags;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap gap-3 text-gray-400">
+        <span className={overLength ? "text-red-400" : ""}>
+          {check.length.toLocaleString()}
+          {rules && !rules.thread && ` / ${rules.maxLength.toLocaleString()}`} characters
+        </span>
+        <span className={overHashtags ? "text-red-400" : ""}>
+          {check.hashtags}
+          {rules?.maxHashtags !== undefined && ` / ${rules.maxHashtags}`} hashtags
+        </span>
+        {check.links > 0 && <span>{check.links} {check.links === 1 ? "link" : "links"}</span>}
+        {rules?.requiresMedia && <span>Media required</span>}
+        {!rules && <span>No platform rules apply</span>}
+      </div>
+
+      {check.issues.length > 0 && (
+        <ul className="space-y-1">
+          {check.issues.map((issue) => (
+            <li
+              key={issue.message}
+              className={`flex items-start gap-1 ${issue.severity === "error" ? "text-red-400" : "text-amber-300"}`}
+            >
+              {issue.severity === "error" ? (
+                <XCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              )}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {check.segments.length > 1 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {check.segments.map((segment, index) => (
+            <div key={index} className="bg-white/5 border border-white/10 rounded p-2 text-gray-300 whitespace-pre-wrap">
+              {segment}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlatformRulesFeedback;
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, RefreshCw } from "lucide-react";
+import {
+  fetchScoringContext,
+  formatPriorityScore,
+  scoreIdea,
+  type PriorityBreakdown as Breakdown,
+  type PriorityWeights
+} from "@/lib/priorityScoring";
+import type { Idea } from "@/lib/supabase";
+
+interface PriorityBreakdownProps {
+  idea: Idea;
+  onRecompute: () => Promise<void>;
+}
+
+const signalRows: { key: keyof Breakdown["signals"]; weight: keyof PriorityWeights; label: string; description: string }[] = [
+  { key: "engagement", weight: "engagement", label: "Engagement", description: "How often similar content went on to be published" },
+  { key: "relevance", weight: "relevance", label: "Relevance", description: "Share of the leader's domain keywords in the idea" },
+  { key: "recency", weight: "recency", label: "Recency", description: "Halves every week since the idea was added, whenever its source was published" }
+];
+
+const PriorityBreakdown = ({ idea, onRecompute }: PriorityBreakdownProps) => {
+  const [breakdown, setBreakdown] = useState<Breakdown | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+
+  const loadBreakdown = async () => {
+    setLoading(true);
+    try {
+      setBreakdown(scoreIdea(idea, await fetchScoringContext()));
+    } catch (error) {
+      console.error("Error computing priority breakdown:", error);
+      setBreakdown(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBreakdown();
+  }, [idea.id]);
+
+  const handleRecompute = async () => {
+    setIsRecomputing(true);
+    try {
+      await onRecompute();
+      await loadBreakdown();
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <Label className="text-white">Priority Score</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleRecompute}
+          disabled={isRecomputing}
+          className="text-gray-300 hover:text-white hover:bg-white/10"
+          title="Recompute score"
+        >
+          {isRecomputing ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+        </Button>
+      </div>
+      <p className="text-gray-300">{formatPriorityScore(idea.priority_score)}/10</p>
+      {loading ? (
+        <div className="flex items-center text-gray-300 text-sm mt-2">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Computing breakdown...
+        </div>
+      ) : breakdown && (
+        <div className="mt-2 space-y-2">
+          {signalRows.map((row) => (
+            <div key={row.key} className="text-sm">
+              <div className="flex justify-between text-gray-300">
+                <span title={row.description}>{row.label}</span>
+                <span className="text-xs text-gray-400">
+                  signal {(breakdown.signals[row.key] * 100).toFixed(0)}% · weight {(breakdown.weights[row.weight] * 100).toFixed(0)}% · +{formatPriorityScore(breakdown.contributions[row.key])}
+                </span>
+              </div>
+              <Progress value={breakdown.signals[row.key] * 100} className="h-1.5 mt-1" />
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">
+            Current score with today's signals: {formatPriorityScore(breakdown.score)}/10
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriorityBreakdown;
@@ -0,0 +1,61 @@
+import { Badge } from "@/components/ui/badge";
+import { FlaskConical } from "lucide-react";
+
+interface SandboxPostPreviewProps {
+  platform: string;
+  content: string | null;
+  authorName?: string | null;
+  externalPostId?: string | null;
+  permalink?: string | null;
+}
+
+const platformStyles: Record<string, { label: string; accent: string; action: string }> = {
+  linkedin: { label: "LinkedIn", accent: "bg-[#0a66c2]", action: "Like · Comment · Repost · Send" },
+  twitter: { label: "Twitter", accent: "bg-black", action: "Reply · Repost · Like · Share" },
+  instagram: { label: "Instagram", accent: "bg-gradient-to-r from-pink-500 to-orange-400", action: "Like · Comment · Share · Save" },
+  tiktok: { label: "TikTok", accent: "bg-black", action: "Like · Comment · Share" },
+  facebook: { label: "Facebook", accent: "bg-[#1877f2]", action: "Like · Comment · Share" },
+  youtube: { label: "YouTube", accent: "bg-[#ff0000]", action: "Like · Dislike · Share" }
+};
+
+// Renders a simulated post roughly the way the platform would show it. Only
+// used for sandbox publications, so it is always labelled as such.
+const SandboxPostPreview = ({ platform, content, authorName, externalPostId, permalink }: SandboxPostPreviewProps) => {
+  const style = platformStyles[platform] || { label: platform, accent: "bg-gray-600", action: "" };
+  const name = authorName || "Leader";
+
+  return (
+    <div className="rounded-lg overflow-hidden border border-white/20 bg-white text-gray-900">
+      <div className={`${style.accent} px-3 py-1.5 flex items-center justify-between text-white text-xs font-medium`}>
+        <span>{style.label}</span>
+        <Badge className="bg-white/20 text-white hover:bg-white/20">
+          <FlaskConical className="h-3 w-3 mr-1" />
+          Sandbox
+        </Badge>
+      </div>
+      <div className="p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <div className="h-9 w-9 rounded-full bg-gray-300 flex items-center justify-center font-semibold text-gray-700">
+            {name.charAt(0).toUpperCase()}
+          </div>
+          <div>
+            <div className="text-sm font-semibold">{name}</div>
+            <div className="text-xs text-gray-500">Just now</div>
+          </div>
+        </div>
+        <p className="text-sm whitespace-pre-wrap">{content || "No content"}</p>
+        {style.action && (
+          <div className="pt-2 border-t border-gray-200 text-xs text-gray-500">{style.action}</div>
+        )}
+      </div>
+      {(externalPostId || permalink) && (
+        <div className="px-3 py-2 bg-gray-100 text-xs text-gray-500 font-mono space-y-0.5 break-all">
+          {externalPostId && <div>Post ID: {externalPostId}</div>}
+          {permalink && <div>Permalink: {permalink}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SandboxPostPreview;
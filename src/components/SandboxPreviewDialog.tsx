@@ -0,0 +1,50 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import SandboxPostPreview from "@/components/SandboxPostPreview";
+import { useUsers } from "@/hooks/useUsers";
+import type { Content } from "@/hooks/useContents";
+import type { PublishResult } from "@/lib/publishers";
+
+interface SandboxPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  results: PublishResult[];
+  contents: Content[];
+}
+
+const SandboxPreviewDialog = ({ open, onOpenChange, results, contents }: SandboxPreviewDialogProps) => {
+  const { users } = useUsers();
+
+  const getAuthorName = (userId: number | null) => {
+    return users.find(user => user.id === userId)?.name;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border-white/20 text-white max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sandbox Preview</DialogTitle>
+        </DialogHeader>
+        <p className="text-gray-300 text-sm">
+          Sandbox mode is on, so nothing was posted. This is how the content would appear.
+        </p>
+        <div className="space-y-4">
+          {results.map((result) => {
+            const content = contents.find(item => item.id === result.contentId);
+            return (
+              <SandboxPostPreview
+                key={`${result.contentId}-${result.platform}`}
+                platform={result.platform}
+                content={content?.content ?? null}
+                authorName={getAuthorName(content?.user_id ?? null)}
+                externalPostId={result.externalPostId}
+                permalink={result.permalink}
+              />
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SandboxPreviewDialog;
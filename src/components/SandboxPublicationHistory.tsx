@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Eye, EyeOff, Loader2, RefreshCw } from "lucide-react";
+import SandboxPostPreview from "@/components/SandboxPostPreview";
+import { useSandboxPublications } from "@/hooks/useSandboxPublications";
+
+interface SandboxPublicationHistoryProps {
+  contentId: number;
+  authorName?: string | null;
+}
+
+const SandboxPublicationHistory = ({ contentId, authorName }: SandboxPublicationHistoryProps) => {
+  const { publications, loading, fetchPublications } = useSandboxPublications(contentId);
+  const [previewId, setPreviewId] = useState<number | null>(null);
+
+  // Only shown once the content has been through sandbox publishing
+  if (!loading && publications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <Label className="text-white">Sandbox Publications</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchPublications}
+          className="text-gray-300 hover:text-white hover:bg-white/10"
+        >
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+      {loading ? (
+        <div className="flex items-center text-gray-300 text-sm">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading sandbox publications...
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {publications.map((publication) => (
+            <div key={publication.id} className="bg-white/5 border border-white/20 rounded-lg p-2 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge className="bg-amber-500/20 text-amber-300">sandbox</Badge>
+                  <span className="text-gray-300 capitalize">{publication.platform}</span>
+                  <span className="text-xs text-gray-400">{new Date(publication.created_at).toLocaleString()}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPreviewId(previewId === publication.id ? null : publication.id)}
+                  className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/20"
+                  title={previewId === publication.id ? "Hide preview" : "Show preview"}
+                >
+                  {previewId === publication.id ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+              </div>
+              <div className="text-xs text-gray-400 font-mono break-all">{publication.permalink}</div>
+              {previewId === publication.id && (
+                <SandboxPostPreview
+                  platform={publication.platform}
+                  content={publication.content_snapshot}
+                  authorName={authorName}
+                  externalPostId={publication.external_post_id}
+                  permalink={publication.permalink}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SandboxPublicationHistory;
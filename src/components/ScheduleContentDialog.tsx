@@ -12,12 +12,14 @@ import { Calendar as CalendarIcon, Clock, Loader2, Check, AlertCircle } from "lu
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { getContentStatusLabel, isPublishable } from "@/lib/contentReview";
 
 interface Content {
   id: number
   content: string | null
   platform: string | null
   type: string | null
+  status: string | null
 }
 
 interface ScheduleContentDialogProps {
@@ -94,6 +96,17 @@ const ScheduleContentDialog = ({ isOpen, onClose, selectedContent }: ScheduleCon
       return
     }
 
+    // Only approved content can be scheduled
+    const unapproved = selectedContent.filter(content => !isPublishable(content.status))
+    if (unapproved.length > 0) {
+      toast({
+        title: "Approval Required",
+        description: `Content ${unapproved.map(content => `#${content.id}`).join(', ')} must be approved before it can be scheduled`,
+        variant: "destructive"
+      })
+      return
+    }
+
     if (!currentUser) {
       toast({
         title: "Error",
@@ -213,6 +226,11 @@ const ScheduleContentDialog = ({ isOpen, onClose, selectedContent }: ScheduleCon
                           <div className="text-gray-400 text-xs">
                             Platform: {content.platform || 'Not set'} • Type: {content.type || 'Not set'}
                           </div>
+                          {!isPublishable(content.status) && (
+                            <div className="text-red-400 text-xs">
+                              {getContentStatusLabel(content.status)} - needs approval before it can be scheduled
+                            </div>
+                          )}
                         </div>
                       </TableCell>
 
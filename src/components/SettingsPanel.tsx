@@ -0,0 +1,15 @@
+import SandboxModeSection from "./settings/SandboxModeSection";
+import PriorityScoringSection from "./settings/PriorityScoringSection";
+import WebhookEndpointsSection from "./settings/WebhookEndpointsSection";
+
+const SettingsPanel = () => {
+  return (
+    <div className="space-y-6">
+      <SandboxModeSection />
+      <PriorityScoringSection />
+      <WebhookEndpointsSection />
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,101 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { useWebhookDeliveries } from "@/hooks/useWebhookDeliveries";
+
+interface WebhookDeliveryHistoryProps {
+  ideaId?: number;
+  contentId?: number;
+}
+
+const getStatusBadgeClass = (status: string) => {
+  switch (status) {
+    case "succeeded": return "bg-green-500/20 text-green-300";
+    case "retrying": return "bg-yellow-500/20 text-yellow-300";
+    case "failed": return "bg-red-500/20 text-red-300";
+    default: return "bg-gray-500/20 text-gray-300";
+  }
+};
+
+const formatDateTime = (dateString: string | null) => {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleString();
+};
+
+const WebhookDeliveryHistory = ({ ideaId, contentId }: WebhookDeliveryHistoryProps) => {
+  const { deliveries, loading, fetchDeliveries, retryDelivery } = useWebhookDeliveries({ ideaId, contentId });
+
+  const handleRetry = async (id: number) => {
+    try {
+      await retryDelivery(id);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <Label className="text-white">Webhook Deliveries</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchDeliveries}
+          className="text-gray-300 hover:text-white hover:bg-white/10"
+        >
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+      {loading ? (
+        <div className="flex items-center text-gray-300 text-sm">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading delivery history...
+        </div>
+      ) : deliveries.length === 0 ? (
+        <p className="text-gray-400 text-sm">No webhook calls recorded yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="bg-white/5 border border-white/20 rounded-lg p-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge className={getStatusBadgeClass(delivery.status)}>{delivery.status}</Badge>
+                  <span className="text-gray-300 capitalize">
+                    {delivery.purpose.replace("_", " ")}{delivery.platform ? ` · ${delivery.platform}` : ""}
+                  </span>
+                </div>
+                {delivery.status !== "succeeded" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRetry(delivery.id)}
+                    className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/20"
+                    title="Retry now"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              <div className="text-xs text-gray-400 mt-1 space-y-0.5">
+                <div>
+                  Attempts: {delivery.attempt_count}/{delivery.max_attempts}
+                  {delivery.response_code !== null && ` · HTTP ${delivery.response_code}`}
+                  {` · Last attempt: ${formatDateTime(delivery.last_attempt_at)}`}
+                </div>
+                {delivery.status === "retrying" && (
+                  <div>Next retry: {formatDateTime(delivery.next_retry_at)}</div>
+                )}
+                {delivery.last_error && (
+                  <div className="text-red-300">{delivery.last_error}</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookDeliveryHistory;
@@ -9,8 +9,24 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useContents } from "@/hooks/useContents";
-import { Loader2, Plus, RefreshCw, Trash2, Eye, ExternalLink, Edit, Save, Send, Calendar } from "lucide-react";
+import { useGenerationEvents } from "@/hooks/useGenerationEvents";
+import { useWorkspaceSettings } from "@/hooks/useWorkspaceSettings";
+import { useUsers } from "@/hooks/useUsers";
+import { useCommentCounts } from "@/hooks/useCommentCounts";
+import { hasPublisher, type PublishResult } from "@/lib/publishers";
+import { Loader2, Plus, RefreshCw, Trash2, Eye, ExternalLink, Edit, Save, Send, Calendar, FlaskConical, History, Smartphone, Monitor, ClipboardCheck, Inbox, MessageSquare } from "lucide-react";
 import ScheduleContentDialog from "@/components/ScheduleContentDialog";
+import WebhookDeliveryHistory from "@/components/WebhookDeliveryHistory";
+import SandboxPreviewDialog from "@/components/SandboxPreviewDialog";
+import SandboxPublicationHistory from "@/components/SandboxPublicationHistory";
+import ContentHistoryDialog from "@/components/ContentHistoryDialog";
+import ContentReviewDialog from "@/components/ContentReviewDialog";
+import ContentCommentsDialog from "@/components/ContentCommentsDialog";
+import PlatformRulesFeedback from "@/components/PlatformRulesFeedback";
+import PlatformPostPreview, { type PreviewAuthor } from "@/components/PlatformPostPreview";
+import { checkPlatformRules, describeRuleErrors } from "@/lib/platformRules";
+import { handleFromProfileUrl, hasPostPreview, type PreviewDevice } from "@/lib/postPreview";
+import { getContentStatusLabel, isPublishable, needsReviewBy, type ReviewDecision } from "@/lib/contentReview";
 
 const ContentTab = () => {
   const { toast } = useToast();
@@ -22,8 +38,18 @@ const ContentTab = () => {
     publishContent, 
     generateMoreContent,
     updateContent,
-    fetchContents 
+    restoreRevision,
+    submitForReview,
+    reviewContent,
+    fetchContents,
+    getContentPublications
   } = useContents();
+  const { newContentIds } = useGenerationEvents();
+  const { sandboxMode } = useWorkspaceSettings();
+  const { users, currentUser } = useUsers();
+  const { getCommentCounts } = useCommentCounts();
+  // Reviews and comments are recorded under this user, so they need one
+  const currentUserId = currentUser?.id ?? null;
 
   const [selectedContent, setSelectedContent] = useState<number[]>([]);
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>([]);
@@ -33,20 +59,28 @@ const ContentTab = () => {
   const [isScheduleDialogOpen, setIsScheduleDialogOpen] = useState(false);
   const [viewingContent, setViewingContent] = useState<any>(null);
   const [editingContent, setEditingContent] = useState<any>(null);
+  const [historyContentId, setHistoryContentId] = useState<number | null>(null);
+  const [reviewContentId, setReviewContentId] = useState<number | null>(null);
+  const [commentsContentId, setCommentsContentId] = useState<number | null>(null);
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [previewDevice, setPreviewDevice] = useState<PreviewDevice>("desktop");
   const [editContentText, setEditContentText] = useState("");
   const [editContentTitle, setEditContentTitle] = useState("");
   const [editContentDescription, setEditContentDescription] = useState("");
+  const [editMediaUrl, setEditMediaUrl] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
+  const [sandboxResults, setSandboxResults] = useState<PublishResult[]>([]);
 
   // Form state for creating new content
   const [newContent, setNewContent] = useState({
     content: "",
     platform: "",
     type: "",
-    status: "draft"
+    status: "draft",
+    media_url: ""
   });
 
   const socialMediaPlatforms = [
@@ -62,6 +96,7 @@ const ContentTab = () => {
     { value: "article", label: "Article" },
     { value: "post", label: "Post" },
     { value: "tweet", label: "Tweet" },
+    { value: "thread", label: "Thread" },
     { value: "image", label: "Image" },
     { value: "video", label: "Video" },
     { value: "story", label: "Story" }
@@ -78,7 +113,9 @@ const ContentTab = () => {
   const handleGenerateMore = async () => {
     setIsGenerating(true);
     try {
-      await generateMoreContent();
+      await generateMoreContent(1); // Using demo user ID - replace with actual user when auth is implemented
+    } catch (error) {
+      // Error handling is done in the hook
     } finally {
       setIsGenerating(false);
     }
@@ -113,53 +150,8 @@ const ContentTab = () => {
 
     setIsPublishing(true);
     try {
-      // Call LinkedIn webhook for selected content if LinkedIn is in selected platforms
-      if (selectedPlatforms.includes('linkedin')) {
-        const linkedinWebhookUrl = "https://hook.eu2.make.com/xaikyfjrn4tbhuut7klil7e3f2slqt8w";
-        
-        for (const contentId of selectedContent) {
-          try {
-            await fetch(linkedinWebhookUrl, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              mode: "no-cors",
-              body: JSON.stringify({
-                content_id: contentId
-              }),
-            });
-            console.log(`LinkedIn webhook called for content ID: ${contentId}`);
-          } catch (error) {
-            console.error(`Error calling LinkedIn webhook for content ${contentId}:`, error);
-          }
-        }
-      }
-
-      // Call Facebook webhook for selected content if Facebook is in selected platforms
-      if (selectedPlatforms.includes('facebook')) {
-        const facebookWebhookUrl = "https://hook.eu2.make.com/2fx3hwsl626vxuefc6g8jkbnwqn6wvje";
-        
-        for (const contentId of selectedContent) {
-          try {
-            await fetch(facebookWebhookUrl, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              mode: "no-cors",
-              body: JSON.stringify({
-                content_id: contentId
-              }),
-            });
-            console.log(`Facebook webhook called for content ID: ${contentId}`);
-          } catch (error) {
-            console.error(`Error calling Facebook webhook for content ${contentId}:`, error);
-          }
-        }
-      }
-
-      await publishContent(selectedContent, selectedPlatforms);
+      const results = await publishContent(selectedContent, selectedPlatforms);
+      showSandboxPreview(results);
       setSelectedContent([]);
       setSelectedPlatforms([]);
     } catch (error) {
@@ -187,6 +179,7 @@ const ContentTab = () => {
         platform: newContent.platform,
         type: newContent.type,
         status: newContent.status,
+        media_url: newContent.media_url.trim() || null,
         user_id: 1 // Using demo user ID
       });
 
@@ -194,7 +187,8 @@ const ContentTab = () => {
         content: "",
         platform: "",
         type: "",
-        status: "draft"
+        status: "draft",
+        media_url: ""
       });
       setIsCreateDialogOpen(false);
     } catch (error) {
@@ -231,20 +225,12 @@ const ContentTab = () => {
       setEditContentTitle("");
       setEditContentDescription(contentText);
     }
+    setEditMediaUrl(content.media_url || "");
     setIsEditDialogOpen(true);
   };
 
-  const handleUpdateContent = async () => {
-    if (!editingContent) {
-      toast({
-        title: "Error",
-        description: "No content selected for editing",
-        variant: "destructive"
-      });
-      return;
-    }
-
-    // Combine title and description into content
+  // Combine title and description into content
+  const getEditedContent = () => {
     let combinedContent = "";
     if (editContentTitle.trim()) {
       combinedContent = editContentTitle.trim();
@@ -256,6 +242,20 @@ const ContentTab = () => {
     } else if (editContentText.trim()) {
       combinedContent = editContentText.trim();
     }
+    return combinedContent;
+  };
+
+  const handleUpdateContent = async () => {
+    if (!editingContent) {
+      toast({
+        title: "Error",
+        description: "No content selected for editing",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const combinedContent = getEditedContent();
 
     if (!combinedContent) {
       toast({
@@ -270,7 +270,9 @@ const ContentTab = () => {
     
     try {
       await updateContent(editingContent.id, {
-        content: combinedContent
+        content: combinedContent,
+        media_url: editMediaUrl.trim() || null,
+        edited_by: 1 // Using demo user ID - replace with actual user when auth is implemented
       });
 
       setEditContentText("");
@@ -285,53 +287,83 @@ const ContentTab = () => {
     }
   };
 
+  // Open dialogs follow the restored text
+  const handleRestoreRevision = async (revisionId: number) => {
+    const restored = await restoreRevision(revisionId, currentUserId);
+    if (editingContent?.id === restored.id) {
+      handleEditContent(restored);
+    }
+    if (viewingContent?.id === restored.id) {
+      setViewingContent(restored);
+    }
+  };
+
+  // The view dialog follows the new status
+  const handleSubmitForReview = async (reviewerId: number, comment: string) => {
+    if (reviewContentId === null || currentUserId === null) return;
+    const updated = await submitForReview(reviewContentId, reviewerId, currentUserId, comment);
+    if (viewingContent?.id === updated.id) {
+      setViewingContent(updated);
+    }
+  };
+
+  const handleReviewContent = async (decision: ReviewDecision, comment: string) => {
+    if (reviewContentId === null || currentUserId === null) return;
+    const updated = await reviewContent(reviewContentId, currentUserId, decision, comment);
+    if (viewingContent?.id === updated.id) {
+      setViewingContent(updated);
+    }
+  };
+
+  // Approval covers the reviewed text, so changed content cannot go straight out
+  const editChangesApprovedContent = !!editingContent && (
+    getEditedContent() !== (editingContent.content || "").trim() ||
+    (editMediaUrl.trim() || null) !== (editingContent.media_url || null)
+  );
+
+  const reviewQueue = contents.filter(content => needsReviewBy(content, currentUserId));
+  const visibleContents = showReviewQueue ? reviewQueue : contents;
+  const unapprovedSelected = contents.filter(content => selectedContent.includes(content.id) && !isPublishable(content.status));
+
+  const newContentCheck = checkPlatformRules(newContent, newContent.platform);
+  const editContentCheck = editingContent
+    ? checkPlatformRules({ content: getEditedContent(), type: editingContent.type, media_url: editMediaUrl }, editingContent.platform)
+    : null;
+
+  // In sandbox mode every platform can be "published" to
+  const canPublish = (platform: string | null) => {
+    return sandboxMode || hasPublisher(platform);
+  };
+
+  const showSandboxPreview = (results: PublishResult[]) => {
+    const simulated = results.filter(result => result.sandbox && result.success);
+    if (simulated.length > 0) {
+      setSandboxResults(simulated);
+    }
+  };
+
+  const getAuthorName = (userId: number | null) => {
+    return users.find(user => user.id === userId)?.name;
+  };
+
+  // Name, handle and headline as the platform would show them
+  const getPreviewAuthor = (userId: number | null, platform: string): PreviewAuthor => {
+    const user = users.find(item => item.id === userId);
+    const profileUrl = platform === "twitter" ? user?.twitter_url : platform === "instagram" ? user?.instagram_url : null;
+    return {
+      name: user?.name || "Leader",
+      handle: handleFromProfileUrl(profileUrl),
+      headline: user?.domain || null
+    };
+  };
+
   const handlePublishSingle = async (contentId: number, platform: string) => {
     setIsPublishing(true);
     try {
-      // Call appropriate webhook based on platform
-      if (platform === 'linkedin') {
-        const linkedinWebhookUrl = "https://hook.eu2.make.com/xaikyfjrn4tbhuut7klil7e3f2slqt8w";
-        
-        await fetch(linkedinWebhookUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          mode: "no-cors",
-          body: JSON.stringify({
-            content_id: contentId
-          }),
-        });
-        console.log(`LinkedIn webhook called for content ID: ${contentId}`);
-      } else if (platform === 'facebook') {
-        const facebookWebhookUrl = "https://hook.eu2.make.com/2fx3hwsl626vxuefc6g8jkbnwqn6wvje";
-        
-        await fetch(facebookWebhookUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          mode: "no-cors",
-          body: JSON.stringify({
-            content_id: contentId
-          }),
-        });
-        console.log(`Facebook webhook called for content ID: ${contentId}`);
-      }
-
-      await publishContent([contentId], [platform]);
-      
-      toast({
-        title: "Success",
-        description: `Content published to ${platform}`
-      });
+      const results = await publishContent([contentId], [platform]);
+      showSandboxPreview(results);
     } catch (error) {
-      console.error(`Error publishing to ${platform}:`, error);
-      toast({
-        title: "Error",
-        description: `Failed to publish to ${platform}`,
-        variant: "destructive"
-      });
+      // Error handling is done in the hook
     } finally {
       setIsPublishing(false);
     }
@@ -356,12 +388,44 @@ const ContentTab = () => {
   const getStatusColor = (status: string | null) => {
     switch (status) {
       case "published": return "bg-green-500/20 text-green-300";
-      case "ready": return "bg-blue-500/20 text-blue-300";
+      case "approved": return "bg-blue-500/20 text-blue-300";
+      case "in_review": return "bg-purple-500/20 text-purple-300";
+      case "changes_requested": return "bg-orange-500/20 text-orange-300";
       case "draft": return "bg-yellow-500/20 text-yellow-300";
       default: return "bg-gray-500/20 text-gray-300";
     }
   };
 
+  // Open threads out of all comments; highlighted while threads are open
+  const renderCommentsButton = (contentId: number) => {
+    const counts = getCommentCounts(contentId);
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setCommentsContentId(contentId)}
+        disabled={currentUserId === null}
+        className={counts.open_thread_count > 0
+          ? "text-amber-300 hover:text-amber-200 hover:bg-amber-500/20"
+          : "text-gray-300 hover:text-white hover:bg-white/10"}
+        title={`${counts.comment_count} comments, ${counts.open_thread_count} open threads`}
+      >
+        <MessageSquare className="h-4 w-4" />
+        {counts.comment_count > 0 && (
+          <span className="ml-1 text-xs">{counts.open_thread_count}/{counts.comment_count}</span>
+        )}
+      </Button>
+    );
+  };
+
+  const getPublicationColor = (state: string) => {
+    switch (state) {
+      case "published": return "bg-green-500/20 text-green-300";
+      case "failed": return "bg-red-500/20 text-red-300";
+      default: return "bg-gray-500/20 text-gray-300";
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
@@ -392,6 +456,12 @@ const ContentTab = () => {
       <CardHeader>
         <CardTitle className="text-white">Generated Content</CardTitle>
         <p className="text-gray-300">Manage and publish your content</p>
+        {sandboxMode && (
+          <div className="flex items-center gap-2 p-2 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm">
+            <FlaskConical className="h-4 w-4" />
+            Sandbox mode is on - publishing is simulated and nothing is posted.
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         <div className="mb-6 space-y-4">
@@ -432,6 +502,11 @@ const ContentTab = () => {
                       onChange={(e) => setNewContent(prev => ({ ...prev, content: e.target.value }))}
                       className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 min-h-[100px]"
                     />
+                    {newContent.platform && (
+                      <div className="mt-2">
+                        <PlatformRulesFeedback check={newContentCheck} />
+                      </div>
+                    )}
                   </div>
                   
                   <div className="grid grid-cols-2 gap-4">
@@ -468,6 +543,18 @@ const ContentTab = () => {
                     </div>
                   </div>
 
+                  <div>
+                    <Label htmlFor="media-url" className="text-white">Image or Video URL</Label>
+                    <Input
+                      id="media-url"
+                      type="url"
+                      placeholder="https://..."
+                      value={newContent.media_url}
+                      onChange={(e) => setNewContent(prev => ({ ...prev, media_url: e.target.value }))}
+                      className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                    />
+                  </div>
+
                   <Button 
                     onClick={handleCreateContent}
                     disabled={isCreating}
@@ -495,6 +582,17 @@ const ContentTab = () => {
               Refresh
             </Button>
 
+            <Button
+              onClick={() => setShowReviewQueue(prev => !prev)}
+              variant="outline"
+              className={showReviewQueue
+                ? "bg-purple-500/30 border-purple-400/50 text-white hover:bg-purple-500/40"
+                : "bg-white/10 border-white/20 text-white hover:bg-white/20"}
+            >
+              <Inbox className="h-4 w-4 mr-2" />
+              Needs My Review ({reviewQueue.length})
+            </Button>
+
             {/* Schedule Content Button - Only show when content is selected */}
             {selectedContent.length > 0 && (
               <Button 
@@ -511,6 +609,11 @@ const ContentTab = () => {
           {selectedContent.length > 0 && (
             <div className="p-4 bg-white/5 border border-white/20 rounded-lg space-y-3">
               <h3 className="text-white font-medium">Publish Selected Content ({selectedContent.length})</h3>
+              {unapprovedSelected.length > 0 && (
+                <p className="text-sm text-amber-300">
+                  {unapprovedSelected.length} of the selected items {unapprovedSelected.length === 1 ? "is" : "are"} not approved and will not be published or scheduled.
+                </p>
+              )}
               
               <div className="space-y-2">
                 <label className="text-sm text-gray-300">Select platforms to publish to:</label>
@@ -526,7 +629,7 @@ const ContentTab = () => {
                       }`}
                     >
                       {platform.label}
-                      {(platform.value === 'linkedin' || platform.value === 'facebook') && selectedPlatforms.includes(platform.value) && ' 🔗'}
+                      {canPublish(platform.value) && selectedPlatforms.includes(platform.value) && ' 🔗'}
                     </button>
                   ))}
                 </div>
@@ -554,6 +657,10 @@ const ContentTab = () => {
           <div className="text-center py-8">
             <p className="text-gray-300 mb-4">No content found. Generate or create your first content piece!</p>
           </div>
+        ) : visibleContents.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-300 mb-4">Nothing is waiting for your review.</p>
+          </div>
         ) : (
           <Table>
             <TableHeader>
@@ -569,7 +676,7 @@ const ContentTab = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {contents.map((item) => (
+              {visibleContents.map((item) => (
                 <TableRow key={item.id} className="border-white/10">
                   <TableCell>
                     <input
@@ -594,8 +701,41 @@ const ContentTab = () => {
                   <TableCell className="text-gray-300">{capitalizeFirst(item.platform)}</TableCell>
                   <TableCell>
                     <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(item.status)}`}>
-                      {capitalizeFirst(item.status) || 'Draft'}
+                      {getContentStatusLabel(item.status)}
                     </span>
+                    {newContentIds.includes(item.id) && (
+                      <span className="ml-2 px-2 py-1 rounded-full text-xs bg-emerald-500/20 text-emerald-300">
+                        New
+                      </span>
+                    )}
+                    {item.status === "in_review" && item.reviewer_id && (
+                      <div className="mt-1 text-xs text-gray-400">
+                        Reviewer: {getAuthorName(item.reviewer_id) || `User #${item.reviewer_id}`}
+                      </div>
+                    )}
+                    {!checkPlatformRules(item, item.platform).passed && (
+                      <div className="mt-1">
+                        <span
+                          className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-300"
+                          title={describeRuleErrors(checkPlatformRules(item, item.platform))}
+                        >
+                          Fails platform rules
+                        </span>
+                      </div>
+                    )}
+                    {getContentPublications(item.id).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {getContentPublications(item.id).map((publication) => (
+                          <span
+                            key={publication.id}
+                            className={`px-2 py-0.5 rounded-full text-xs ${getPublicationColor(publication.state)}`}
+                            title={publication.error || publication.permalink || publication.state}
+                          >
+                            {capitalizeFirst(publication.platform)}: {publication.state}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-gray-300">{formatDate(item.created_at)}</TableCell>
                   <TableCell>
@@ -616,14 +756,36 @@ const ContentTab = () => {
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
-                      {item.platform && (item.platform === 'linkedin' || item.platform === 'facebook') && (
+                      {renderCommentsButton(item.id)}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReviewContentId(item.id)}
+                        disabled={currentUserId === null}
+                        className={needsReviewBy(item, currentUserId)
+                          ? "text-purple-300 hover:text-purple-200 hover:bg-purple-500/20"
+                          : "text-gray-300 hover:text-white hover:bg-white/10"}
+                        title={currentUserId === null ? "No user logged in" : needsReviewBy(item, currentUserId) ? "Review" : "Review and approval"}
+                      >
+                        <ClipboardCheck className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryContentId(item.id)}
+                        className="text-gray-300 hover:text-white hover:bg-white/10"
+                        title="Revision history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {canPublish(item.platform) && (
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => handlePublishSingle(item.id, item.platform!)}
-                          disabled={isPublishing}
+                          disabled={isPublishing || !isPublishable(item.status) || !checkPlatformRules(item, item.platform).passed}
                           className="text-green-400 hover:text-green-300 hover:bg-green-500/20"
-                          title={`Publish to ${capitalizeFirst(item.platform)}`}
+                          title={isPublishable(item.status) ? `Publish to ${capitalizeFirst(item.platform)}` : "Needs approval before publishing"}
                         >
                           <Send className="h-4 w-4" />
                         </Button>
@@ -665,9 +827,17 @@ const ContentTab = () => {
           selectedContent={getSelectedContentItems()}
         />
 
+        {/* Sandbox Preview Dialog */}
+        <SandboxPreviewDialog
+          open={sandboxResults.length > 0}
+          onOpenChange={(open) => !open && setSandboxResults([])}
+          results={sandboxResults}
+          contents={contents}
+        />
+
         {/* View Content Dialog */}
         <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
-          <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl">
+          <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="text-white">View Content</DialogTitle>
             </DialogHeader>
@@ -688,15 +858,65 @@ const ContentTab = () => {
                 <div>
                   <Label className="text-white">Status</Label>
                   <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(viewingContent.status)}`}>
-                    {capitalizeFirst(viewingContent.status) || 'Draft'}
+                    {getContentStatusLabel(viewingContent.status)}
                   </span>
                 </div>
+                {hasPostPreview(viewingContent.platform) && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <Label className="text-white">Preview</Label>
+                      <div className="flex rounded-md border border-white/20 overflow-hidden">
+                        {([["mobile", Smartphone, "Mobile"], ["desktop", Monitor, "Desktop"]] as const).map(([device, Icon, label]) => (
+                          <button
+                            key={device}
+                            onClick={() => setPreviewDevice(device)}
+                            className={`flex items-center px-2 py-1 text-xs transition-all ${
+                              previewDevice === device
+                                ? "bg-gradient-to-r from-purple-600 to-blue-600 text-white"
+                                : "bg-white/10 text-gray-300 hover:bg-white/20"
+                            }`}
+                          >
+                            <Icon className="h-3 w-3 mr-1" />
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="bg-gray-100 rounded-lg p-3">
+                      <PlatformPostPreview
+                        key={`${viewingContent.id}-${previewDevice}`}
+                        platform={viewingContent.platform}
+                        content={viewingContent.content}
+                        type={viewingContent.type}
+                        mediaUrl={viewingContent.media_url}
+                        author={getPreviewAuthor(viewingContent.user_id, viewingContent.platform.toLowerCase())}
+                        device={previewDevice}
+                      />
+                    </div>
+                  </div>
+                )}
                 <div>
                   <Label className="text-white">Content</Label>
                   <div className="bg-white/5 border border-white/20 rounded-lg p-3 text-gray-300 max-h-60 overflow-y-auto">
                     {viewingContent.content || 'No content'}
                   </div>
+                  <div className="mt-2">
+                    <PlatformRulesFeedback check={checkPlatformRules(viewingContent, viewingContent.platform)} />
+                  </div>
                 </div>
+                {viewingContent.media_url && (
+                  <div>
+                    <Label className="text-white">Media</Label>
+                    <a
+                      href={viewingContent.media_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:text-blue-300 underline block truncate"
+                    >
+                      {viewingContent.media_url}
+                    </a>
+                  </div>
+                )}
                 {viewingContent.content_url && (
                   <div>
                     <Label className="text-white">URL</Label>
@@ -710,10 +930,51 @@ const ContentTab = () => {
                     </a>
                   </div>
                 )}
+                {getContentPublications(viewingContent.id).length > 0 && (
+                  <div>
+                    <Label className="text-white">Publications</Label>
+                    <div className="space-y-2 mt-1">
+                      {getContentPublications(viewingContent.id).map((publication) => (
+                        <div key={publication.id} className="bg-white/5 border border-white/20 rounded-lg p-2 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${getPublicationColor(publication.state)}`}>
+                              {publication.state}
+                            </span>
+                            <span className="text-gray-300">{capitalizeFirst(publication.platform)}</span>
+                            {publication.published_at && (
+                              <span className="text-xs text-gray-400">{new Date(publication.published_at).toLocaleString()}</span>
+                            )}
+                          </div>
+                          {publication.permalink && (
+                            <a
+                              href={publication.permalink}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-400 hover:text-blue-300 underline block text-xs mt-1 break-all"
+                            >
+                              {publication.permalink}
+                            </a>
+                          )}
+                          {publication.external_post_id && (
+                            <div className="text-xs text-gray-400 font-mono mt-1">Post ID: {publication.external_post_id}</div>
+                          )}
+                          {publication.error && (
+                            <div className="text-xs text-red-300 mt-1">{publication.error}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div>
                   <Label className="text-white">Created</Label>
                   <p className="text-gray-300">{formatDate(viewingContent.created_at)}</p>
                 </div>
+                <WebhookDeliveryHistory contentId={viewingContent.id} />
+                <SandboxPublicationHistory
+                  contentId={viewingContent.id}
+                  authorName={getAuthorName(viewingContent.user_id)}
+                />
                 <div className="flex gap-2">
                   <Button
                     onClick={() => {
@@ -725,14 +986,41 @@ const ContentTab = () => {
                     <Edit className="h-4 w-4 mr-2" />
                     Edit Content
                   </Button>
-                  {viewingContent.platform && (viewingContent.platform === 'linkedin' || viewingContent.platform === 'facebook') && (
+                  <Button
+                    onClick={() => setHistoryContentId(viewingContent.id)}
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </Button>
+                  <Button
+                    onClick={() => setCommentsContentId(viewingContent.id)}
+                    disabled={currentUserId === null}
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Comments ({getCommentCounts(viewingContent.id).open_thread_count})
+                  </Button>
+                  <Button
+                    onClick={() => setReviewContentId(viewingContent.id)}
+                    disabled={currentUserId === null}
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    {needsReviewBy(viewingContent, currentUserId) ? "Review" : "Approval"}
+                  </Button>
+                  {canPublish(viewingContent.platform) && (
                     <Button
                       onClick={() => {
                         setIsViewDialogOpen(false);
                         handlePublishSingle(viewingContent.id, viewingContent.platform);
                       }}
-                      disabled={isPublishing}
+                      disabled={isPublishing || !isPublishable(viewingContent.status) || !checkPlatformRules(viewingContent, viewingContent.platform).passed}
                       className="bg-green-600 hover:bg-green-700"
+                      title={isPublishable(viewingContent.status) ? undefined : "Needs approval before publishing"}
                     >
                       <Send className="h-4 w-4 mr-2" />
                       Publish to {capitalizeFirst(viewingContent.platform)}
@@ -744,6 +1032,42 @@ const ContentTab = () => {
           </DialogContent>
         </Dialog>
 
+        {/* Revision History Dialog */}
+        <ContentHistoryDialog
+          open={historyContentId !== null}
+          onOpenChange={(open) => !open && setHistoryContentId(null)}
+          content={contents.find(item => item.id === historyContentId) ?? null}
+          getAuthorName={getAuthorName}
+          onRestore={handleRestoreRevision}
+        />
+
+        {/* Comments Dialog */}
+        {currentUserId !== null && (
+          <ContentCommentsDialog
+            open={commentsContentId !== null}
+            onOpenChange={(open) => !open && setCommentsContentId(null)}
+            content={contents.find(item => item.id === commentsContentId) ?? null}
+            currentUserId={currentUserId}
+            getAuthorName={getAuthorName}
+          />
+        )}
+
+        {/* Review Dialog */}
+        {currentUserId !== null && (
+          <ContentReviewDialog
+            key={reviewContentId ?? undefined}
+            open={reviewContentId !== null}
+            onOpenChange={(open) => !open && setReviewContentId(null)}
+            content={contents.find(item => item.id === reviewContentId) ?? null}
+            reviewers={users}
+            currentUserId={currentUserId}
+            getAuthorName={getAuthorName}
+            getStatusColor={getStatusColor}
+            onSubmit={handleSubmitForReview}
+            onReview={handleReviewContent}
+          />
+        )}
+
         {/* Edit Content Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl">
@@ -800,6 +1124,26 @@ const ContentTab = () => {
                     Use either Title + Description above, or Full Content here
                   </p>
                 </div>
+
+                <div>
+                  <Label htmlFor="edit-media-url" className="text-white">Image or Video URL</Label>
+                  <Input
+                    id="edit-media-url"
+                    type="url"
+                    placeholder="https://..."
+                    value={editMediaUrl}
+                    onChange={(e) => setEditMediaUrl(e.target.value)}
+                    className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                  />
+                </div>
+
+                {editContentCheck && <PlatformRulesFeedback check={editContentCheck} />}
+
+                {editingContent.status === "approved" && (
+                  <p className="text-sm text-amber-300">
+                    This content is approved. Saving changes to its text or media sends it back for review.
+                  </p>
+                )}
                 
                 <div className="flex gap-2">
                   <Button 
@@ -819,7 +1163,7 @@ const ContentTab = () => {
                       </>
                     )}
                   </Button>
-                  {editingContent.platform && (editingContent.platform === 'linkedin' || editingContent.platform === 'facebook') && (
+                  {canPublish(editingContent.platform) && isPublishable(editingContent.status) && (
                     <Button
                       onClick={async () => {
                         await handleUpdateContent();
@@ -828,13 +1172,24 @@ const ContentTab = () => {
                           handlePublishSingle(editingContent.id, editingContent.platform);
                         }
                       }}
-                      disabled={isUpdating || isPublishing}
+                      disabled={isUpdating || isPublishing || !editContentCheck?.passed || editChangesApprovedContent}
                       className="bg-green-600 hover:bg-green-700"
+                      title={editChangesApprovedContent
+                        ? "Changes to approved content need another review"
+                        : editContentCheck && !editContentCheck.passed ? describeRuleErrors(editContentCheck) : undefined}
                     >
                       <Send className="h-4 w-4 mr-2" />
                       Save & Publish
                     </Button>
                   )}
+                  <Button
+                    onClick={() => setHistoryContentId(editingContent.id)}
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    title="Revision history"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
                   <Button 
                     onClick={() => setIsEditDialogOpen(false)}
                     variant="outline"
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -7,34 +7,163 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useIdeas } from "@/hooks/useIdeas";
-import { ChevronDown, Plus, Loader2, Trash2, RefreshCw, Edit, Save, Eye } from "lucide-react";
+import { useWebhookEndpoints } from "@/hooks/useWebhookEndpoints";
+import { useGenerationEvents } from "@/hooks/useGenerationEvents";
+import { useTags } from "@/hooks/useTags";
+import { isOpenPlanItem, useContentPlan } from "@/hooks/useContentPlan";
+import { useSources } from "@/hooks/useSources";
+import { useUsers } from "@/hooks/useUsers";
+import WebhookDeliveryHistory from "@/components/WebhookDeliveryHistory";
+import PriorityBreakdown from "@/components/PriorityBreakdown";
+import MergeIdeasDialog from "@/components/MergeIdeasDialog";
+import IdeaTagEditor from "@/components/IdeaTagEditor";
+import ImportIdeasDialog from "@/components/ImportIdeasDialog";
+import IdeaProvenance from "@/components/IdeaProvenance";
+import IdeaBoard from "@/components/IdeaBoard";
+import IdeaFreshnessBadge from "@/components/IdeaFreshnessBadge";
+import { describeDeliveryFailure, dispatchWebhook, isDeliverySucceeded } from "@/lib/webhookDeliveries";
+import { formatPriorityScore } from "@/lib/priorityScoring";
+import { findSimilarIdeas, type SimilarIdea } from "@/lib/ideaDuplicates";
+import { getAllowedTransitions, IDEA_STATUSES, ideaStatusLabels, isIdeaStatus, type IdeaStatus } from "@/lib/ideaLifecycle";
+import { clusterDocuments, type TopicCluster } from "@/lib/clustering";
+import { ideasToCsv, ideasToJson, type ImportRow } from "@/lib/ideaImportExport";
+import { describeSource } from "@/lib/ideaProvenance";
+import { DEFAULT_HALF_LIFE_DAYS, effectivePriority, isStale, TIMELINESS, timelinessLabels, type Timeliness } from "@/lib/ideaFreshness";
+import { IDEA_SORTS, fetchAllIdeas, fetchIdeasByIds, ideaSortLabels, type IdeaFilters, type IdeaSort } from "@/lib/ideaSearch";
+import type { ContentPlanItem, Idea } from "@/lib/supabase";
+import { ChevronDown, Plus, Loader2, Trash2, RefreshCw, Edit, Save, Eye, Sparkles, Gauge, Tags, Upload, Download, LayoutList, Kanban, Search, X, AlertTriangle } from "lucide-react";
 
 interface ContentSelection {
   ideaId: number;
   platform: string;
   contentType: string;
+  planItemId: number;
+}
+
+const planStatusLabels: Record<ContentPlanItem["status"], string> = {
+  planned: "Planned",
+  requested: "Waiting for draft",
+  drafted: "Drafted",
+  failed: "Request failed"
+};
+
+const planStatusStyles: Record<ContentPlanItem["status"], string> = {
+  planned: "bg-blue-600/30 text-blue-200",
+  requested: "bg-yellow-500/20 text-yellow-300",
+  drafted: "bg-green-500/20 text-green-300",
+  failed: "bg-red-500/20 text-red-300"
+};
+
+interface IdeaGroup {
+  key: string;
+  label: string;
+  cluster?: TopicCluster;
+  ideas: Idea[];
 }
 
 const IdeasTab = () => {
   const { toast } = useToast();
-  const { ideas, loading, createIdea, deleteIdea, markIdeasAsUsed, updateIdea, fetchIdeas } = useIdeas();
+  const {
+    ideas,
+    filters,
+    sort,
+    statusCounts,
+    totalCount,
+    hasMore,
+    loading,
+    loadingMore,
+    createIdea,
+    deleteIdea,
+    transitionIdeas,
+    updateIdea,
+    fetchIdeas,
+    loadMoreIdeas,
+    setFilters,
+    setSort,
+    generateIdeas,
+    importIdeas,
+    recomputePriorityScores,
+    mergeIdeas,
+    dismissDuplicate
+  } = useIdeas();
+  const { endpoints, getEndpoint } = useWebhookEndpoints();
+  const { completedIdeaIds } = useGenerationEvents();
+  const { tags, getIdeaTags, tagIdeas, untagIdea } = useTags();
+  const { planItems, getIdeaPlan, planContent, removePlanItem, markPlanItems } = useContentPlan();
+  const { sources } = useSources();
+  const { users } = useUsers();
   
   const [selectedIdeas, setSelectedIdeas] = useState<number[]>([]);
-  const [contentSelections, setContentSelections] = useState<ContentSelection[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [editingIdea, setEditingIdea] = useState<any>(null);
   const [viewingIdea, setViewingIdea] = useState<any>(null);
   const [newIdeaContent, setNewIdeaContent] = useState("");
+  const [newIdeaTimeliness, setNewIdeaTimeliness] = useState<Timeliness>("evergreen");
   const [editIdeaContent, setEditIdeaContent] = useState("");
   const [editIdeaTitle, setEditIdeaTitle] = useState("");
   const [editIdeaDescription, setEditIdeaDescription] = useState("");
+  const [editSourceId, setEditSourceId] = useState("none");
+  const [editSourceUrl, setEditSourceUrl] = useState("");
+  const [editSourceExcerpt, setEditSourceExcerpt] = useState("");
+  const [editTimeliness, setEditTimeliness] = useState<Timeliness>("evergreen");
+  const [editHalfLife, setEditHalfLife] = useState("");
+  const [editExpiresAt, setEditExpiresAt] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isGeneratingIdeas, setIsGeneratingIdeas] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [mergingIdeaId, setMergingIdeaId] = useState<number | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<Idea | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isFindingTopics, setIsFindingTopics] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<IdeaStatus | "all">("all");
+  const [similarIdeas, setSimilarIdeas] = useState<SimilarIdea[]>([]);
+  const [tagFilter, setTagFilter] = useState("all");
+  const [clusterFilter, setClusterFilter] = useState("all");
+  const [groupBy, setGroupBy] = useState<"none" | "tag" | "cluster">("none");
+  const [viewMode, setViewMode] = useState<"table" | "board">("table");
+  const [searchText, setSearchText] = useState("");
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  // Only the very first load replaces the tab with a spinner; later searches
+  // keep the filters on screen
+  useEffect(() => {
+    if (!loading) setHasLoaded(true);
+  }, [loading]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const query = searchText.trim() || undefined;
+      setFilters(prev => prev.query === query ? prev : { ...prev, query });
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+  const [clusters, setClusters] = useState<TopicCluster[]>([]);
+
+  // Warn about near-duplicates while a new idea is being typed
+  useEffect(() => {
+    if (newIdeaContent.trim().length < 20) {
+      setSimilarIdeas([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      findSimilarIdeas(1, newIdeaContent) // Using demo user ID - replace with actual user when auth is implemented
+        .then(setSimilarIdeas)
+        .catch((error) => console.error("Error checking for similar ideas:", error));
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [newIdeaContent]);
 
   const platformContentTypes = {
     LinkedIn: ["Article", "Text Post", "Newsletter", "Image Post", "Video scripts"],
@@ -45,14 +174,15 @@ const IdeasTab = () => {
     TikTok: ["Video", "Shorts"]
   };
 
-  // Webhook URLs for different platforms
-  const webhookUrls = {
-    LinkedIn: "https://hook.eu2.make.com/uo1mv8iqh5dnljhodml75kppe8e6j1fy",
-    Instagram: "https://hook.eu2.make.com/jd7mofm8w2622mjadxlya9w481f7rboq",
-    Facebook: "https://hook.eu2.make.com/eeia98ktnu8vth9epzmv89ym4a6eeyi3"
-  };
-
   const handleRowClick = (ideaId: number) => {
+    const idea = ideas.find(item => item.id === ideaId);
+    if (idea && !selectedIdeas.includes(ideaId) && isStale(idea)) {
+      toast({
+        title: "Stale Idea",
+        description: `Idea #${ideaId} is time-sensitive and has lost most of its value. Consider archiving it instead.`
+      });
+    }
+
     setSelectedIdeas(prev => 
       prev.includes(ideaId) 
         ? prev.filter(id => id !== ideaId)
@@ -60,26 +190,36 @@ const IdeasTab = () => {
     );
   };
 
-  const handleContentSelection = (ideaId: number, platform: string, contentType: string) => {
-    if (contentType === "None") {
-      setContentSelections(prev => 
-        prev.filter(sel => !(sel.ideaId === ideaId && sel.platform === platform))
-      );
-      
-      toast({
-        title: "Content Selection Removed",
-        description: `Removed ${platform} content for idea`
-      });
+  // Picks are saved as content plan items, so they survive reloads and can
+  // be submitted later
+  const contentSelections: ContentSelection[] = planItems
+    .filter(isOpenPlanItem)
+    .map(item => ({
+      ideaId: item.idea_id,
+      platform: item.platform,
+      contentType: item.content_type,
+      planItemId: item.id
+    }));
+
+  const handleContentSelection = async (ideaId: number, platform: string, contentType: string) => {
+    try {
+      if (contentType === "None") {
+        await removePlanItem(ideaId, platform);
+
+        toast({
+          title: "Content Selection Removed",
+          description: `Removed ${platform} content for idea`
+        });
+        return;
+      }
+
+      const idea = ideas.find(item => item.id === ideaId);
+      await planContent(ideaId, platform, contentType, idea?.user_id ?? null);
+    } catch (error) {
+      // Error handling is done in the hook
       return;
     }
 
-    const newSelection: ContentSelection = { ideaId, platform, contentType };
-    
-    setContentSelections(prev => {
-      const filtered = prev.filter(sel => !(sel.ideaId === ideaId && sel.platform === platform));
-      return [...filtered, newSelection];
-    });
-
     toast({
       title: "Content Type Selected",
       description: `${platform} ${contentType} selected for idea`
@@ -88,31 +228,27 @@ const IdeasTab = () => {
 
   // Function to call webhook for specific platform with idea ID
   const callPlatformWebhook = async (platform: string, ideaId: number, contentType: string) => {
-    const webhookUrl = webhookUrls[platform as keyof typeof webhookUrls];
+    const idea = ideas.find(i => i.id === ideaId);
+    const endpoint = getEndpoint('content_generation', platform, idea?.user_id ?? null);
     
-    if (!webhookUrl) {
-      console.warn(`No webhook URL configured for platform: ${platform}`);
-      return false;
+    if (!endpoint) {
+      throw new Error(`No webhook URL configured for platform: ${platform}`);
     }
 
     try {
       console.log(`Calling ${platform} webhook for idea ID: ${ideaId}, content type: ${contentType}`);
       
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        mode: "no-cors", // Add this to handle CORS issues
-        body: JSON.stringify({
-        id: ideaId,
-          contentType: contentType // Add content type to the payload
-        }),
+      const delivery = await dispatchWebhook({
+        endpointId: endpoint.id,
+        ideaId,
+        contentType
       });
 
-      // Note: With no-cors mode, we can't check response status
-      // but the request will be sent successfully
-      console.log(`${platform} webhook called successfully for idea ID ${ideaId}`);
+      if (!isDeliverySucceeded(delivery)) {
+        throw new Error(describeDeliveryFailure(delivery));
+      }
+
+      console.log(`${platform} webhook delivered for idea ID ${ideaId}`);
       return true;
     } catch (error) {
       console.error(`Error calling ${platform} webhook for idea ID ${ideaId}:`, error);
@@ -121,15 +257,6 @@ const IdeasTab = () => {
   };
 
   const handleGenerateContent = async () => {
-    if (selectedIdeas.length === 0) {
-      toast({
-        title: "No ideas selected",
-        description: "Please select at least one idea to generate content",
-        variant: "destructive"
-      });
-      return;
-    }
-
     if (contentSelections.length === 0) {
       toast({
         title: "No content types selected",
@@ -142,33 +269,46 @@ const IdeasTab = () => {
     setIsGenerating(true);
 
     try {
+      // Ideas going out to a generation webhook move to "generating" first so
+      // the callback finds them there; ideas that cannot move are left out
+      const previousStatus = new Map(ideas.map(idea => [idea.id, idea.status]));
+      const webhookIdeaIds = [...new Set(
+        contentSelections
+          .filter(selection => isPlatformWebhookEnabled(selection.platform))
+          .map(selection => selection.ideaId)
+      )];
+      const generatingIds = webhookIdeaIds.length > 0
+        ? (await transitionIdeas(webhookIdeaIds, 'generating', { quiet: true })).map(idea => idea.id)
+        : [];
+
       // Group selections by platform
-      const platformGroups = contentSelections.reduce((groups, selection) => {
-        if (!groups[selection.platform]) {
-          groups[selection.platform] = [];
-        }
-        groups[selection.platform].push(selection);
-        return groups;
-      }, {} as Record<string, ContentSelection[]>);
+      const platformGroups = contentSelections
+        .filter(selection => !isPlatformWebhookEnabled(selection.platform) || generatingIds.includes(selection.ideaId))
+        .reduce((groups, selection) => {
+          if (!groups[selection.platform]) {
+            groups[selection.platform] = [];
+          }
+          groups[selection.platform].push(selection);
+          return groups;
+        }, {} as Record<string, ContentSelection[]>);
 
       // Process webhook-enabled platforms
-      const webhookPlatforms = Object.keys(webhookUrls);
       const webhookResults = [];
       const otherPlatforms = [];
 
       // Process each platform
       for (const [platform, selections] of Object.entries(platformGroups)) {
-        if (webhookPlatforms.includes(platform)) {
+        if (isPlatformWebhookEnabled(platform)) {
           console.log(`Processing webhook platform: ${platform} with ${selections.length} selections`);
           
           // Call webhook for each idea in this platform
           const platformPromises = selections.map(async (selection) => {
             try {
               await callPlatformWebhook(platform, selection.ideaId, selection.contentType);
-              return { success: true, ideaId: selection.ideaId };
+              return { success: true, ideaId: selection.ideaId, planItemId: selection.planItemId };
             } catch (error) {
               console.error(`Failed webhook call for ${platform}, idea ${selection.ideaId}:`, error);
-              return { success: false, ideaId: selection.ideaId, error };
+              return { success: false, ideaId: selection.ideaId, planItemId: selection.planItemId, error };
             }
           });
 
@@ -182,13 +322,15 @@ const IdeasTab = () => {
             successCount,
             failureCount,
             success: successCount > 0,
-            ideaIds: selections.map(s => s.ideaId)
+            ideaIds: selections.map(s => s.ideaId),
+            succeededIdeaIds: results.filter(r => r.success).map(r => r.ideaId),
+            succeededPlanItemIds: results.filter(r => r.success).map(r => r.planItemId),
+            failedPlanItemIds: results.filter(r => !r.success).map(r => r.planItemId)
           });
         } else {
           otherPlatforms.push({ 
             platform, 
-            count: selections.length,
-            ideaIds: selections.map(s => s.ideaId)
+            count: selections.length
           });
         }
       }
@@ -198,45 +340,63 @@ const IdeasTab = () => {
         if (result.successCount > 0) {
           toast({
             title: `${result.platform} Webhook Success`,
-            description: `Successfully initiated content generation for ${result.successCount} idea(s). IDs: ${result.ideaIds.join(', ')}`
+            description: `Successfully initiated content generation for ${result.successCount} idea(s). IDs: ${result.ideaIds.join(', ')}. Drafts will appear automatically when ready.`
           });
         }
         
         if (result.failureCount > 0) {
           toast({
             title: `${result.platform} Webhook Errors`,
-            description: `Failed to process ${result.failureCount} idea(s). Check console for details.`,
+            description: `Failed to process ${result.failureCount} idea(s). See the idea's delivery history for details.`,
             variant: "destructive"
           });
         }
       }
 
-      // Handle other platforms (existing logic)
+      // Nothing is sent for platforms without a generation webhook, so their
+      // plan items stay planned
       if (otherPlatforms.length > 0) {
         const totalOtherCount = otherPlatforms.reduce((sum, p) => sum + p.count, 0);
-        const allOtherIdeaIds = otherPlatforms.flatMap(p => p.ideaIds);
-        
+        const otherPlatformNames = otherPlatforms.map(p => p.platform);
+
         toast({
-          title: "Standard Content Generation",
-          description: `Processing ${totalOtherCount} content pieces for other platforms. Idea IDs: ${[...new Set(allOtherIdeaIds)].join(', ')}`
+          title: "No Generation Webhook",
+          description: `${totalOtherCount} selection(s) for ${otherPlatformNames.join(", ")} were not sent because no generation webhook is configured. They stay planned.`,
+          variant: "destructive"
         });
       }
 
-      // Mark all selected ideas as used
-      await markIdeasAsUsed(selectedIdeas);
+      // Ideas whose every request failed go back to where they were
+      const succeededIds = new Set(webhookResults.flatMap(result => result.succeededIdeaIds));
+      const failedIds = generatingIds.filter(id => !succeededIds.has(id));
+      const revertGroups = new Map<IdeaStatus, number[]>();
+      for (const id of failedIds) {
+        const status = previousStatus.get(id);
+        if (isIdeaStatus(status)) {
+          revertGroups.set(status, [...(revertGroups.get(status) || []), id]);
+        }
+      }
+      for (const [status, revertIds] of revertGroups) {
+        await transitionIdeas(revertIds, status, { quiet: true });
+      }
       
+      // Only plan items that went out wait for their drafts; ideas that could
+      // not move to "generating" stay planned for a later run
+      await markPlanItems(webhookResults.flatMap(result => result.succeededPlanItemIds), 'requested');
+      await markPlanItems(webhookResults.flatMap(result => result.failedPlanItemIds), 'failed');
+
       // Summary toast
+      const submittedIdeaIds = [...new Set(contentSelections.map(selection => selection.ideaId))];
       const totalWebhookCalls = webhookResults.reduce((sum, r) => sum + r.successCount, 0);
       const totalFailures = webhookResults.reduce((sum, r) => sum + r.failureCount, 0);
       
       toast({
         title: "Content Generation Summary",
-        description: `Processed ${selectedIdeas.length} ideas. Webhook calls: ${totalWebhookCalls} successful, ${totalFailures} failed. Selected IDs: ${selectedIdeas.join(', ')}`
+        description: `Processed ${submittedIdeaIds.length} ideas. Webhook calls: ${totalWebhookCalls} successful, ${totalFailures} failed. Idea IDs: ${submittedIdeaIds.join(', ')}`
       });
 
       // Clear selections
       setSelectedIdeas([]);
-      setContentSelections([]);
     } catch (error) {
       console.error("Error in content generation:", error);
       toast({
@@ -249,6 +409,55 @@ const IdeasTab = () => {
     }
   };
 
+  const handleGenerateIdeas = async () => {
+    setIsGeneratingIdeas(true);
+    try {
+      await generateIdeas(1); // Using demo user ID - replace with actual user when auth is implemented
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsGeneratingIdeas(false);
+    }
+  };
+
+  const mergingIdea = ideas.find(idea => idea.id === mergingIdeaId) || null;
+
+  // The idea a duplicate repeats may not be on a loaded page
+  useEffect(() => {
+    const targetId = mergingIdea?.duplicate_of ?? null;
+    if (targetId === null) {
+      setMergeTarget(null);
+      return;
+    }
+
+    const loaded = ideas.find(idea => idea.id === targetId);
+    if (loaded) {
+      setMergeTarget(loaded);
+      return;
+    }
+
+    let cancelled = false;
+    fetchIdeasByIds([targetId])
+      .then(([target]) => {
+        if (!cancelled) setMergeTarget(target || null);
+      })
+      .catch(error => console.error("Error loading merge target:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [mergingIdea?.duplicate_of, ideas]);
+
+  const handleRecomputeScores = async () => {
+    setIsScoring(true);
+    try {
+      await recomputePriorityScores();
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
   const handleCreateIdea = async () => {
     if (!newIdeaContent.trim()) {
       toast({
@@ -266,10 +475,12 @@ const IdeasTab = () => {
         content: newIdeaContent,
         status: 'new',
         priority_score: 0.5,
+        timeliness: newIdeaTimeliness,
         user_id: 1 // Using demo user ID - replace with actual user when auth is implemented
       });
 
       setNewIdeaContent("");
+      setNewIdeaTimeliness("evergreen");
       setIsCreateDialogOpen(false);
     } catch (error) {
       // Error handling is done in the hook
@@ -278,6 +489,62 @@ const IdeasTab = () => {
     }
   };
 
+  // Insert the valid rows, then attach their tags. The insert returns rows in
+  // the order they were sent.
+  const handleImportIdeas = async (rows: ImportRow[]) => {
+    const imported = await importIdeas(rows.map(row => row.idea));
+
+    // Tag names are matched ignoring case, the first spelling wins
+    const taggedIdeas = new Map<string, { name: string; ideaIds: number[] }>();
+    rows.forEach((row, index) => {
+      const idea = imported[index];
+      if (!idea) return;
+      for (const tag of row.tags) {
+        const entry = taggedIdeas.get(tag.toLowerCase()) || { name: tag, ideaIds: [] };
+        entry.ideaIds.push(idea.id);
+        taggedIdeas.set(tag.toLowerCase(), entry);
+      }
+    });
+
+    for (const { name, ideaIds } of taggedIdeas.values()) {
+      await tagIdeas(ideaIds, name, 'manual', { quiet: true });
+    }
+  };
+
+  // Exports every idea matching the filters, not only the loaded pages
+  const handleExport = async (format: "csv" | "json") => {
+    setIsExporting(true);
+    let exported: Idea[];
+    try {
+      exported = applyViewFilters(applyLocalFilters(await fetchAllIdeas(filters, sort)));
+    } catch (error) {
+      console.error("Error exporting ideas:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to load the ideas to export",
+        variant: "destructive"
+      });
+      return;
+    } finally {
+      setIsExporting(false);
+    }
+
+    const tagNames = (ideaId: number) => getIdeaTags(ideaId).map(tag => tag.name);
+    const data = format === "csv" ? ideasToCsv(exported, tagNames) : ideasToJson(exported, tagNames);
+    const blob = new Blob([data], { type: format === "csv" ? "text/csv;charset=utf-8" : "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ideas-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Ready",
+      description: `Exported ${exported.length} ideas as ${format.toUpperCase()}`
+    });
+  };
+
   const handleViewIdea = (idea: any) => {
     setViewingIdea(idea);
     setIsViewDialogOpen(true);
@@ -296,6 +563,12 @@ const IdeasTab = () => {
       setEditIdeaTitle("");
       setEditIdeaDescription(content);
     }
+    setEditSourceId(idea.source_id ? String(idea.source_id) : "none");
+    setEditSourceUrl(idea.source_url || "");
+    setEditSourceExcerpt(idea.source_excerpt || "");
+    setEditTimeliness(idea.timeliness === "timely" ? "timely" : "evergreen");
+    setEditHalfLife(idea.decay_half_life_days ? String(idea.decay_half_life_days) : "");
+    setEditExpiresAt(idea.expires_at ? idea.expires_at.slice(0, 10) : "");
     setIsEditDialogOpen(true);
   };
 
@@ -335,7 +608,14 @@ const IdeasTab = () => {
     
     try {
       await updateIdea(editingIdea.id, {
-        content: combinedContent
+        content: combinedContent,
+        source_id: editSourceId === "none" ? null : Number(editSourceId),
+        source_url: editSourceUrl.trim() || null,
+        source_excerpt: editSourceExcerpt.trim() || null,
+        timeliness: editTimeliness,
+        decay_half_life_days: editTimeliness === "timely" && Number(editHalfLife) > 0 ? Number(editHalfLife) : null,
+        // Leaving the date empty lets the database pick the default shelf life
+        expires_at: editTimeliness === "timely" && editExpiresAt ? new Date(`${editExpiresAt}T23:59:59`).toISOString() : null
       });
 
       setEditIdeaContent("");
@@ -368,18 +648,178 @@ const IdeasTab = () => {
 
   const getStatusColor = (status: string | null) => {
     switch (status) {
-      case "used": return "bg-green-500/20 text-green-300";
       case "new": return "bg-blue-500/20 text-blue-300";
+      case "shortlisted": return "bg-purple-500/20 text-purple-300";
+      case "generating": return "bg-yellow-500/20 text-yellow-300";
+      case "drafted": return "bg-cyan-500/20 text-cyan-300";
+      case "used": return "bg-green-500/20 text-green-300";
+      case "rejected": return "bg-red-500/20 text-red-300";
       default: return "bg-gray-500/20 text-gray-300";
     }
   };
 
+  const transitionActionLabels: Partial<Record<IdeaStatus, string>> = {
+    new: "Move back to New",
+    shortlisted: "Shortlist",
+    archived: "Archive",
+    rejected: "Reject",
+    used: "Mark as Used"
+  };
+
+  const handleTransition = async (ideaId: number, to: IdeaStatus) => {
+    try {
+      const [updated] = await transitionIdeas([ideaId], to);
+      if (updated && viewingIdea?.id === ideaId) {
+        setViewingIdea(updated);
+      }
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  // Propose topic groups from the text of every idea matching the filters.
+  // Runs locally, nothing is saved until a cluster is kept as a tag.
+  const handleFindTopics = async () => {
+    setIsFindingTopics(true);
+    let matching: Idea[];
+    try {
+      matching = await fetchAllIdeas(filters, sort);
+    } catch (error) {
+      console.error("Error loading ideas for topics:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load ideas",
+        variant: "destructive"
+      });
+      return;
+    } finally {
+      setIsFindingTopics(false);
+    }
+
+    const documents = matching
+      .filter(idea => idea.content && idea.content.trim())
+      .map(idea => ({ id: idea.id, text: idea.content as string }));
+
+    if (documents.length < 4) {
+      toast({
+        title: "Not enough ideas",
+        description: "Add a few more ideas before looking for topics",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const found = clusterDocuments(documents);
+    setClusters(found);
+    setClusterFilter("all");
+    setGroupBy("cluster");
+    toast({
+      title: "Topics Found",
+      description: `Grouped ${documents.length} ideas into ${found.length} topics`
+    });
+  };
+
+  const handleSaveClusterAsTag = async (cluster: TopicCluster) => {
+    try {
+      await tagIdeas(cluster.memberIds, cluster.label, 'cluster');
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  // Tag and topic filters are applied here rather than by `search_ideas`
+  const applyLocalFilters = (list: Idea[]) => list
+    .filter(idea => tagFilter === "all" || getIdeaTags(idea.id).some(tag => String(tag.id) === tagFilter))
+    .filter(idea => clusterFilter === "all" || clusters.find(cluster => String(cluster.id) === clusterFilter)?.memberIds.includes(idea.id));
+
+  // The board shows every status as a column, so only the table filters by status
+  const applyViewFilters = (list: Idea[]) => viewMode === "board"
+    ? list
+    : list.filter(idea => statusFilter === "all" || idea.status === statusFilter);
+
+  const filteredIdeas = applyLocalFilters(ideas);
+  const visibleIdeas = applyViewFilters(filteredIdeas);
+
+  const handleMoveIdea = (ideaId: number, to: IdeaStatus) => updateIdea(ideaId, { status: to });
+
+  const updateFilters = (changes: Partial<IdeaFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleStatusFilter = (status: IdeaStatus | "all") => {
+    setStatusFilter(status);
+    updateFilters({ statuses: status === "all" ? undefined : [status] });
+  };
+
+  const handleTagFilter = (value: string) => {
+    setTagFilter(value);
+    updateFilters({ tagId: value === "all" ? undefined : Number(value) });
+  };
+
+  // The board needs every status for its columns
+  const handleViewMode = (mode: "table" | "board") => {
+    setViewMode(mode);
+    if (mode === "board") {
+      setStatusFilter("all");
+      updateFilters({ statuses: undefined });
+    }
+  };
+
+  // Priority is edited on the 0-10 scale shown in the table
+  const handlePriorityFilter = (bound: "minPriority" | "maxPriority", value: string) => {
+    updateFilters({ [bound]: value === "" ? undefined : Math.min(10, Math.max(0, Number(value))) / 10 });
+  };
+
+  const handleClearFilters = () => {
+    setSearchText("");
+    setStatusFilter("all");
+    setTagFilter("all");
+    setFilters({});
+  };
+
+  const hasActiveFilters = Object.values(filters).some(value => value !== undefined);
+  const allStatusCount = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+
+  // An idea with several tags shows up under each of them
+  const ideaGroups: IdeaGroup[] = (() => {
+    if (groupBy === "tag") {
+      const groups: IdeaGroup[] = tags
+        .map(tag => ({
+          key: `tag-${tag.id}`,
+          label: tag.name,
+          ideas: visibleIdeas.filter(idea => getIdeaTags(idea.id).some(ideaTag => ideaTag.id === tag.id))
+        }))
+        .filter(group => group.ideas.length > 0);
+      const untagged = visibleIdeas.filter(idea => getIdeaTags(idea.id).length === 0);
+      return untagged.length > 0 ? [...groups, { key: "untagged", label: "Untagged", ideas: untagged }] : groups;
+    }
+
+    if (groupBy === "cluster" && clusters.length > 0) {
+      const groups: IdeaGroup[] = clusters
+        .map(cluster => ({
+          key: `cluster-${cluster.id}`,
+          label: cluster.label,
+          cluster,
+          ideas: visibleIdeas.filter(idea => cluster.memberIds.includes(idea.id))
+        }))
+        .filter(group => group.ideas.length > 0);
+      const unclustered = visibleIdeas.filter(idea => !clusters.some(cluster => cluster.memberIds.includes(idea.id)));
+      return unclustered.length > 0 ? [...groups, { key: "unclustered", label: "Not clustered", ideas: unclustered }] : groups;
+    }
+
+    return [{ key: "all", label: "", ideas: visibleIdeas }];
+  })();
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
 
   const isPlatformWebhookEnabled = (platform: string) => {
-    return Object.keys(webhookUrls).includes(platform);
+    return endpoints.some(endpoint =>
+      endpoint.enabled &&
+      endpoint.purpose === 'content_generation' &&
+      endpoint.platform === platform.toLowerCase()
+    );
   };
 
   const getWebhookIcon = (platform: string) => {
@@ -391,7 +831,9 @@ const IdeasTab = () => {
     }
   };
 
-  if (loading) {
+  const staleSelectedIdeas = ideas.filter(idea => selectedIdeas.includes(idea.id) && isStale(idea));
+
+  if (loading && !hasLoaded) {
     return (
       <Card className="bg-white/10 backdrop-blur-sm border-white/20">
         <CardHeader>
@@ -414,11 +856,21 @@ const IdeasTab = () => {
         <p className="text-gray-300">Click on ideas to select them, then choose content types for each platform</p>
       </CardHeader>
       <CardContent>
+        {staleSelectedIdeas.length > 0 && (
+          <div className="mb-4 flex items-start gap-2 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm text-amber-200">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {staleSelectedIdeas.length === 1 ? "A selected idea is" : `${staleSelectedIdeas.length} selected ideas are`} stale
+              ({staleSelectedIdeas.map(idea => `#${idea.id}`).join(", ")}). Time-sensitive content may no longer be relevant.
+            </span>
+          </div>
+        )}
+
         <div className="mb-4 flex gap-2">
           <Button 
             onClick={handleGenerateContent}
             className="bg-blue-600 hover:bg-blue-700 text-white border-0"
-            disabled={selectedIdeas.length === 0 || contentSelections.length === 0 || isGenerating}
+            disabled={contentSelections.length === 0 || isGenerating}
           >
             {isGenerating ? (
               <>
@@ -430,6 +882,24 @@ const IdeasTab = () => {
             )}
           </Button>
           
+          <Button
+            onClick={handleGenerateIdeas}
+            disabled={isGeneratingIdeas}
+            className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white"
+          >
+            {isGeneratingIdeas ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Generating Ideas...
+              </>
+            ) : (
+              <>
+                <Sparkles className="h-4 w-4 mr-2" />
+                Generate Ideas
+              </>
+            )}
+          </Button>
+
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button className="bg-green-600 hover:bg-green-700 text-white">
@@ -452,6 +922,34 @@ const IdeasTab = () => {
                     className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
                   />
                 </div>
+                <div>
+                  <Label className="text-white">Shelf Life</Label>
+                  <Select value={newIdeaTimeliness} onValueChange={(value) => setNewIdeaTimeliness(value as Timeliness)}>
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      {TIMELINESS.map((option) => (
+                        <SelectItem key={option} value={option} className="text-white hover:bg-gray-700">
+                          {timelinessLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Timely ideas (news, trends) lose priority every day and are archived when they expire
+                  </p>
+                </div>
+                {similarIdeas.length > 0 && (
+                  <div className="p-3 rounded-lg bg-orange-500/10 border border-orange-500/30 space-y-1">
+                    <p className="text-sm text-orange-300">Similar ideas already exist:</p>
+                    {similarIdeas.map((similar) => (
+                      <p key={similar.id} className="text-xs text-gray-300 truncate" title={similar.content}>
+                        #{similar.id} ({Math.round(similar.similarity * 100)}%) {similar.content}
+                      </p>
+                    ))}
+                  </div>
+                )}
                 <Button 
                   onClick={handleCreateIdea}
                   disabled={isCreating}
@@ -470,6 +968,71 @@ const IdeasTab = () => {
             </DialogContent>
           </Dialog>
 
+          <Button
+            onClick={() => setIsImportDialogOpen(true)}
+            variant="outline"
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={isExporting || visibleIdeas.length === 0}
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                Export
+                <ChevronDown className="ml-1 h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="bg-gray-800 border-gray-700" align="start">
+              <DropdownMenuLabel className="text-white">
+                Export all filtered ideas
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator className="bg-gray-700" />
+              <DropdownMenuItem
+                onClick={() => handleExport("csv")}
+                className="text-gray-300 hover:bg-gray-700 hover:text-white cursor-pointer"
+              >
+                CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => handleExport("json")}
+                className="text-gray-300 hover:bg-gray-700 hover:text-white cursor-pointer"
+              >
+                JSON
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            onClick={handleRecomputeScores}
+            disabled={isScoring || ideas.length === 0}
+            variant="outline"
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            {isScoring ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Gauge className="h-4 w-4 mr-2" />
+            )}
+            Recompute Scores
+          </Button>
+
+          <Button
+            onClick={handleFindTopics}
+            disabled={isFindingTopics || ideas.length === 0}
+            variant="outline"
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            {isFindingTopics ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Tags className="h-4 w-4 mr-2" />}
+            Find Topics
+          </Button>
+
           <Button 
             onClick={handleRefresh}
             variant="outline"
@@ -479,11 +1042,199 @@ const IdeasTab = () => {
             Refresh
           </Button>
         </div>
-        
-        {ideas.length === 0 ? (
+
+        <div className="mb-4 flex flex-wrap items-end gap-2">
+          <div className="relative flex-1 min-w-[240px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder='Search ideas, e.g. "remote work" -hiring'
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+            />
+          </div>
+          <div>
+            <Label className="text-xs text-gray-400">Priority</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                placeholder="0"
+                value={filters.minPriority === undefined ? "" : Math.round(filters.minPriority * 100) / 10}
+                onChange={(e) => handlePriorityFilter("minPriority", e.target.value)}
+                className="w-16 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+              />
+              <span className="text-gray-400">-</span>
+              <Input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                placeholder="10"
+                value={filters.maxPriority === undefined ? "" : Math.round(filters.maxPriority * 100) / 10}
+                onChange={(e) => handlePriorityFilter("maxPriority", e.target.value)}
+                className="w-16 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+              />
+            </div>
+          </div>
+          <div>
+            <Label className="text-xs text-gray-400">Created</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                type="date"
+                value={filters.createdFrom || ""}
+                onChange={(e) => updateFilters({ createdFrom: e.target.value || undefined })}
+                className="w-36 bg-white/10 border-white/20 text-white"
+              />
+              <span className="text-gray-400">-</span>
+              <Input
+                type="date"
+                value={filters.createdTo || ""}
+                onChange={(e) => updateFilters({ createdTo: e.target.value || undefined })}
+                className="w-36 bg-white/10 border-white/20 text-white"
+              />
+            </div>
+          </div>
+          <Select
+            value={filters.userId === undefined ? "all" : String(filters.userId)}
+            onValueChange={(value) => updateFilters({ userId: value === "all" ? undefined : Number(value) })}
+          >
+            <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white">
+              <SelectValue placeholder="Owner" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700">
+              <SelectItem value="all" className="text-white hover:bg-gray-700">All owners</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={String(user.id)} className="text-white hover:bg-gray-700">
+                  {user.name || user.email || `User ${user.id}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as IdeaSort)}>
+            <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700">
+              {IDEA_SORTS.map((option) => (
+                <SelectItem key={option} value={option} className="text-white hover:bg-gray-700">
+                  {ideaSortLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(hasActiveFilters || searchText) && (
+            <Button
+              variant="ghost"
+              onClick={handleClearFilters}
+              className="text-gray-300 hover:text-white hover:bg-white/10"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+          {loading && <Loader2 className="h-5 w-5 mb-2 animate-spin text-white" />}
+        </div>
+
+        {viewMode === "table" && (
+          <div className="mb-4 flex flex-wrap gap-2">
+            {(["all", ...IDEA_STATUSES] as const).map((status) => (
+              <button
+                key={status}
+                onClick={() => handleStatusFilter(status)}
+                className={`px-3 py-1 rounded-full text-sm transition-all ${
+                  statusFilter === status
+                    ? "bg-gradient-to-r from-purple-600 to-blue-600 text-white"
+                    : "bg-white/10 text-gray-300 hover:bg-white/20"
+                }`}
+              >
+                {status === "all" ? "All" : ideaStatusLabels[status]} ({status === "all" ? allStatusCount : statusCounts[status] || 0})
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="mb-4 flex flex-wrap gap-2">
+          <div className="flex rounded-md border border-white/20 overflow-hidden">
+            {([["table", LayoutList, "Table"], ["board", Kanban, "Board"]] as const).map(([mode, Icon, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleViewMode(mode)}
+                className={`flex items-center px-3 text-sm transition-all ${
+                  viewMode === mode
+                    ? "bg-gradient-to-r from-purple-600 to-blue-600 text-white"
+                    : "bg-white/10 text-gray-300 hover:bg-white/20"
+                }`}
+              >
+                <Icon className="h-4 w-4 mr-1" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <Select value={tagFilter} onValueChange={handleTagFilter}>
+            <SelectTrigger className="w-48 bg-white/10 border-white/20 text-white">
+              <SelectValue placeholder="Filter by tag" />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700">
+              <SelectItem value="all" className="text-white hover:bg-gray-700">All tags</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={String(tag.id)} className="text-white hover:bg-gray-700">
+                  {tag.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {clusters.length > 0 && (
+            <Select value={clusterFilter} onValueChange={setClusterFilter}>
+              <SelectTrigger className="w-48 bg-white/10 border-white/20 text-white">
+                <SelectValue placeholder="Filter by topic" />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                <SelectItem value="all" className="text-white hover:bg-gray-700">All topics</SelectItem>
+                {clusters.map((cluster) => (
+                  <SelectItem key={cluster.id} value={String(cluster.id)} className="text-white hover:bg-gray-700">
+                    {cluster.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {viewMode === "table" && (
+            <Select value={groupBy} onValueChange={(value) => setGroupBy(value as "none" | "tag" | "cluster")}>
+              <SelectTrigger className="w-48 bg-white/10 border-white/20 text-white">
+                <SelectValue placeholder="Group by" />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                <SelectItem value="none" className="text-white hover:bg-gray-700">No grouping</SelectItem>
+                <SelectItem value="tag" className="text-white hover:bg-gray-700">Group by tag</SelectItem>
+                <SelectItem value="cluster" disabled={clusters.length === 0} className="text-white hover:bg-gray-700">Group by topic</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {ideas.length === 0 && !hasActiveFilters ? (
           <div className="text-center py-8">
             <p className="text-gray-300 mb-4">No ideas found. Create your first idea to get started!</p>
           </div>
+        ) : viewMode === "board" ? (
+          <IdeaBoard
+            ideas={visibleIdeas}
+            statusCounts={statusCounts}
+            selectedIdeas={selectedIdeas}
+            contentSelections={contentSelections}
+            getIdeaTags={getIdeaTags}
+            getStatusColor={getStatusColor}
+            onToggleSelect={handleRowClick}
+            onView={handleViewIdea}
+            onMove={handleMoveIdea}
+          />
+        ) : visibleIdeas.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-300 mb-4">No {statusFilter !== "all" && ideaStatusLabels[statusFilter].toLowerCase()} ideas match the current filters.</p>
+          </div>
         ) : (
           <Table>
             <TableHeader>
@@ -498,124 +1249,237 @@ const IdeasTab = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {ideas.map((idea) => (
-                <TableRow 
-                  key={idea.id} 
-                  className={`border-white/10 cursor-pointer transition-all hover:bg-white/5 ${
-                    selectedIdeas.includes(idea.id) ? 'bg-purple-500/20 border-purple-400/30' : ''
-                  }`}
-                  onClick={() => handleRowClick(idea.id)}
-                >
-                  <TableCell className="text-white font-mono text-sm">
-                    {idea.id}
-                  </TableCell>
-                  <TableCell className="text-white font-medium max-w-xs">
-                    <div 
-                      className="truncate" 
-                      title={idea.content || ''}
+              {ideaGroups.map((group) => (
+                <Fragment key={group.key}>
+                  {groupBy !== "none" && (
+                    <TableRow className="border-white/10 bg-white/5 hover:bg-white/5">
+                      <TableCell colSpan={7}>
+                        <div className="flex items-center justify-between">
+                          <span className="text-white font-medium">
+                            {group.label} <span className="text-gray-400 font-normal">({group.ideas.length})</span>
+                          </span>
+                          {group.cluster && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => group.cluster && handleSaveClusterAsTag(group.cluster)}
+                              className="text-indigo-300 hover:text-indigo-200 hover:bg-indigo-500/20"
+                            >
+                              <Tags className="h-4 w-4 mr-1" />
+                              Save as tag
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {group.ideas.map((idea) => (
+                    <TableRow 
+                      key={`${group.key}-${idea.id}`} 
+                      className={`border-white/10 cursor-pointer transition-all hover:bg-white/5 ${
+                        selectedIdeas.includes(idea.id) ? 'bg-purple-500/20 border-purple-400/30' : ''
+                      }`}
+                      onClick={() => handleRowClick(idea.id)}
                     >
-                      {idea.content || 'No content'}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(idea.status)}`}>
-                      {idea.status || 'new'}
-                    </span>
-                  </TableCell>
-                  <TableCell className="text-gray-300">
-                    {idea.priority_score ? Math.round(idea.priority_score) : '50'}
-                  </TableCell>
-                  <TableCell className="text-gray-300">
-                    {formatDate(idea.created_at)}
-                  </TableCell>
-                  <TableCell onClick={(e) => e.stopPropagation()}>
-                    {selectedIdeas.includes(idea.id) && (
-                      <div className="flex flex-wrap gap-2">
-                        {Object.entries(platformContentTypes).map(([platform, contentTypes]) => (
-                          <DropdownMenu key={platform}>
-                            <DropdownMenuTrigger asChild>
-                              <Button 
-                                variant="outline" 
-                                size="sm"
-                                className={`text-xs ${
-                                  getSelectionForIdea(idea.id, platform) 
-                                    ? isPlatformWebhookEnabled(platform)
-                                      ? 'bg-blue-600 hover:bg-blue-700 text-white border-blue-600 ring-2 ring-blue-400' 
-                                      : 'bg-blue-600 hover:bg-blue-700 text-white border-blue-600'
-                                    : 'bg-gray-700 hover:bg-gray-600 text-white border-gray-600'
-                                }`}
-                              >
-                                {platform}
-                                {isPlatformWebhookEnabled(platform) && getSelectionForIdea(idea.id, platform) && ` ${getWebhookIcon(platform)}`}
-                                {getSelectionForIdea(idea.id, platform) && 
-                                  `: ${getSelectionForIdea(idea.id, platform)?.contentType}`
-                                }
-                                <ChevronDown className="ml-1 h-3 w-3" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent className="bg-gray-800 border-gray-700" align="start">
-                              <DropdownMenuLabel className="text-white">
-                                {platform} Content Types
-                                {isPlatformWebhookEnabled(platform) && ` (Webhook ${getWebhookIcon(platform)})`}
-                              </DropdownMenuLabel>
-                              <DropdownMenuSeparator className="bg-gray-700" />
-                              <DropdownMenuItem
-                                onClick={() => handleContentSelection(idea.id, platform, "None")}
-                                className="text-gray-300 hover:bg-gray-700 hover:text-white cursor-pointer"
-                              >
-                                None
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator className="bg-gray-700" />
-                              {contentTypes.map((contentType) => (
-                                <DropdownMenuItem
-                                  key={contentType}
-                                  onClick={() => handleContentSelection(idea.id, platform, contentType)}
-                                  className="text-gray-300 hover:bg-gray-700 hover:text-white cursor-pointer"
+                      <TableCell className="text-white font-mono text-sm">
+                        {idea.id}
+                      </TableCell>
+                      <TableCell className="text-white font-medium max-w-xs">
+                        <div 
+                          className="truncate" 
+                          title={idea.content || ''}
+                        >
+                          {idea.content || 'No content'}
+                        </div>
+                        {getIdeaTags(idea.id).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {getIdeaTags(idea.id).map((tag) => (
+                              <span key={tag.id} className="px-2 py-0.5 rounded-full text-xs bg-indigo-500/20 text-indigo-300">
+                                {tag.name}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(idea.status)}`}>
+                          {ideaStatusLabels[idea.status as IdeaStatus] || idea.status}
+                        </span>
+                        {completedIdeaIds.includes(idea.id) && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs bg-emerald-500/20 text-emerald-300">
+                            Generation complete
+                          </span>
+                        )}
+                        {idea.duplicate_of && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setMergingIdeaId(idea.id);
+                            }}
+                            className="ml-2 px-2 py-1 rounded-full text-xs bg-orange-500/20 text-orange-300 hover:bg-orange-500/30"
+                            title="Review and merge"
+                          >
+                            Possible duplicate of #{idea.duplicate_of}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-gray-300">
+                        <span title={idea.timeliness === "timely" ? `Originally ${formatPriorityScore(idea.priority_score)}` : undefined}>
+                          {formatPriorityScore(effectivePriority(idea))}
+                        </span>
+                        <div className="mt-1">
+                          <IdeaFreshnessBadge idea={idea} />
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-gray-300">
+                        {formatDate(idea.created_at)}
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {(selectedIdeas.includes(idea.id) || contentSelections.some(sel => sel.ideaId === idea.id)) && (
+                          <div className="flex flex-wrap gap-2">
+                            {Object.entries(platformContentTypes).map(([platform, contentTypes]) => (
+                              <DropdownMenu key={platform}>
+                                <DropdownMenuTrigger asChild>
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm"
+                                    className={`text-xs ${
+                                      getSelectionForIdea(idea.id, platform) 
+                                        ? isPlatformWebhookEnabled(platform)
+                                          ? 'bg-blue-600 hover:bg-blue-700 text-white border-blue-600 ring-2 ring-blue-400' 
+                                          : 'bg-blue-600 hover:bg-blue-700 text-white border-blue-600'
+                                        : 'bg-gray-700 hover:bg-gray-600 text-white border-gray-600'
+                                    }`}
+                                  >
+                                    {platform}
+                                    {isPlatformWebhookEnabled(platform) && getSelectionForIdea(idea.id, platform) && ` ${getWebhookIcon(platform)}`}
+                                    {getSelectionForIdea(idea.id, platform) && 
+                                      `: ${getSelectionForIdea(idea.id, platform)?.contentType}`
+                                    }
+                                    <ChevronDown className="ml-1 h-3 w-3" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent className="bg-gray-800 border-gray-700" align="start">
+                                  <DropdownMenuLabel className="text-white">
+                                    {platform} Content Types
+                                    {isPlatformWebhookEnabled(platform) && ` (Webhook ${getWebhookIcon(platform)})`}
+                                  </DropdownMenuLabel>
+                                  <DropdownMenuSeparator className="bg-gray-700" />
+                                  <DropdownMenuItem
+                                    onClick={() => handleContentSelection(idea.id, platform, "None")}
+                                    className="text-gray-300 hover:bg-gray-700 hover:text-white cursor-pointer"
+                                  >
+                                    None
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator className="bg-gray-700" />
+                                  {contentTypes.map((contentType) => (
+                                    <DropdownMenuItem
+                                      key={contentType}
+                                      onClick={() => handleContentSelection(idea.id, platform, contentType)}
+                                      className="text-gray-300 hover:bg-gray-700 hover:text-white cursor-pointer"
+                                    >
+                                      {contentType}
+                                      {isPlatformWebhookEnabled(platform) && ` ${getWebhookIcon(platform)}`}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            ))}
+                          </div>
+                        )}
+                        {getIdeaPlan(idea.id).some(item => item.status !== "planned") && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {getIdeaPlan(idea.id)
+                              .filter(item => item.status !== "planned")
+                              .map((item) => (
+                                <span
+                                  key={item.id}
+                                  className={`px-2 py-0.5 rounded text-xs ${planStatusStyles[item.status]}`}
+                                  title={item.requested_at ? `Requested ${new Date(item.requested_at).toLocaleString()}` : undefined}
                                 >
-                                  {contentType}
-                                  {isPlatformWebhookEnabled(platform) && ` ${getWebhookIcon(platform)}`}
-                                </DropdownMenuItem>
+                                  {item.platform}: {item.content_type} · {planStatusLabels[item.status]}
+                                </span>
                               ))}
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        ))}
-                      </div>
-                    )}
-                  </TableCell>
-                  <TableCell onClick={(e) => e.stopPropagation()}>
-                    <div className="flex gap-1">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleViewIdea(idea)}
-                        className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/20"
-                      >
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleEditIdea(idea)}
-                        className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/20"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteIdea(idea.id)}
-                        className="text-red-400 hover:text-red-300 hover:bg-red-500/20"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleViewIdea(idea)}
+                            className="text-blue-400 hover:text-blue-300 hover:bg-blue-500/20"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditIdea(idea)}
+                            className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/20"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteIdea(idea.id)}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-500/20"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
               ))}
             </TableBody>
           </Table>
         )}
 
+        {ideas.length > 0 && (
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+            <span>Showing {ideas.length} of {Math.max(totalCount, ideas.length)} ideas</span>
+            {hasMore && (
+              <Button
+                onClick={loadMoreIdeas}
+                disabled={loadingMore}
+                variant="outline"
+                className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                {loadingMore ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load More"
+                )}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Import Ideas Dialog */}
+        <ImportIdeasDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          userId={1} // Using demo user ID - replace with actual user when auth is implemented
+          onImport={handleImportIdeas}
+        />
+
+        {/* Merge Ideas Dialog */}
+        <MergeIdeasDialog
+          open={mergingIdeaId !== null}
+          onOpenChange={(open) => !open && setMergingIdeaId(null)}
+          duplicate={mergingIdea}
+          original={mergeTarget}
+          onMerge={mergeIdeas}
+          onDismiss={dismissDuplicate}
+        />
+
         {/* View Idea Dialog */}
         <Dialog open={isViewDialogOpen} onOpenChange={setIsViewDialogOpen}>
           <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl">
@@ -631,19 +1495,43 @@ const IdeasTab = () => {
                 <div>
                   <Label className="text-white">Status</Label>
                   <span className={`px-2 py-1 rounded-full text-sm ${getStatusColor(viewingIdea.status)}`}>
-                    {viewingIdea.status || 'new'}
+                    {ideaStatusLabels[viewingIdea.status as IdeaStatus] || viewingIdea.status}
                   </span>
+                  {viewingIdea.status_changed_at && (
+                    <span className="ml-2 text-xs text-gray-400">since {new Date(viewingIdea.status_changed_at).toLocaleString()}</span>
+                  )}
                 </div>
-                <div>
-                  <Label className="text-white">Priority Score</Label>
-                  <p className="text-gray-300">{viewingIdea.priority_score ? Math.round(viewingIdea.priority_score) : '5'}/10</p>
-                </div>
+                {viewingIdea.timeliness === "timely" && (
+                  <div>
+                    <Label className="text-white">Freshness</Label>
+                    <p className="text-gray-300 text-sm">
+                      Timely idea, priority {formatPriorityScore(effectivePriority(viewingIdea))}/10 after decay
+                      (originally {formatPriorityScore(viewingIdea.priority_score)}, halves every {viewingIdea.decay_half_life_days ?? DEFAULT_HALF_LIFE_DAYS} days).
+                      {viewingIdea.expires_at && ` Expires ${new Date(viewingIdea.expires_at).toLocaleDateString()}.`}
+                    </p>
+                  </div>
+                )}
+                <PriorityBreakdown
+                  idea={ideas.find(idea => idea.id === viewingIdea.id) || viewingIdea}
+                  onRecompute={() => recomputePriorityScores([viewingIdea.id])}
+                />
                 <div>
                   <Label className="text-white">Content</Label>
                   <div className="bg-white/5 border border-white/20 rounded-lg p-3 text-gray-300 max-h-60 overflow-y-auto">
                     {viewingIdea.content || 'No content'}
                   </div>
                 </div>
+                <IdeaProvenance
+                  idea={ideas.find(idea => idea.id === viewingIdea.id) || viewingIdea}
+                  source={sources.find(source => source.id === viewingIdea.source_id) || null}
+                />
+                <IdeaTagEditor
+                  ideaId={viewingIdea.id}
+                  tags={getIdeaTags(viewingIdea.id)}
+                  allTags={tags}
+                  onAdd={tagIdeas}
+                  onRemove={untagIdea}
+                />
                 <div>
                   <Label className="text-white">Created</Label>
                   <p className="text-gray-300">{formatDate(viewingIdea.created_at)}</p>
@@ -654,6 +1542,7 @@ const IdeasTab = () => {
                     <p className="text-gray-300">{formatDate(viewingIdea.used_at)}</p>
                   </div>
                 )}
+                <WebhookDeliveryHistory ideaId={viewingIdea.id} />
                 <div className="flex gap-2">
                   <Button
                     onClick={() => {
@@ -665,6 +1554,18 @@ const IdeasTab = () => {
                     <Edit className="h-4 w-4 mr-2" />
                     Edit Idea
                   </Button>
+                  {getAllowedTransitions(viewingIdea.status)
+                    .filter(status => transitionActionLabels[status])
+                    .map((status) => (
+                      <Button
+                        key={status}
+                        variant="outline"
+                        onClick={() => handleTransition(viewingIdea.id, status)}
+                        className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                      >
+                        {transitionActionLabels[status]}
+                      </Button>
+                    ))}
                 </div>
               </div>
             )}
@@ -718,6 +1619,81 @@ const IdeasTab = () => {
                   Use either Title + Description above, or Full Content here
                 </p>
               </div>
+
+              <div>
+                <Label className="text-white">Shelf Life</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  <Select value={editTimeliness} onValueChange={(value) => setEditTimeliness(value as Timeliness)}>
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      {TIMELINESS.map((option) => (
+                        <SelectItem key={option} value={option} className="text-white hover:bg-gray-700">
+                          {timelinessLabels[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    placeholder={`Half-life: ${DEFAULT_HALF_LIFE_DAYS} days`}
+                    value={editHalfLife}
+                    onChange={(e) => setEditHalfLife(e.target.value)}
+                    disabled={editTimeliness !== "timely"}
+                    className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                  />
+                  <Input
+                    type="date"
+                    value={editExpiresAt}
+                    onChange={(e) => setEditExpiresAt(e.target.value)}
+                    disabled={editTimeliness !== "timely"}
+                    title="Expiry date"
+                    className="bg-white/10 border-white/20 text-white"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-white">Derived From</Label>
+                <Select value={editSourceId} onValueChange={setEditSourceId}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue placeholder="Select source" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    <SelectItem value="none" className="text-white hover:bg-gray-700">No source</SelectItem>
+                    {sources.map((source) => (
+                      <SelectItem key={source.id} value={String(source.id)} className="text-white hover:bg-gray-700">
+                        {describeSource(source)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Link to the article or post the idea came from..."
+                  value={editSourceUrl}
+                  onChange={(e) => setEditSourceUrl(e.target.value)}
+                  className="mt-2 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                />
+                <Textarea
+                  placeholder="Excerpt that inspired the idea..."
+                  value={editSourceExcerpt}
+                  onChange={(e) => setEditSourceExcerpt(e.target.value)}
+                  className="mt-2 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                />
+              </div>
+
+              {editingIdea && (
+                <IdeaTagEditor
+                  ideaId={editingIdea.id}
+                  tags={getIdeaTags(editingIdea.id)}
+                  allTags={tags}
+                  onAdd={tagIdeas}
+                  onRemove={untagIdea}
+                />
+              )}
               
               <div className="flex gap-2">
                 <Button 
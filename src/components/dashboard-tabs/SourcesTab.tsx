@@ -6,7 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Globe, Trash2, RefreshCw, Loader2, Edit, Power, ChevronDown, ChevronUp } from "lucide-react";
+import { Plus, Globe, Trash2, RefreshCw, Loader2, Edit, Power, ChevronDown, ChevronUp, Lightbulb, Send } from "lucide-react";
 import { useState } from "react";
 import { useSources } from "@/hooks/useSources";
 import { useToast } from "@/hooks/use-toast";
@@ -19,7 +19,9 @@ const SourcesTab = () => {
     createSource, 
     deleteSource, 
     toggleSourceStatus,
-    fetchSources 
+    fetchSources,
+    fetchStats,
+    getSourceStats
   } = useSources();
 
   const [newSource, setNewSource] = useState("");
@@ -358,7 +360,10 @@ const SourcesTab = () => {
             </Dialog>
 
             <Button 
-              onClick={fetchSources}
+              onClick={() => {
+                fetchSources();
+                fetchStats();
+              }}
               variant="outline"
               className="bg-white/10 border-white/20 text-white hover:bg-white/20"
             >
@@ -419,8 +424,16 @@ const SourcesTab = () => {
                             )}
                           </div>
                         )}
-                        <div className="text-gray-500 text-xs mt-1">
-                          Added {formatDate(source.created_at)}
+                        <div className="flex items-center gap-3 text-gray-500 text-xs mt-1">
+                          <span>Added {formatDate(source.created_at)}</span>
+                          <span className="flex items-center" title="Ideas derived from this source">
+                            <Lightbulb className="h-3 w-3 mr-1" />
+                            {getSourceStats(source.id).idea_count} ideas
+                          </span>
+                          <span className="flex items-center" title="Published posts built on those ideas">
+                            <Send className="h-3 w-3 mr-1" />
+                            {getSourceStats(source.id).published_count} published
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -6,12 +6,12 @@ interface PrioritySettingsSectionProps {
   settings: {
     engagementWeight: number;
     relevanceWeight: number;
-    trendingWeight: number;
+    recencyWeight: number;
   };
   onUpdate: (settings: {
     engagementWeight: number;
     relevanceWeight: number;
-    trendingWeight: number;
+    recencyWeight: number;
   }) => void;
 }
 
@@ -63,19 +63,19 @@ const PrioritySettingsSection = ({ settings, onUpdate }: PrioritySettingsSection
 
       <div className="space-y-3">
         <div className="flex justify-between items-center">
-          <Label className="text-white">Trending Weight</Label>
-          <span className="text-sm text-gray-300">{(settings.trendingWeight * 100).toFixed(0)}%</span>
+          <Label className="text-white">Recency Weight</Label>
+          <span className="text-sm text-gray-300">{(settings.recencyWeight * 100).toFixed(0)}%</span>
         </div>
         <Slider
-          value={[settings.trendingWeight]}
-          onValueChange={(value) => handleSliderChange('trendingWeight', value)}
+          value={[settings.recencyWeight]}
+          onValueChange={(value) => handleSliderChange('recencyWeight', value)}
           min={0}
           max={1}
           step={0.1}
           className="w-full"
         />
         <p className="text-sm text-gray-400">
-          How much to prioritize trending topics and hashtags
+          How much to prioritize recently added ideas
         </p>
       </div>
     </div>
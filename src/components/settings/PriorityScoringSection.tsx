@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Gauge, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaceSettings } from "@/hooks/useWorkspaceSettings";
+import { weightsFromSettings } from "@/lib/priorityScoring";
+import PrioritySettingsSection from "@/components/form-sections/PrioritySettingsSection";
+
+const PriorityScoringSection = () => {
+  const { toast } = useToast();
+  const { settings, loading, updateSettings } = useWorkspaceSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [weights, setWeights] = useState({
+    engagementWeight: 0.5,
+    relevanceWeight: 0.5,
+    recencyWeight: 0.5
+  });
+
+  useEffect(() => {
+    const saved = weightsFromSettings(settings);
+    setWeights({
+      engagementWeight: saved.engagement,
+      relevanceWeight: saved.relevance,
+      recencyWeight: saved.recency
+    });
+  }, [settings]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        engagement_weight: weights.engagementWeight,
+        relevance_weight: weights.relevanceWeight,
+        recency_weight: weights.recencyWeight
+      });
+      toast({
+        title: "Success",
+        description: "Priority weights saved. Recompute scores on the Ideas tab to apply them."
+      });
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center text-white">
+          <Gauge className="mr-2 h-5 w-5" />
+          Priority Scoring
+        </CardTitle>
+        <p className="text-gray-300">
+          How idea priority scores are weighted. Engagement looks at how similar content performed, relevance at the leader's domain keywords and recency at how recently the idea was added (not yet at when its source was published).
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-white" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <PrioritySettingsSection settings={weights} onUpdate={setWeights} />
+            <Button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+            >
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save Weights
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PriorityScoringSection;
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { useWorkspaceSettings } from "@/hooks/useWorkspaceSettings";
+
+const SandboxModeSection = () => {
+  const { sandboxMode, loading, setSandboxMode } = useWorkspaceSettings();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggle = async (enabled: boolean) => {
+    setIsSaving(true);
+    try {
+      await setSandboxMode(enabled);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center text-white">
+          <FlaskConical className="mr-2 h-5 w-5" />
+          Sandbox Publishing
+        </CardTitle>
+        <p className="text-gray-300">
+          Simulate publishing to every platform without posting anything. Sandbox publications get a fake post ID and permalink, are kept apart from real ones and never mark content as published.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between p-4 bg-white/5 border border-white/20 rounded-lg">
+          <div>
+            <Label htmlFor="sandbox-mode" className="text-white">Sandbox mode</Label>
+            <p className="text-sm text-gray-400">
+              {sandboxMode ? "Publishing is simulated for this workspace." : "Publishing goes to the real platforms."}
+            </p>
+          </div>
+          {loading || isSaving ? (
+            <Loader2 className="h-5 w-5 animate-spin text-white" />
+          ) : (
+            <Switch
+              id="sandbox-mode"
+              checked={sandboxMode}
+              onCheckedChange={handleToggle}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SandboxModeSection;
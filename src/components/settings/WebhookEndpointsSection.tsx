@@ -0,0 +1,407 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, RefreshCw, Trash2, Edit, Save, Webhook, KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWebhookEndpoints } from "@/hooks/useWebhookEndpoints";
+import { useUsers } from "@/hooks/useUsers";
+import { generateWebhookSecret, webhookPurposes } from "@/lib/webhookEndpoints";
+import type { WebhookEndpoint } from "@/lib/supabase";
+
+// Select items cannot carry an empty value, so "no platform" and
+// "workspace default" get sentinel values that map back to null.
+const NO_PLATFORM = "none";
+const WORKSPACE_DEFAULT = "workspace";
+
+const platforms = [
+  { value: "linkedin", label: "LinkedIn" },
+  { value: "twitter", label: "Twitter" },
+  { value: "instagram", label: "Instagram" },
+  { value: "tiktok", label: "TikTok" },
+  { value: "facebook", label: "Facebook" },
+  { value: "youtube", label: "YouTube" }
+];
+
+const emptyForm = {
+  name: "",
+  purpose: "content_generation",
+  platform: NO_PLATFORM,
+  userId: WORKSPACE_DEFAULT,
+  url: "",
+  secret: "",
+  enabled: true
+};
+
+const WebhookEndpointsSection = () => {
+  const { toast } = useToast();
+  const {
+    endpoints,
+    loading,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    toggleEndpointEnabled,
+    fetchEndpoints
+  } = useWebhookEndpoints();
+  const { users } = useUsers();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [endpointForm, setEndpointForm] = useState(emptyForm);
+
+  const openCreateDialog = () => {
+    setEditingEndpoint(null);
+    setEndpointForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (endpoint: WebhookEndpoint) => {
+    setEditingEndpoint(endpoint);
+    setEndpointForm({
+      name: endpoint.name || "",
+      purpose: endpoint.purpose,
+      platform: endpoint.platform || NO_PLATFORM,
+      userId: endpoint.user_id ? String(endpoint.user_id) : WORKSPACE_DEFAULT,
+      url: endpoint.url,
+      secret: "",
+      enabled: endpoint.enabled
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!endpointForm.url.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a webhook URL",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      new URL(endpointForm.url.trim());
+    } catch {
+      toast({
+        title: "Error",
+        description: "Please enter a valid URL",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const endpointData = {
+      name: endpointForm.name.trim() || null,
+      purpose: endpointForm.purpose,
+      platform: endpointForm.platform === NO_PLATFORM ? null : endpointForm.platform,
+      user_id: endpointForm.userId === WORKSPACE_DEFAULT ? null : Number(endpointForm.userId),
+      url: endpointForm.url.trim(),
+      enabled: endpointForm.enabled,
+      // Secrets cannot be read back, so a blank field keeps the current one
+      ...(endpointForm.secret.trim() ? { secret: endpointForm.secret.trim() } : {})
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingEndpoint) {
+        await updateEndpoint(editingEndpoint.id, endpointData);
+      } else {
+        await createEndpoint(endpointData);
+      }
+      setIsDialogOpen(false);
+      setEditingEndpoint(null);
+      setEndpointForm(emptyForm);
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteEndpoint(id);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  const handleToggle = async (id: number) => {
+    try {
+      await toggleEndpointEnabled(id);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  const getPurposeLabel = (purpose: string) => {
+    return webhookPurposes.find(p => p.value === purpose)?.label || purpose;
+  };
+
+  const getPlatformLabel = (platform: string | null) => {
+    if (!platform) return "Any";
+    return platforms.find(p => p.value === platform)?.label || platform;
+  };
+
+  const getOwnerLabel = (userId: number | null) => {
+    if (!userId) return "Workspace default";
+    return users.find(u => u.id === userId)?.name || `User ${userId}`;
+  };
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center text-white">
+          <Webhook className="mr-2 h-5 w-5" />
+          Webhook Endpoints
+        </CardTitle>
+        <p className="text-gray-300">
+          Make.com scenarios used for content generation, publishing and onboarding, plus the secrets inbound callbacks must be signed with. A leader's own endpoint overrides the workspace default.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-4 flex gap-2">
+          <Button onClick={openCreateDialog} className="bg-green-600 hover:bg-green-700 text-white">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Endpoint
+          </Button>
+          <Button
+            onClick={fetchEndpoints}
+            variant="outline"
+            className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-white" />
+            <span className="ml-2 text-white">Loading webhook endpoints...</span>
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-300">No webhook endpoints configured yet.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-white/10">
+                <TableHead className="text-white">Name</TableHead>
+                <TableHead className="text-white">Purpose</TableHead>
+                <TableHead className="text-white">Platform</TableHead>
+                <TableHead className="text-white">Leader</TableHead>
+                <TableHead className="text-white">URL</TableHead>
+                <TableHead className="text-white">Secret</TableHead>
+                <TableHead className="text-white">Enabled</TableHead>
+                <TableHead className="text-white">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints.map((endpoint) => (
+                <TableRow key={endpoint.id} className="border-white/10">
+                  <TableCell className="text-white font-medium">{endpoint.name || `Endpoint ${endpoint.id}`}</TableCell>
+                  <TableCell className="text-gray-300">{getPurposeLabel(endpoint.purpose)}</TableCell>
+                  <TableCell className="text-gray-300">{getPlatformLabel(endpoint.platform)}</TableCell>
+                  <TableCell className="text-gray-300">{getOwnerLabel(endpoint.user_id)}</TableCell>
+                  <TableCell className="text-gray-300 max-w-xs">
+                    <div className="truncate font-mono text-xs" title={endpoint.url}>
+                      {endpoint.url}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-300 font-mono text-xs">
+                    {endpoint.has_secret ? "••••••••" : "None"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={endpoint.enabled}
+                      onCheckedChange={() => handleToggle(endpoint.id)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(endpoint)}
+                        className="text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/20"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(endpoint.id)}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/20"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Create / Edit Endpoint Dialog */}
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl">
+            <DialogHeader>
+              <DialogTitle className="text-white">
+                {editingEndpoint ? "Edit Webhook Endpoint" : "Add Webhook Endpoint"}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="endpoint-name" className="text-white">Name</Label>
+                <Input
+                  id="endpoint-name"
+                  placeholder="e.g. LinkedIn publishing"
+                  value={endpointForm.name}
+                  onChange={(e) => setEndpointForm(prev => ({ ...prev, name: e.target.value }))}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-white">Purpose *</Label>
+                  <Select value={endpointForm.purpose} onValueChange={(value) => setEndpointForm(prev => ({ ...prev, purpose: value }))}>
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue placeholder="Select purpose" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      {webhookPurposes.map((purpose) => (
+                        <SelectItem key={purpose.value} value={purpose.value} className="text-white hover:bg-gray-700">
+                          {purpose.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label className="text-white">Platform</Label>
+                  <Select value={endpointForm.platform} onValueChange={(value) => setEndpointForm(prev => ({ ...prev, platform: value }))}>
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue placeholder="Select platform" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value={NO_PLATFORM} className="text-white hover:bg-gray-700">Any</SelectItem>
+                      {platforms.map((platform) => (
+                        <SelectItem key={platform.value} value={platform.value} className="text-white hover:bg-gray-700">
+                          {platform.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label className="text-white">Leader</Label>
+                  <Select value={endpointForm.userId} onValueChange={(value) => setEndpointForm(prev => ({ ...prev, userId: value }))}>
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue placeholder="Select leader" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value={WORKSPACE_DEFAULT} className="text-white hover:bg-gray-700">Workspace default</SelectItem>
+                      {users.map((user) => (
+                        <SelectItem key={user.id} value={String(user.id)} className="text-white hover:bg-gray-700">
+                          {user.name || user.email || `User ${user.id}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="endpoint-url" className="text-white">URL *</Label>
+                <Input
+                  id="endpoint-url"
+                  placeholder="https://hook.eu2.make.com/..."
+                  value={endpointForm.url}
+                  onChange={(e) => setEndpointForm(prev => ({ ...prev, url: e.target.value }))}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 font-mono"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="endpoint-secret" className="text-white">Signing Secret</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="endpoint-secret"
+                    placeholder={editingEndpoint?.has_secret ? "Leave blank to keep the current secret" : "Shared HMAC secret for this endpoint"}
+                    value={endpointForm.secret}
+                    onChange={(e) => setEndpointForm(prev => ({ ...prev, secret: e.target.value }))}
+                    className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 font-mono"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setEndpointForm(prev => ({ ...prev, secret: generateWebhookSecret() }))}
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                  >
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Generate
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  Requests are signed with HMAC-SHA256 over <code>timestamp.body</code> and sent in the
+                  {" "}<code>X-Webhook-Signature</code> and <code>X-Webhook-Timestamp</code> headers. Copy the secret now; it cannot be shown again.
+                </p>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="endpoint-enabled"
+                  checked={endpointForm.enabled}
+                  onCheckedChange={(checked) => setEndpointForm(prev => ({ ...prev, enabled: checked }))}
+                />
+                <Label htmlFor="endpoint-enabled" className="text-white">Enabled</Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700"
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="h-4 w-4 mr-2" />
+                      {editingEndpoint ? "Save Changes" : "Create Endpoint"}
+                    </>
+                  )}
+                </Button>
+                <Button
+                  onClick={() => setIsDialogOpen(false)}
+                  variant="outline"
+                  className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhookEndpointsSection;
@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react'
+import { subscribeToTableChanges } from '@/lib/realtime'
+import { fetchCommentCounts, type CommentCounts } from '@/lib/contentComments'
+
+// Comment and open thread counts for every content item, kept current as
+// comments are added, resolved or deleted
+export function useCommentCounts() {
+  const [counts, setCounts] = useState<CommentCounts[]>([])
+
+  const fetchCounts = async () => {
+    try {
+      setCounts(await fetchCommentCounts())
+    } catch (err) {
+      console.error('Error fetching comment counts:', err)
+    }
+  }
+
+  const getCommentCounts = (contentId: number) => {
+    return counts.find(count => count.content_id === contentId) ?? {
+      content_id: contentId,
+      comment_count: 0,
+      open_thread_count: 0
+    }
+  }
+
+  useEffect(() => {
+    fetchCounts()
+
+    return subscribeToTableChanges('content_comments', '*', () => {
+      fetchCounts()
+    })
+  }, [])
+
+  return {
+    counts,
+    fetchCounts,
+    getCommentCounts
+  }
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react'
+import { supabase, type ContentComment } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { subscribeToTableChanges } from '@/lib/realtime'
+import { createAnchor, locateAnchor, type TextAnchor, type TextRange } from '@/lib/commentAnchors'
+import { anchorColumns, anchorOf, buildThreads, fetchContentComments, type CommentThread } from '@/lib/contentComments'
+
+export interface LocatedThread extends CommentThread {
+  // Where the thread sits in the current text; null once the text it was
+  // about is gone
+  range: TextRange | null
+}
+
+// Comment threads on one content item, placed on its current text. Threads
+// whose text moved are saved at their new place, so anchors keep up with
+// edits one step at a time instead of being matched against the original.
+export function useContentComments(contentId: number | null, text: string) {
+  const [comments, setComments] = useState<ContentComment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const mergeComments = (updated: ContentComment[]) => {
+    setComments(prev => [
+      ...prev.filter(comment => !updated.some(item => item.id === comment.id)),
+      ...updated
+    ])
+  }
+
+  const fetchComments = async () => {
+    if (!contentId) {
+      setComments([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setComments(await fetchContentComments(contentId))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch comments'
+      setError(errorMessage)
+      console.error('Error fetching comments:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const threads: LocatedThread[] = buildThreads(comments).map(thread => {
+    const anchor = anchorOf(thread.root)
+    return { ...thread, range: anchor ? locateAnchor(text, anchor) : null }
+  })
+
+  const insertComment = async (comment: Omit<ContentComment, 'id' | 'created_at' | 'updated_at' | 'resolved_at' | 'resolved_by'>) => {
+    try {
+      const { data, error } = await supabase
+        .from('content_comments')
+        .insert([comment])
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      if (data) {
+        mergeComments([data])
+        return data as ContentComment
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add comment'
+      console.error('Error adding comment:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Start a thread on a range of the text
+  const addThread = async (anchor: TextAnchor, body: string, authorId: number | null) => {
+    if (!contentId) return
+    return insertComment({
+      content_id: contentId,
+      parent_id: null,
+      author_id: authorId,
+      body: body.trim(),
+      ...anchorColumns(anchor)
+    })
+  }
+
+  const addReply = async (threadId: number, body: string, authorId: number | null) => {
+    if (!contentId) return
+    return insertComment({
+      content_id: contentId,
+      parent_id: threadId,
+      author_id: authorId,
+      body: body.trim(),
+      anchor_start: null,
+      anchor_end: null,
+      anchor_text: null,
+      anchor_prefix: null,
+      anchor_suffix: null
+    })
+  }
+
+  const updateComment = async (id: number, updates: Partial<ContentComment>, action: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('content_comments')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      if (data) {
+        mergeComments([data])
+        return data as ContentComment
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : `Failed to ${action}`
+      console.error(`Error trying to ${action}:`, err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  const setResolved = async (threadId: number, resolved: boolean, userId: number | null) => {
+    return updateComment(threadId, {
+      resolved_at: resolved ? new Date().toISOString() : null,
+      resolved_by: resolved ? userId : null
+    }, resolved ? 'resolve thread' : 'reopen thread')
+  }
+
+  // Deleting a thread starter deletes its replies with it
+  const deleteComment = async (id: number) => {
+    try {
+      const { error } = await supabase
+        .from('content_comments')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+
+      setComments(prev => prev.filter(comment => comment.id !== id && comment.parent_id !== id))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete comment'
+      console.error('Error deleting comment:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Load comments for the content and follow changes made by others
+  useEffect(() => {
+    fetchComments()
+    if (!contentId) return
+
+    return subscribeToTableChanges<ContentComment>('content_comments', '*', (change) => {
+      if (change.eventType === 'DELETE') {
+        const id = change.old.id
+        setComments(prev => prev.filter(comment => comment.id !== id && comment.parent_id !== id))
+      } else if (change.new.content_id === contentId) {
+        mergeComments([change.new])
+      }
+    })
+  }, [contentId])
+
+  // Save threads whose text or surroundings changed at their new place
+  useEffect(() => {
+    if (loading) return
+
+    for (const { root, range } of threads) {
+      if (!range) continue
+
+      const columns = anchorColumns(createAnchor(text, range.start, range.end))
+      const unchanged = (Object.keys(columns) as (keyof typeof columns)[])
+        .every(column => root[column] === columns[column])
+      if (unchanged) continue
+
+      supabase
+        .from('content_comments')
+        .update(columns)
+        .eq('id', root.id)
+        .then(({ error }) => {
+          if (error) {
+            console.error('Error moving comment anchor:', error)
+          } else {
+            mergeComments([{ ...root, ...columns }])
+          }
+        })
+    }
+  }, [comments, text, loading])
+
+  return {
+    comments,
+    threads,
+    loading,
+    error,
+    fetchComments,
+    addThread,
+    addReply,
+    setResolved,
+    deleteComment
+  }
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react'
+import { supabase, type ContentPlanItem } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { subscribeToTableChanges } from '@/lib/realtime'
+
+// Items that still have to be submitted; failed ones can be retried
+export const isOpenPlanItem = (item: ContentPlanItem) => item.status === 'planned' || item.status === 'failed'
+
+// The platforms and content types planned for each idea. Items survive
+// reloads, can be changed until they are submitted, and are marked drafted
+// by the database when their draft lands in `contents`.
+export function useContentPlan() {
+  const [planItems, setPlanItems] = useState<ContentPlanItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const mergeItems = (items: ContentPlanItem[]) => {
+    setPlanItems(prev => [
+      ...prev.filter(item => !items.some(updated => updated.id === item.id)),
+      ...items
+    ])
+  }
+
+  // Fetch all plan items
+  const fetchPlan = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error } = await supabase
+        .from('content_plan_items')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw error
+      }
+
+      setPlanItems(data || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch content plan'
+      setError(errorMessage)
+      console.error('Error fetching content plan:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getIdeaPlan = (ideaId: number) => {
+    return planItems.filter(item => item.idea_id === ideaId)
+  }
+
+  // Plan a content type for an idea on a platform, replacing any earlier pick
+  const planContent = async (ideaId: number, platform: string, contentType: string, userId: number | null) => {
+    try {
+      const { data, error } = await supabase
+        .from('content_plan_items')
+        .upsert([{
+          idea_id: ideaId,
+          platform,
+          content_type: contentType,
+          user_id: userId,
+          status: 'planned',
+          requested_at: null,
+          drafted_at: null,
+          content_id: null,
+          updated_at: new Date().toISOString()
+        }], { onConflict: 'idea_id,platform' })
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      mergeItems([data as ContentPlanItem])
+      return data as ContentPlanItem
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update content plan'
+      console.error('Error planning content:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Drop an idea's plan for a platform
+  const removePlanItem = async (ideaId: number, platform: string) => {
+    try {
+      const { error } = await supabase
+        .from('content_plan_items')
+        .delete()
+        .eq('idea_id', ideaId)
+        .eq('platform', platform)
+
+      if (error) {
+        throw error
+      }
+
+      setPlanItems(prev => prev.filter(item => !(item.idea_id === ideaId && item.platform === platform)))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update content plan'
+      console.error('Error removing plan item:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Record the outcome of submitting plan items. Only open items are
+  // touched, so a draft that already arrived is not reset.
+  const markPlanItems = async (itemIds: number[], status: 'requested' | 'failed') => {
+    if (itemIds.length === 0) return []
+
+    try {
+      const now = new Date().toISOString()
+      const { data, error } = await supabase
+        .from('content_plan_items')
+        .update({
+          status,
+          updated_at: now,
+          ...(status === 'requested' ? { requested_at: now } : {})
+        })
+        .in('id', itemIds)
+        .in('status', ['planned', 'failed'])
+        .select()
+
+      if (error) {
+        throw error
+      }
+
+      mergeItems((data || []) as ContentPlanItem[])
+      return (data || []) as ContentPlanItem[]
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update content plan'
+      console.error('Error updating plan items:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Load the plan on mount and follow changes from other sessions and drafts
+  useEffect(() => {
+    fetchPlan()
+
+    return subscribeToTableChanges<ContentPlanItem>('content_plan_items', '*', (change) => {
+      if (change.eventType === 'DELETE') {
+        setPlanItems(prev => prev.filter(item => item.id !== change.old.id))
+      } else {
+        mergeItems([change.new])
+      }
+    })
+  }, [])
+
+  return {
+    planItems,
+    loading,
+    error,
+    fetchPlan,
+    getIdeaPlan,
+    planContent,
+    removePlanItem,
+    markPlanItems
+  }
+}
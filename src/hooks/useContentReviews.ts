@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react'
+import type { ContentReview } from '@/lib/supabase'
+import { fetchContentReviews } from '@/lib/contentReview'
+
+// Review history of one content item. Pass the current status so the
+// history reloads after every submission or review.
+export function useContentReviews(contentId: number | null, currentStatus?: string | null) {
+  const [reviews, setReviews] = useState<ContentReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReviews = async () => {
+    if (!contentId) {
+      setReviews([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setReviews(await fetchContentReviews(contentId))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch reviews'
+      setError(errorMessage)
+      console.error('Error fetching reviews:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Load reviews when the content or its status changes
+  useEffect(() => {
+    fetchReviews()
+  }, [contentId, currentStatus])
+
+  return {
+    reviews,
+    loading,
+    error,
+    fetchReviews
+  }
+}
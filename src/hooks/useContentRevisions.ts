@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react'
+import type { ContentRevision } from '@/lib/supabase'
+import { fetchContentRevisions } from '@/lib/contentRevisions'
+
+// Revision history of one content item. Pass the current text so the
+// history reloads after every save or restore.
+export function useContentRevisions(contentId: number | null, currentContent?: string | null) {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRevisions = async () => {
+    if (!contentId) {
+      setRevisions([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setRevisions(await fetchContentRevisions(contentId))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch revisions'
+      setError(errorMessage)
+      console.error('Error fetching revisions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Load revisions when the content or its text changes
+  useEffect(() => {
+    fetchRevisions()
+  }, [contentId, currentContent])
+
+  return {
+    revisions,
+    loading,
+    error,
+    fetchRevisions
+  }
+}
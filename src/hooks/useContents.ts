@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
+import { supabase, type ContentPublication, type ContentPublicationInsert } from '@/lib/supabase'
 import { useToast } from '@/hooks/use-toast'
+import { createSandboxPublisher, getPublisher, publishFailed, type PublishResult } from '@/lib/publishers'
+import { isSandboxModeEnabled } from '@/lib/workspaceSettings'
+import { generateContentDrafts, type ContentTarget } from '@/lib/contentGeneration'
+import { subscribeToTableChanges } from '@/lib/realtime'
+import { restoreContentRevision } from '@/lib/contentRevisions'
+import { checkPlatformRules, describeRuleErrors } from '@/lib/platformRules'
+import { getContentStatusLabel, isPublishable, recordReviewDecision, submitContentForReview, type ReviewDecision } from '@/lib/contentReview'
 
 export interface Content {
   id: number
@@ -12,6 +19,9 @@ export interface Content {
   content_url: string | null
   status: string | null
   content: string | null
+  edited_by: number | null
+  media_url: string | null
+  reviewer_id: number | null
 }
 
 export interface ContentInsert {
@@ -22,6 +32,9 @@ export interface ContentInsert {
   content_url?: string | null
   status?: string | null
   content?: string | null
+  edited_by?: number | null
+  media_url?: string | null
+  reviewer_id?: number | null
 }
 
 export interface ContentUpdate {
@@ -32,10 +45,14 @@ export interface ContentUpdate {
   content_url?: string | null
   status?: string | null
   content?: string | null
+  edited_by?: number | null
+  media_url?: string | null
+  reviewer_id?: number | null
 }
 
 export function useContents() {
   const [contents, setContents] = useState<Content[]>([])
+  const [publications, setPublications] = useState<ContentPublication[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { toast } = useToast()
@@ -70,6 +87,83 @@ export function useContents() {
     }
   }
 
+  // Fetch per-platform publication records
+  const fetchPublications = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('content_publications')
+        .select('*')
+        .order('updated_at', { ascending: false })
+
+      if (error) {
+        throw error
+      }
+
+      setPublications(data || [])
+    } catch (err) {
+      console.error('Error fetching content publications:', err)
+    }
+  }
+
+  // Publication records for a single content item
+  const getContentPublications = (contentId: number) => {
+    return publications.filter(publication => publication.content_id === contentId)
+  }
+
+  // Store one record per content and platform pair. A failed retry does not
+  // downgrade a platform the content is already live on.
+  const recordPublications = async (results: PublishResult[]) => {
+    const now = new Date().toISOString()
+    const rows: ContentPublicationInsert[] = results
+      .filter(result => contents.some(content => content.id === result.contentId))
+      .map(result => {
+        const existing = publications.find(publication =>
+          publication.content_id === result.contentId && publication.platform === result.platform
+        )
+
+        if (!result.success && existing?.state === 'published') {
+          return {
+            content_id: existing.content_id,
+            platform: existing.platform,
+            state: existing.state,
+            external_post_id: existing.external_post_id,
+            permalink: existing.permalink,
+            published_at: existing.published_at,
+            error: result.error,
+            updated_at: now
+          }
+        }
+
+        return {
+          content_id: result.contentId,
+          platform: result.platform,
+          state: result.success ? 'published' : 'failed',
+          external_post_id: result.externalPostId,
+          permalink: result.permalink,
+          published_at: result.success ? now : null,
+          error: result.error,
+          updated_at: now
+        }
+      })
+
+    if (rows.length === 0) return
+
+    const { data, error } = await supabase
+      .from('content_publications')
+      .upsert(rows, { onConflict: 'content_id,platform' })
+      .select()
+
+    if (error) {
+      throw error
+    }
+
+    const saved = data || []
+    setPublications(prev => [
+      ...saved,
+      ...prev.filter(publication => !saved.some(row => row.id === publication.id))
+    ])
+  }
+
   // Create new content
   const createContent = async (contentData: ContentInsert) => {
     try {
@@ -140,6 +234,77 @@ export function useContents() {
     }
   }
 
+  // Put back the text of an earlier revision
+  const restoreRevision = async (revisionId: number, authorId: number | null) => {
+    try {
+      const data = await restoreContentRevision(revisionId, authorId)
+
+      setContents(prev => prev.map(content => content.id === data.id ? data : content))
+      toast({
+        title: "Revision Restored",
+        description: "The content was rolled back to the selected revision"
+      })
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore revision'
+      console.error('Error restoring revision:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Hand content to a reviewer; also reassigns content already in review
+  const submitForReview = async (id: number, reviewerId: number, authorId: number | null, comment?: string) => {
+    try {
+      const data = await submitContentForReview(id, reviewerId, authorId, comment || null)
+
+      setContents(prev => prev.map(content => content.id === data.id ? data : content))
+      toast({
+        title: "Submitted for Review",
+        description: "The reviewer can find it under \"Needs my review\""
+      })
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit content for review'
+      console.error('Error submitting content for review:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Approve content or send it back to its writer
+  const reviewContent = async (id: number, reviewerId: number, decision: ReviewDecision, comment?: string) => {
+    try {
+      const data = await recordReviewDecision(id, reviewerId, decision, comment || null)
+
+      setContents(prev => prev.map(content => content.id === data.id ? data : content))
+      toast({
+        title: decision === 'approved' ? "Content Approved" : "Changes Requested",
+        description: decision === 'approved'
+          ? "The content can now be published or scheduled"
+          : "The content went back to its writer"
+      })
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to review content'
+      console.error('Error reviewing content:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
   // Delete content
   const deleteContent = async (id: number) => {
     try {
@@ -169,31 +334,120 @@ export function useContents() {
     }
   }
 
-  // Publish content to selected platforms
+  // Publish content to selected platforms through the registered publishers.
+  // In sandbox mode every platform goes to the simulated publisher instead and
+  // content keeps its status, so nothing looks published for real. Content
+  // that was not approved is refused either way.
   const publishContent = async (contentIds: number[], platforms: string[]) => {
     try {
-      // For demo purposes, we'll just update the status to 'published'
-      // In a real app, this would integrate with actual social media APIs
-      const { error } = await supabase
-        .from('contents')
-        .update({ status: 'published' })
-        .in('id', contentIds)
+      const results: PublishResult[] = []
+      const sandbox = await isSandboxModeEnabled()
 
-      if (error) {
-        throw error
+      for (const contentId of contentIds) {
+        const content = contents.find(item => item.id === contentId)
+        for (const platform of platforms) {
+          const publisher = sandbox ? createSandboxPublisher(platform) : getPublisher(platform)
+          const check = content ? checkPlatformRules(content, platform) : null
+          if (!content) {
+            results.push(publishFailed(platform, contentId, 'Content not found'))
+          } else if (!isPublishable(content.status)) {
+            results.push(publishFailed(platform, contentId, `Content #${contentId} is ${getContentStatusLabel(content.status).toLowerCase()}, only approved content can be published`))
+          } else if (check && !check.passed) {
+            // Rules apply in sandbox mode too, so a demo shows what would be rejected
+            results.push(publishFailed(platform, contentId, `Blocked by ${check.rules?.label || platform} rules: ${describeRuleErrors(check)}`))
+          } else if (!publisher) {
+            results.push(publishFailed(platform, contentId, `No publisher configured for ${platform}`))
+          } else {
+            results.push(await publisher.publish(content))
+          }
+        }
       }
 
-      // Update local state
-      setContents(prev => prev.map(content => 
-        contentIds.includes(content.id) 
-          ? { ...content, status: 'published' }
-          : content
-      ))
+      // Only content that reached at least one platform counts as published
+      const publishedIds = [...new Set(results.filter(r => r.success).map(r => r.contentId))]
 
-      toast({
-        title: "Success",
-        description: `Published ${contentIds.length} content items to ${platforms.join(", ")}`
-      })
+      if (sandbox && publishedIds.length > 0) {
+        const simulatedPlatforms = [...new Set(results.filter(r => r.success).map(r => r.platform))]
+        toast({
+          title: "Sandbox",
+          description: `Simulated publishing ${publishedIds.length} content items to ${simulatedPlatforms.join(", ")} - nothing was posted`
+        })
+      }
+
+      if (!sandbox) {
+        await recordPublications(results)
+      }
+
+      if (!sandbox && publishedIds.length > 0) {
+        // content_url points at the live post: the permalink for the content's
+        // own platform when there is one, otherwise the first one we got back
+        const updates = publishedIds.map(contentId => {
+          const content = contents.find(item => item.id === contentId)
+          const withPermalink = results.filter(r => r.success && r.contentId === contentId && r.permalink)
+          const permalink = (
+            withPermalink.find(r => r.platform === content?.platform) || withPermalink[0]
+          )?.permalink
+
+          return {
+            id: contentId,
+            changes: permalink
+              ? { status: 'published', content_url: permalink }
+              : { status: 'published' }
+          }
+        })
+
+        for (const update of updates) {
+          const { error } = await supabase
+            .from('contents')
+            .update(update.changes)
+            .eq('id', update.id)
+
+          if (error) {
+            throw error
+          }
+        }
+
+        // Update local state
+        setContents(prev => prev.map(content => {
+          const update = updates.find(item => item.id === content.id)
+          return update ? { ...content, ...update.changes } : content
+        }))
+
+        // Ideas behind published drafts have been used
+        const ideaIds = [...new Set(
+          contents
+            .filter(content => publishedIds.includes(content.id) && content.idea_id !== null)
+            .map(content => content.idea_id as number)
+        )]
+        if (ideaIds.length > 0) {
+          const { error } = await supabase
+            .from('ideas')
+            .update({ status: 'used' })
+            .in('id', ideaIds)
+            .eq('status', 'drafted')
+
+          if (error) {
+            throw error
+          }
+        }
+
+        const publishedPlatforms = [...new Set(results.filter(r => r.success).map(r => r.platform))]
+        toast({
+          title: "Success",
+          description: `Published ${publishedIds.length} content items to ${publishedPlatforms.join(", ")}`
+        })
+      }
+
+      const failures = results.filter(r => !r.success)
+      if (failures.length > 0) {
+        toast({
+          title: "Publishing Errors",
+          description: [...new Set(failures.map(f => f.error))].join('; '),
+          variant: "destructive"
+        })
+      }
+
+      return results
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to publish content'
       console.error('Error publishing content:', err)
@@ -206,42 +460,33 @@ export function useContents() {
     }
   }
 
-  // Generate more content (placeholder function)
-  const generateMoreContent = async () => {
+  // Generate drafts from the user's unused ideas with the active content prompt
+  const generateMoreContent = async (userId: number, options: { limit?: number; targets?: ContentTarget[] } = {}) => {
     try {
-      // This is a placeholder - in a real app, this would call your AI content generation API
-      const sampleContents = [
-        {
-          content: "AI is revolutionizing healthcare with predictive analytics and personalized treatment plans.",
-          platform: "linkedin",
-          type: "article",
-          status: "draft",
-          user_id: 1
-        },
-        {
-          content: "The future of remote work: 5 trends shaping the digital workplace",
-          platform: "twitter",
-          type: "tweet",
-          status: "draft",
-          user_id: 1
-        },
-        {
-          content: "Sustainable fashion brands are leading the way in eco-conscious consumer choices",
-          platform: "instagram",
-          type: "post",
-          status: "draft",
-          user_id: 1
-        }
-      ]
+      const { contents: drafts, skipped } = await generateContentDrafts(userId, options)
 
-      for (const contentData of sampleContents) {
-        await createContent(contentData)
-      }
+      // The realtime subscription may already have added some of these
+      setContents(prev => [
+        ...drafts,
+        ...prev.filter(content => !drafts.some(draft => draft.id === content.id))
+      ])
 
       toast({
-        title: "Success",
-        description: `Generated ${sampleContents.length} new content pieces`
+        title: drafts.length > 0 ? "Success" : "Nothing to generate",
+        description: drafts.length > 0
+          ? `Generated ${drafts.length} drafts from ${new Set(drafts.map(draft => draft.idea_id)).size} ideas`
+          : "There are no unused ideas to generate content from"
       })
+
+      if (skipped.length > 0) {
+        toast({
+          title: "Generation Errors",
+          description: `${skipped.length} ideas could not be drafted: ${[...new Set(skipped.map(item => item.error))].join('; ')}`,
+          variant: "destructive"
+        })
+      }
+
+      return drafts
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to generate content'
       console.error('Error generating content:', err)
@@ -254,18 +499,30 @@ export function useContents() {
     }
   }
 
-  // Load contents on mount
+  // Load contents on mount and pick up drafts inserted by the generation callback
   useEffect(() => {
     fetchContents()
+    fetchPublications()
+
+    return subscribeToTableChanges<Content>('contents', 'INSERT', (change) => {
+      const inserted = change.new
+      setContents(prev => prev.some(content => content.id === inserted.id) ? prev : [inserted, ...prev])
+    })
   }, [])
 
   return {
     contents,
+    publications,
     loading,
     error,
     fetchContents,
+    fetchPublications,
+    getContentPublications,
     createContent,
     updateContent,
+    restoreRevision,
+    submitForReview,
+    reviewContent,
     deleteContent,
     publishContent,
     generateMoreContent
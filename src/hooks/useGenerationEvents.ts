@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react'
+import type { Content } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { subscribeToTableChanges } from '@/lib/realtime'
+
+// Listens for drafts written by the generation callback and announces them,
+// so the Ideas and Content tabs can show "generation complete" live.
+export function useGenerationEvents() {
+  const [completedIdeaIds, setCompletedIdeaIds] = useState<number[]>([])
+  const [newContentIds, setNewContentIds] = useState<number[]>([])
+  const { toast } = useToast()
+
+  const clearGenerationEvents = () => {
+    setCompletedIdeaIds([])
+    setNewContentIds([])
+  }
+
+  useEffect(() => {
+    return subscribeToTableChanges<Content>('contents', 'INSERT', (change) => {
+      const content = change.new
+      if (!content.idea_id) return
+
+      setCompletedIdeaIds(prev => prev.includes(content.idea_id!) ? prev : [...prev, content.idea_id!])
+      setNewContentIds(prev => [...prev, content.id])
+      toast({
+        title: "Generation Complete",
+        description: `New ${content.platform || ''} ${content.type || 'content'} draft is ready for idea #${content.idea_id}`
+      })
+    })
+  }, [])
+
+  return {
+    completedIdeaIds,
+    newContentIds,
+    clearGenerationEvents
+  }
+}
@@ -1,29 +1,62 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { supabase, type Idea, type IdeaInsert, type IdeaUpdate } from '@/lib/supabase'
 import { useToast } from '@/hooks/use-toast'
+import { generateIdeas as requestGeneratedIdeas } from '@/lib/ideaGeneration'
+import { fetchScoringContext, scoreIdea } from '@/lib/priorityScoring'
+import { mergeIdeas as mergeIdeaRecords } from '@/lib/ideaDuplicates'
+import { archiveExpiredIdeas } from '@/lib/ideaFreshness'
+import { countIdeasByStatus, fetchAllIdeas, fetchIdeasByIds, searchIdeas, type IdeaCursor, type IdeaFilters, type IdeaSort } from '@/lib/ideaSearch'
+import { assertTransition, canTransition, ideaStatusLabels, InvalidIdeaTransitionError, type IdeaStatus } from '@/lib/ideaLifecycle'
+
+// Score updates sent at once when recomputing many ideas
+const SCORE_UPDATE_BATCH_SIZE = 50
 
 export function useIdeas() {
   const [ideas, setIdeas] = useState<Idea[]>([])
+  const [filters, setFilters] = useState<IdeaFilters>({})
+  const [sort, setSort] = useState<IdeaSort>('created_desc')
+  const [nextCursor, setNextCursor] = useState<IdeaCursor | null>(null)
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({})
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const expiredArchived = useRef(false)
   const { toast } = useToast()
 
-  // Fetch all ideas
+  // Archive expired timely ideas once per session, in case no scheduled job
+  // has done it yet
+  const archiveExpired = async () => {
+    if (expiredArchived.current) return
+    expiredArchived.current = true
+
+    try {
+      const archivedIds = await archiveExpiredIdeas()
+      if (archivedIds.length > 0) {
+        toast({
+          title: "Expired Ideas Archived",
+          description: `${archivedIds.length} timely ideas passed their expiry and were archived`
+        })
+      }
+    } catch (err) {
+      console.error('Error archiving expired ideas:', err)
+    }
+  }
+
+  // Fetch the first page of ideas matching the current filters and sort
   const fetchIdeas = async () => {
     try {
       setLoading(true)
       setError(null)
-      
-      const { data, error } = await supabase
-        .from('ideas')
-        .select('*')
-        .order('created_at', { ascending: false })
+      await archiveExpired()
 
-      if (error) {
-        throw error
-      }
+      const [page, counts] = await Promise.all([
+        searchIdeas(filters, sort),
+        countIdeasByStatus(filters)
+      ])
 
-      setIdeas(data || [])
+      setIdeas(page.ideas)
+      setNextCursor(page.nextCursor)
+      setStatusCounts(counts)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch ideas'
       setError(errorMessage)
@@ -38,6 +71,37 @@ export function useIdeas() {
     }
   }
 
+  // Status counts change with every create, move or delete
+  const refreshStatusCounts = () => {
+    countIdeasByStatus(filters)
+      .then(setStatusCounts)
+      .catch(err => console.error('Error counting ideas:', err))
+  }
+
+  // Append the next page of ideas
+  const loadMoreIdeas = async () => {
+    if (!nextCursor || loadingMore) return
+
+    try {
+      setLoadingMore(true)
+      const page = await searchIdeas(filters, sort, nextCursor)
+
+      // Skip ideas that were added locally since the first page loaded
+      setIdeas(prev => [...prev, ...page.ideas.filter(idea => !prev.some(item => item.id === idea.id))])
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load more ideas'
+      console.error('Error loading more ideas:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   // Create a new idea
   const createIdea = async (ideaData: IdeaInsert) => {
     try {
@@ -57,10 +121,17 @@ export function useIdeas() {
 
       if (data) {
         setIdeas(prev => [data, ...prev])
-        toast({
-          title: "Success",
-          description: "Idea created successfully"
-        })
+        refreshStatusCounts()
+        // The database flags near-duplicates on insert
+        toast(data.duplicate_of
+          ? {
+              title: "Possible Duplicate",
+              description: `Idea created, but it looks like idea #${data.duplicate_of}. Review it in the ideas list.`
+            }
+          : {
+              title: "Success",
+              description: "Idea created successfully"
+            })
         return data
       }
     } catch (err) {
@@ -75,28 +146,55 @@ export function useIdeas() {
     }
   }
 
-  // Update an idea
+  // Update an idea. Status changes go through the lifecycle rules, and only
+  // apply if nobody moved the idea in the meantime.
   const updateIdea = async (id: number, updates: IdeaUpdate) => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('ideas')
         .update(updates)
         .eq('id', id)
+
+      if (updates.status !== undefined) {
+        const { data: current, error: currentError } = await supabase
+          .from('ideas')
+          .select('status')
+          .eq('id', id)
+          .single()
+
+        if (currentError) {
+          throw currentError
+        }
+
+        if (current.status !== updates.status) {
+          assertTransition(current.status, updates.status as IdeaStatus)
+        }
+        query = query.eq('status', current.status)
+      }
+
+      const { data, error } = await query
         .select()
-        .single()
+        .maybeSingle()
 
       if (error) {
         throw error
       }
 
-      if (data) {
-        setIdeas(prev => prev.map(idea => idea.id === id ? data : idea))
-        toast({
-          title: "Success",
-          description: "Idea updated successfully"
-        })
-        return data
+      if (!data) {
+        throw new Error('The idea changed while it was being updated, refresh and try again')
+      }
+
+      setIdeas(prev => prev.map(idea => idea.id === id ? data : idea))
+      if (updates.status !== undefined) {
+        refreshStatusCounts()
       }
+      toast({
+        title: "Success",
+        description: updates.status !== undefined
+          ? `Idea moved to ${ideaStatusLabels[updates.status as IdeaStatus] || updates.status}`
+          : "Idea updated successfully"
+      })
+      return data as Idea
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update idea'
       console.error('Error updating idea:', err)
@@ -122,6 +220,7 @@ export function useIdeas() {
       }
 
       setIdeas(prev => prev.filter(idea => idea.id !== id))
+      refreshStatusCounts()
       toast({
         title: "Success",
         description: "Idea deleted successfully"
@@ -138,35 +237,215 @@ export function useIdeas() {
     }
   }
 
-  // Mark ideas as used
-  const markIdeasAsUsed = async (ideaIds: number[]) => {
+  // Move ideas to another lifecycle state. Transitions are checked against the
+  // statuses currently stored, and ideas that cannot make the move are skipped.
+  const transitionIdeas = async (ideaIds: number[], to: IdeaStatus, options: { quiet?: boolean } = {}) => {
     try {
-      const { error } = await supabase
+      const { data: current, error: currentError } = await supabase
         .from('ideas')
-        .update({ 
-          status: 'used', 
-          used_at: new Date().toISOString() 
-        })
+        .select('id, status')
         .in('id', ideaIds)
 
+      if (currentError) {
+        throw currentError
+      }
+
+      const allowed = (current || []).filter(idea => canTransition(idea.status, to))
+      const skipped = (current || []).filter(idea => !canTransition(idea.status, to))
+
+      if (allowed.length === 0 && skipped.length > 0) {
+        throw new InvalidIdeaTransitionError(skipped[0].status, to)
+      }
+
+      // Group by the status we validated against so a concurrent change is
+      // not silently overwritten
+      const byStatus = new Map<string, number[]>()
+      allowed.forEach(idea => byStatus.set(idea.status, [...(byStatus.get(idea.status) || []), idea.id]))
+
+      const updated: Idea[] = []
+      for (const [from, ids] of byStatus) {
+        const { data, error } = await supabase
+          .from('ideas')
+          .update({ status: to })
+          .in('id', ids)
+          .eq('status', from)
+          .select()
+
+        if (error) {
+          throw error
+        }
+
+        updated.push(...(data || []))
+      }
+
+      setIdeas(prev => prev.map(idea => updated.find(item => item.id === idea.id) || idea))
+      refreshStatusCounts()
+
+      if (!options.quiet) {
+        toast({
+          title: "Success",
+          description: `Moved ${updated.length} ideas to ${ideaStatusLabels[to]}`
+        })
+      }
+      if (skipped.length > 0) {
+        toast({
+          title: "Some Ideas Skipped",
+          description: `${skipped.length} ideas cannot move to ${ideaStatusLabels[to]} from their current state`,
+          variant: "destructive"
+        })
+      }
+
+      return updated
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update idea status'
+      console.error('Error transitioning ideas:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Bulk insert validated ideas, e.g. from an import file
+  const importIdeas = async (rows: IdeaInsert[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('ideas')
+        .insert(rows)
+        .select()
+
       if (error) {
         throw error
       }
 
-      // Update local state
-      setIdeas(prev => prev.map(idea => 
-        ideaIds.includes(idea.id) 
-          ? { ...idea, status: 'used', used_at: new Date().toISOString() }
+      const imported = data || []
+      setIdeas(prev => [...imported, ...prev])
+      refreshStatusCounts()
+      const duplicates = imported.filter(idea => idea.duplicate_of !== null).length
+      toast({
+        title: "Success",
+        description: duplicates > 0
+          ? `Imported ${imported.length} ideas, ${duplicates} flagged as possible duplicates`
+          : `Imported ${imported.length} ideas`
+      })
+      return imported
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import ideas'
+      console.error('Error importing ideas:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Generate new ideas from the active idea prompt, the user's domain and sources
+  const generateIdeas = async (userId: number, count = 5) => {
+    try {
+      const { ideas: generated } = await requestGeneratedIdeas(userId, count)
+
+      setIdeas(prev => [
+        ...generated,
+        ...prev.filter(idea => !generated.some(item => item.id === idea.id))
+      ])
+      refreshStatusCounts()
+      const duplicates = generated.filter(idea => idea.duplicate_of !== null).length
+      toast({
+        title: "Success",
+        description: duplicates > 0
+          ? `Generated ${generated.length} new ideas, ${duplicates} flagged as possible duplicates`
+          : `Generated ${generated.length} new ideas`
+      })
+      return generated
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate ideas'
+      console.error('Error generating ideas:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Merge a duplicate into the idea that is kept
+  const mergeIdeas = async (keepId: number, mergeId: number, content: string | null = null) => {
+    try {
+      const data = await mergeIdeaRecords(keepId, mergeId, content)
+
+      setIdeas(prev => prev
+        .filter(idea => idea.id !== mergeId)
+        .map(idea => {
+          if (idea.id === keepId) return data
+          return idea.duplicate_of === mergeId ? { ...idea, duplicate_of: keepId } : idea
+        }))
+      refreshStatusCounts()
+      toast({
+        title: "Success",
+        description: `Merged idea #${mergeId} into #${keepId}`
+      })
+      return data
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to merge ideas'
+      console.error('Error merging ideas:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Clear a duplicate flag the user disagrees with
+  const dismissDuplicate = async (id: number) => {
+    return updateIdea(id, { duplicate_of: null, duplicate_similarity: null })
+  }
+
+  // Recompute priority scores from the current weights and signals, for the
+  // given ideas or for every idea, loaded or not
+  const recomputePriorityScores = async (ideaIds?: number[]) => {
+    try {
+      const [context, targets] = await Promise.all([
+        fetchScoringContext(),
+        ideaIds ? fetchIdeasByIds(ideaIds) : fetchAllIdeas({})
+      ])
+      const scores = new Map(targets.map(idea => [idea.id, Number(scoreIdea(idea, context).score.toFixed(4))]))
+      const entries = Array.from(scores)
+
+      for (let index = 0; index < entries.length; index += SCORE_UPDATE_BATCH_SIZE) {
+        const results = await Promise.all(
+          entries.slice(index, index + SCORE_UPDATE_BATCH_SIZE).map(([id, priority_score]) =>
+            supabase
+              .from('ideas')
+              .update({ priority_score })
+              .eq('id', id)
+          )
+        )
+
+        const failed = results.find(result => result.error)
+        if (failed?.error) {
+          throw failed.error
+        }
+      }
+
+      setIdeas(prev => prev.map(idea =>
+        scores.has(idea.id)
+          ? { ...idea, priority_score: scores.get(idea.id)! }
           : idea
       ))
-
       toast({
         title: "Success",
-        description: `Marked ${ideaIds.length} ideas as used`
+        description: `Recomputed priority for ${scores.size} ideas`
       })
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to mark ideas as used'
-      console.error('Error marking ideas as used:', err)
+      const errorMessage = err instanceof Error ? err.message : 'Failed to recompute priority scores'
+      console.error('Error recomputing priority scores:', err)
       toast({
         title: "Error",
         description: errorMessage,
@@ -176,19 +455,38 @@ export function useIdeas() {
     }
   }
 
-  // Load ideas on mount
+  // Load ideas on mount and whenever the filters or sort change
   useEffect(() => {
     fetchIdeas()
-  }, [])
+  }, [filters, sort])
+
+  // Total of the ideas matching the filters, beyond the pages loaded so far
+  const totalCount = Object.entries(statusCounts)
+    .filter(([status]) => !filters.statuses || filters.statuses.length === 0 || filters.statuses.includes(status))
+    .reduce((sum, [, count]) => sum + count, 0)
 
   return {
     ideas,
+    filters,
+    sort,
+    statusCounts,
+    totalCount,
+    hasMore: nextCursor !== null,
     loading,
+    loadingMore,
     error,
     fetchIdeas,
+    loadMoreIdeas,
+    setFilters,
+    setSort,
     createIdea,
     updateIdea,
     deleteIdea,
-    markIdeasAsUsed
+    transitionIdeas,
+    generateIdeas,
+    importIdeas,
+    recomputePriorityScores,
+    mergeIdeas,
+    dismissDuplicate
   }
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react'
+import { supabase, type SandboxPublication } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+
+export function useSandboxPublications(contentId?: number | null) {
+  const [publications, setPublications] = useState<SandboxPublication[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Fetch simulated publications, optionally for a single content item
+  const fetchPublications = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      let query = supabase
+        .from('sandbox_publications')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (contentId) {
+        query = query.eq('content_id', contentId)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw error
+      }
+
+      setPublications(data || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch sandbox publications'
+      setError(errorMessage)
+      console.error('Error fetching sandbox publications:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Clear simulated publications for the current filter
+  const clearPublications = async () => {
+    try {
+      let query = supabase
+        .from('sandbox_publications')
+        .delete()
+
+      query = contentId ? query.eq('content_id', contentId) : query.not('id', 'is', null)
+
+      const { error } = await query
+
+      if (error) {
+        throw error
+      }
+
+      setPublications([])
+      toast({
+        title: "Success",
+        description: "Sandbox publications cleared"
+      })
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to clear sandbox publications'
+      console.error('Error clearing sandbox publications:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Reload whenever the filter changes
+  useEffect(() => {
+    fetchPublications()
+  }, [contentId])
+
+  return {
+    publications,
+    loading,
+    error,
+    fetchPublications,
+    clearPublications
+  }
+}
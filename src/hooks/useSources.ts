@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react'
 import { supabase, type Source, type SourceInsert, type SourceUpdate } from '@/lib/supabase'
 import { useToast } from '@/hooks/use-toast'
+import { fetchSourceStats, type SourceStats } from '@/lib/ideaProvenance'
 
 export function useSources() {
   const [sources, setSources] = useState<Source[]>([])
+  const [stats, setStats] = useState<SourceStats[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const { toast } = useToast()
@@ -38,6 +40,20 @@ export function useSources() {
     }
   }
 
+  // Fetch how many ideas and published posts each source produced
+  const fetchStats = async () => {
+    try {
+      setStats(await fetchSourceStats())
+    } catch (err) {
+      console.error('Error fetching source stats:', err)
+    }
+  }
+
+  // Counts for a single source, zero when nothing came from it yet
+  const getSourceStats = (sourceId: number) => {
+    return stats.find(item => item.source_id === sourceId) || { source_id: sourceId, idea_count: 0, published_count: 0 }
+  }
+
   // Create a new source
   const createSource = async (sourceData: SourceInsert) => {
     try {
@@ -192,13 +208,17 @@ export function useSources() {
   // Load sources on mount
   useEffect(() => {
     fetchSources()
+    fetchStats()
   }, [])
 
   return {
     sources,
+    stats,
     loading,
     error,
     fetchSources,
+    fetchStats,
+    getSourceStats,
     createSource,
     updateSource,
     deleteSource,
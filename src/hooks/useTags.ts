@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react'
+import { supabase, type Tag, type IdeaTag } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+
+export function useTags() {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [ideaTags, setIdeaTags] = useState<IdeaTag[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Fetch all tags and idea/tag links
+  const fetchTags = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [tagsResult, ideaTagsResult] = await Promise.all([
+        supabase.from('tags').select('*').order('name', { ascending: true }),
+        supabase.from('idea_tags').select('*')
+      ])
+
+      if (tagsResult.error) {
+        throw tagsResult.error
+      }
+      if (ideaTagsResult.error) {
+        throw ideaTagsResult.error
+      }
+
+      setTags(tagsResult.data || [])
+      setIdeaTags(ideaTagsResult.data || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch tags'
+      setError(errorMessage)
+      console.error('Error fetching tags:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Tags attached to an idea
+  const getIdeaTags = (ideaId: number) => {
+    const tagIds = ideaTags.filter(link => link.idea_id === ideaId).map(link => link.tag_id)
+    return tags.filter(tag => tagIds.includes(tag.id))
+  }
+
+  const rememberTag = (tag: Tag) => {
+    setTags(prev => prev.some(item => item.id === tag.id)
+      ? prev
+      : [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)))
+    return tag
+  }
+
+  // Find a tag by name (ignoring case) or create it
+  const ensureTag = async (name: string, origin: Tag['origin'] = 'manual') => {
+    const trimmed = name.trim()
+    const matches = (tag: Tag) => tag.name.toLowerCase() === trimmed.toLowerCase()
+    const existing = tags.find(matches)
+    if (existing) return existing
+
+    // Local state can lag behind when several tags are created in one go
+    const { data: stored, error: lookupError } = await supabase.from('tags').select('*')
+    if (lookupError) {
+      throw lookupError
+    }
+    const storedTag = ((stored || []) as Tag[]).find(matches)
+    if (storedTag) return rememberTag(storedTag)
+
+    const { data, error } = await supabase
+      .from('tags')
+      .insert([{ name: trimmed, origin }])
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return rememberTag(data as Tag)
+  }
+
+  // Attach a tag, by name, to one or more ideas
+  const tagIdeas = async (ideaIds: number[], name: string, origin: Tag['origin'] = 'manual', options: { quiet?: boolean } = {}) => {
+    try {
+      const tag = await ensureTag(name, origin)
+
+      const { data, error } = await supabase
+        .from('idea_tags')
+        .upsert(ideaIds.map(ideaId => ({ idea_id: ideaId, tag_id: tag.id })), {
+          onConflict: 'idea_id,tag_id',
+          ignoreDuplicates: true
+        })
+        .select()
+
+      if (error) {
+        throw error
+      }
+
+      const added = data || []
+      setIdeaTags(prev => [
+        ...prev,
+        ...added.filter(link => !prev.some(item => item.idea_id === link.idea_id && item.tag_id === link.tag_id))
+      ])
+      if (ideaIds.length > 1 && !options.quiet) {
+        toast({
+          title: "Success",
+          description: `Tagged ${ideaIds.length} ideas with "${tag.name}"`
+        })
+      }
+      return tag
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to tag ideas'
+      console.error('Error tagging ideas:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Detach a tag from an idea
+  const untagIdea = async (ideaId: number, tagId: number) => {
+    try {
+      const { error } = await supabase
+        .from('idea_tags')
+        .delete()
+        .eq('idea_id', ideaId)
+        .eq('tag_id', tagId)
+
+      if (error) {
+        throw error
+      }
+
+      setIdeaTags(prev => prev.filter(link => !(link.idea_id === ideaId && link.tag_id === tagId)))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to remove tag'
+      console.error('Error removing tag:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Delete a tag everywhere
+  const deleteTag = async (tagId: number) => {
+    try {
+      const { error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', tagId)
+
+      if (error) {
+        throw error
+      }
+
+      setTags(prev => prev.filter(tag => tag.id !== tagId))
+      setIdeaTags(prev => prev.filter(link => link.tag_id !== tagId))
+      toast({
+        title: "Success",
+        description: "Tag deleted successfully"
+      })
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete tag'
+      console.error('Error deleting tag:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Load tags on mount
+  useEffect(() => {
+    fetchTags()
+  }, [])
+
+  return {
+    tags,
+    ideaTags,
+    loading,
+    error,
+    fetchTags,
+    getIdeaTags,
+    tagIdeas,
+    untagIdea,
+    deleteTag
+  }
+}
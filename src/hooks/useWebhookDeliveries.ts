@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react'
+import { supabase, type WebhookDelivery } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { retryWebhookDelivery } from '@/lib/webhookDeliveries'
+
+interface WebhookDeliveryFilter {
+  ideaId?: number | null
+  contentId?: number | null
+}
+
+export function useWebhookDeliveries({ ideaId, contentId }: WebhookDeliveryFilter) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Fetch the delivery history for an idea or a content item
+  const fetchDeliveries = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      let query = supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (ideaId) {
+        query = query.eq('idea_id', ideaId)
+      }
+      if (contentId) {
+        query = query.eq('content_id', contentId)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw error
+      }
+
+      setDeliveries(data || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch webhook deliveries'
+      setError(errorMessage)
+      console.error('Error fetching webhook deliveries:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Retry a delivery right away instead of waiting for its backoff
+  const retryDelivery = async (id: number) => {
+    try {
+      const data = await retryWebhookDelivery(id)
+
+      if (data) {
+        setDeliveries(prev => prev.map(delivery => delivery.id === id ? data : delivery))
+        toast({
+          title: data.status === 'succeeded' ? "Success" : "Retry Failed",
+          description: data.status === 'succeeded'
+            ? "Webhook delivered successfully"
+            : data.last_error || "Webhook delivery failed",
+          variant: data.status === 'succeeded' ? "default" : "destructive"
+        })
+        return data
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to retry webhook delivery'
+      console.error('Error retrying webhook delivery:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Load deliveries when the subject changes
+  useEffect(() => {
+    fetchDeliveries()
+  }, [ideaId, contentId])
+
+  return {
+    deliveries,
+    loading,
+    error,
+    fetchDeliveries,
+    retryDelivery
+  }
+}
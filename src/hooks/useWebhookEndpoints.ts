@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react'
+import { supabase, type WebhookEndpoint, type WebhookEndpointInsert, type WebhookEndpointUpdate } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { selectWebhookEndpoint, WEBHOOK_ENDPOINT_COLUMNS, type WebhookPurpose } from '@/lib/webhookEndpoints'
+
+export function useWebhookEndpoints() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Fetch all webhook endpoints
+  const fetchEndpoints = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .select(WEBHOOK_ENDPOINT_COLUMNS)
+        .order('purpose', { ascending: true })
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw error
+      }
+
+      setEndpoints(data || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch webhook endpoints'
+      setError(errorMessage)
+      console.error('Error fetching webhook endpoints:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Create a new webhook endpoint
+  const createEndpoint = async (endpointData: WebhookEndpointInsert) => {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .insert([{
+          ...endpointData,
+          platform: endpointData.platform ? endpointData.platform.toLowerCase() : null
+        }])
+        .select(WEBHOOK_ENDPOINT_COLUMNS)
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      if (data) {
+        setEndpoints(prev => [...prev, data])
+        toast({
+          title: "Success",
+          description: "Webhook endpoint created successfully"
+        })
+        return data
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create webhook endpoint'
+      console.error('Error creating webhook endpoint:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Update a webhook endpoint
+  const updateEndpoint = async (id: number, updates: WebhookEndpointUpdate) => {
+    try {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .update(updates)
+        .eq('id', id)
+        .select(WEBHOOK_ENDPOINT_COLUMNS)
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      if (data) {
+        setEndpoints(prev => prev.map(endpoint => endpoint.id === id ? data : endpoint))
+        toast({
+          title: "Success",
+          description: "Webhook endpoint updated successfully"
+        })
+        return data
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update webhook endpoint'
+      console.error('Error updating webhook endpoint:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Delete a webhook endpoint
+  const deleteEndpoint = async (id: number) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        throw error
+      }
+
+      setEndpoints(prev => prev.filter(endpoint => endpoint.id !== id))
+      toast({
+        title: "Success",
+        description: "Webhook endpoint deleted successfully"
+      })
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete webhook endpoint'
+      console.error('Error deleting webhook endpoint:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Toggle endpoint enabled flag
+  const toggleEndpointEnabled = async (id: number) => {
+    const endpoint = endpoints.find(e => e.id === id)
+    if (!endpoint) return
+
+    return updateEndpoint(id, { enabled: !endpoint.enabled })
+  }
+
+  // Resolve the endpoint to call for a purpose/platform (and optional leader)
+  const getEndpoint = (purpose: WebhookPurpose, platform: string | null, userId: number | null = null) => {
+    return selectWebhookEndpoint(endpoints, purpose, platform, userId)
+  }
+
+  // Load webhook endpoints on mount
+  useEffect(() => {
+    fetchEndpoints()
+  }, [])
+
+  return {
+    endpoints,
+    loading,
+    error,
+    fetchEndpoints,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    toggleEndpointEnabled,
+    getEndpoint
+  }
+}
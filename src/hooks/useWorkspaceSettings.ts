@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react'
+import type { WorkspaceSettings, WorkspaceSettingsUpdate } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import { fetchWorkspaceSettings, saveWorkspaceSettings } from '@/lib/workspaceSettings'
+
+export function useWorkspaceSettings() {
+  const [settings, setSettings] = useState<WorkspaceSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  // Fetch the workspace settings row
+  const fetchSettings = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      setSettings(await fetchWorkspaceSettings())
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch workspace settings'
+      setError(errorMessage)
+      console.error('Error fetching workspace settings:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Update the workspace settings row
+  const updateSettings = async (updates: WorkspaceSettingsUpdate) => {
+    try {
+      const data = await saveWorkspaceSettings(updates)
+
+      if (data) {
+        setSettings(data)
+        return data
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update workspace settings'
+      console.error('Error updating workspace settings:', err)
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      })
+      throw err
+    }
+  }
+
+  // Turn sandbox publishing on or off
+  const setSandboxMode = async (enabled: boolean) => {
+    const data = await updateSettings({ sandbox_mode: enabled })
+    toast({
+      title: "Success",
+      description: enabled
+        ? "Sandbox mode enabled - publishing is now simulated"
+        : "Sandbox mode disabled - publishing goes to the real platforms"
+    })
+    return data
+  }
+
+  // Load settings on mount
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  return {
+    settings,
+    sandboxMode: settings?.sandbox_mode ?? false,
+    loading,
+    error,
+    fetchSettings,
+    updateSettings,
+    setSandboxMode
+  }
+}
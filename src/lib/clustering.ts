@@ -0,0 +1,151 @@
+import { tokenize } from '@/lib/text'
+
+export interface ClusterDocument {
+  id: number
+  text: string | null
+}
+
+export interface TopicCluster {
+  id: number
+  label: string
+  terms: string[]
+  memberIds: number[]
+}
+
+type Vector = Map<string, number>
+
+const MAX_ITERATIONS = 25
+const LABEL_TERMS = 3
+
+// Small seeded PRNG so the same ideas always give the same clusters
+const mulberry32 = (seed: number) => () => {
+  seed |= 0
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+const normalize = (vector: Vector) => {
+  let norm = 0
+  vector.forEach(value => { norm += value * value })
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    vector.forEach((value, term) => vector.set(term, value / norm))
+  }
+  return vector
+}
+
+const cosine = (a: Vector, b: Vector) => {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a]
+  let dot = 0
+  small.forEach((value, term) => {
+    const other = large.get(term)
+    if (other) dot += value * other
+  })
+  return dot
+}
+
+// L2-normalized TF-IDF vectors. Terms that appear in a single document say
+// nothing about groups and are dropped.
+export const buildTfIdfVectors = (documents: ClusterDocument[]) => {
+  const tokenized = documents.map(document => tokenize(document.text))
+  const documentFrequency = new Map<string, number>()
+  tokenized.forEach(tokens => {
+    new Set(tokens).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1))
+  })
+
+  return tokenized.map(tokens => {
+    const vector: Vector = new Map()
+    tokens.forEach(term => {
+      if ((documentFrequency.get(term) || 0) > 1) {
+        vector.set(term, (vector.get(term) || 0) + 1)
+      }
+    })
+    vector.forEach((count, term) => {
+      const idf = Math.log(documents.length / documentFrequency.get(term)!) + 1
+      vector.set(term, (count / tokens.length) * idf)
+    })
+    return normalize(vector)
+  })
+}
+
+// Rule of thumb k = sqrt(n / 2), kept between 2 and 8
+export const suggestClusterCount = (documentCount: number) => {
+  return Math.max(2, Math.min(8, Math.round(Math.sqrt(documentCount / 2))))
+}
+
+// k-means++ seeding: each next centroid is picked with probability
+// proportional to its distance from the closest centroid so far
+const seedCentroids = (vectors: Vector[], k: number, random: () => number) => {
+  const centroids: Vector[] = [new Map(vectors[Math.floor(random() * vectors.length)])]
+  while (centroids.length < k) {
+    const distances = vectors.map(vector => 1 - Math.max(...centroids.map(centroid => cosine(vector, centroid))))
+    const total = distances.reduce((sum, distance) => sum + distance, 0)
+    if (total <= 0) break
+    let target = random() * total
+    const index = distances.findIndex(distance => (target -= distance) <= 0)
+    centroids.push(new Map(vectors[index === -1 ? vectors.length - 1 : index]))
+  }
+  return centroids
+}
+
+// Spherical k-means (cosine similarity) over TF-IDF vectors. Ideas without
+// any shared vocabulary are left out instead of being forced into a group.
+export const clusterDocuments = (documents: ClusterDocument[], k = suggestClusterCount(documents.length)): TopicCluster[] => {
+  const vectors = buildTfIdfVectors(documents)
+  const indexed = vectors.map((vector, index) => ({ vector, index })).filter(item => item.vector.size > 0)
+  if (indexed.length < 2) return []
+
+  const random = mulberry32(indexed.length * 7919 + k)
+  let centroids = seedCentroids(indexed.map(item => item.vector), Math.min(k, indexed.length), random)
+  let assignments = new Array<number>(indexed.length).fill(-1)
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = indexed.map(item => {
+      let best = 0
+      let bestSimilarity = -1
+      centroids.forEach((centroid, index) => {
+        const similarity = cosine(item.vector, centroid)
+        if (similarity > bestSimilarity) {
+          best = index
+          bestSimilarity = similarity
+        }
+      })
+      return best
+    })
+
+    const converged = next.every((cluster, index) => cluster === assignments[index])
+    assignments = next
+    if (converged) break
+
+    centroids = centroids.map((centroid, clusterIndex) => {
+      const sum: Vector = new Map()
+      indexed.forEach((item, index) => {
+        if (assignments[index] !== clusterIndex) return
+        item.vector.forEach((value, term) => sum.set(term, (sum.get(term) || 0) + value))
+      })
+      return sum.size > 0 ? normalize(sum) : centroid
+    })
+  }
+
+  return centroids
+    .map((centroid, clusterIndex) => {
+      const terms = Array.from(centroid.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, LABEL_TERMS)
+        .map(([term]) => term)
+
+      return {
+        id: clusterIndex,
+        label: terms.join(' · '),
+        terms,
+        memberIds: indexed
+          .filter((_, index) => assignments[index] === clusterIndex)
+          .map(item => documents[item.index].id)
+      }
+    })
+    .filter(cluster => cluster.memberIds.length > 0)
+    .sort((a, b) => b.memberIds.length - a.memberIds.length)
+    .map((cluster, index) => ({ ...cluster, id: index }))
+}
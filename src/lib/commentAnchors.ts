@@ -0,0 +1,138 @@
+// Where a comment thread sits in a content's text. An anchor keeps the
+// commented text and a little of what surrounds it, so it can be found again
+// after the text is edited: first at its old offsets, then wherever the same
+// text appears in the same context, and if the commented text itself was
+// changed, between the unchanged text around it. Anchors that cannot be found
+// any more are lost; their threads stay, showing the text they were about.
+
+export interface TextAnchor {
+  start: number
+  end: number
+  text: string
+  prefix: string
+  suffix: string
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+const CONTEXT_LENGTH = 32
+// Shorter context to retry with when the text next to the range was edited too
+const SHORT_CONTEXT_LENGTH = 12
+
+export const createAnchor = (text: string, start: number, end: number): TextAnchor => ({
+  start,
+  end,
+  text: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: text.slice(end, end + CONTEXT_LENGTH)
+})
+
+const indexesOf = (text: string, search: string) => {
+  const indexes: number[] = []
+  if (!search) return indexes
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+    indexes.push(index)
+  }
+  return indexes
+}
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0
+  while (length < a.length && length < b.length && a[length] === b[length]) length++
+  return length
+}
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++
+  return length
+}
+
+// The candidate with the most matching context, then the one closest to where
+// the range used to be
+const pickBest = <T extends TextRange>(candidates: (T & { score: number })[], anchor: TextAnchor) => {
+  return candidates.reduce<(T & { score: number }) | null>((best, candidate) => {
+    if (!best || candidate.score > best.score) return candidate
+    if (candidate.score === best.score &&
+        Math.abs(candidate.start - anchor.start) < Math.abs(best.start - anchor.start)) return candidate
+    return best
+  }, null)
+}
+
+// The commented text was edited: take what now sits between its old neighbours
+const locateBetweenContext = (text: string, anchor: TextAnchor, contextLength: number): TextRange | null => {
+  const prefix = anchor.prefix.slice(-contextLength)
+  const suffix = anchor.suffix.slice(0, contextLength)
+  // Without context on a side the range ran up to the start or end of the text
+  const starts = prefix ? indexesOf(text, prefix).map(index => index + prefix.length) : [0]
+  const maxLength = Math.max(anchor.text.length * 2, anchor.text.length + 40)
+  const candidates: (TextRange & { score: number })[] = []
+
+  for (const start of starts) {
+    const end = suffix ? text.indexOf(suffix, start) : text.length
+    if (end === -1 || end <= start || end - start > maxLength) continue
+    candidates.push({ start, end, score: 0 })
+  }
+
+  return pickBest(candidates, anchor)
+}
+
+export const locateAnchor = (text: string, anchor: TextAnchor): TextRange | null => {
+  if (!anchor.text) return null
+
+  if (text.slice(anchor.start, anchor.end) === anchor.text) {
+    return { start: anchor.start, end: anchor.end }
+  }
+
+  const matches = indexesOf(text, anchor.text).map(start => {
+    const end = start + anchor.text.length
+    const score =
+      commonSuffixLength(text.slice(Math.max(0, start - anchor.prefix.length), start), anchor.prefix) +
+      commonPrefixLength(text.slice(end, end + anchor.suffix.length), anchor.suffix)
+    return { start, end, score }
+  })
+  const best = pickBest(matches, anchor)
+  if (best && best.score >= SHORT_CONTEXT_LENGTH) return { start: best.start, end: best.end }
+
+  // A copy of the text elsewhere with little matching context is a weaker
+  // sign than the old neighbours still standing around an edited range
+  const between = locateBetweenContext(text, anchor, CONTEXT_LENGTH)
+  if (between) return between
+  if (best) return { start: best.start, end: best.end }
+
+  return locateBetweenContext(text, anchor, SHORT_CONTEXT_LENGTH)
+}
+
+export interface HighlightSegment {
+  start: number
+  text: string
+  // Threads whose range covers this piece of text
+  ids: number[]
+}
+
+// Split text at every range boundary so overlapping ranges can be highlighted
+export const highlightSegments = (text: string, ranges: (TextRange & { id: number })[]): HighlightSegment[] => {
+  const valid = ranges.filter(range => range.end > range.start)
+  const boundaries = [...new Set([
+    0,
+    text.length,
+    ...valid.flatMap(range => [range.start, range.end])
+  ])]
+    .filter(index => index >= 0 && index <= text.length)
+    .sort((a, b) => a - b)
+
+  const segments: HighlightSegment[] = []
+  for (let index = 0; index < boundaries.length - 1; index++) {
+    const start = boundaries[index]
+    const end = boundaries[index + 1]
+    segments.push({
+      start,
+      text: text.slice(start, end),
+      ids: valid.filter(range => range.start <= start && range.end >= end).map(range => range.id)
+    })
+  }
+  return segments
+}
@@ -0,0 +1,78 @@
+import { supabase, type ContentComment } from '@/lib/supabase'
+import type { TextAnchor } from '@/lib/commentAnchors'
+
+// Comments on a content's text. A thread starts with an anchored comment and
+// collects replies through `parent_id`; the thread starter holds the anchor
+// and whether the thread is resolved.
+
+export interface CommentThread {
+  root: ContentComment
+  replies: ContentComment[]
+}
+
+export interface CommentCounts {
+  content_id: number
+  comment_count: number
+  open_thread_count: number
+}
+
+export const anchorOf = (comment: ContentComment): TextAnchor | null => {
+  if (comment.anchor_start === null || comment.anchor_end === null || comment.anchor_text === null) return null
+  return {
+    start: comment.anchor_start,
+    end: comment.anchor_end,
+    text: comment.anchor_text,
+    prefix: comment.anchor_prefix || '',
+    suffix: comment.anchor_suffix || ''
+  }
+}
+
+export const anchorColumns = (anchor: TextAnchor) => ({
+  anchor_start: anchor.start,
+  anchor_end: anchor.end,
+  anchor_text: anchor.text,
+  anchor_prefix: anchor.prefix,
+  anchor_suffix: anchor.suffix
+})
+
+// Threads in the order they were started, replies oldest first
+export const buildThreads = (comments: ContentComment[]): CommentThread[] => {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+  return sorted
+    .filter(comment => comment.parent_id === null)
+    .map(root => ({
+      root,
+      replies: sorted.filter(comment => comment.parent_id === root.id)
+    }))
+}
+
+export const fetchContentComments = async (contentId: number) => {
+  const { data, error } = await supabase
+    .from('content_comments')
+    .select('*')
+    .eq('content_id', contentId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as ContentComment[]
+}
+
+// Per content (see `get_content_comment_counts`); contents without comments
+// are left out
+export const fetchCommentCounts = async () => {
+  const { data, error } = await supabase.rpc('get_content_comment_counts')
+
+  if (error) {
+    throw error
+  }
+
+  // bigint counts arrive as strings from some PostgREST versions
+  return ((data || []) as CommentCounts[]).map(row => ({
+    content_id: Number(row.content_id),
+    comment_count: Number(row.comment_count),
+    open_thread_count: Number(row.open_thread_count)
+  }))
+}
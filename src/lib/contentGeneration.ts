@@ -0,0 +1,32 @@
+import { supabase, type Content } from '@/lib/supabase'
+
+export interface ContentTarget {
+  platform: string
+  type: string
+}
+
+interface GenerateContentOptions {
+  limit?: number
+  targets?: ContentTarget[]
+}
+
+interface GenerateContentResponse {
+  contents: Content[]
+  drafted_idea_ids: number[]
+  skipped: { idea_id: number; error: string }[]
+}
+
+// Ask the `generate-content` edge function to draft content from the user's
+// unused ideas with the active content prompt. Drafts come back already
+// stored and linked to their idea.
+export const generateContentDrafts = async (userId: number, options: GenerateContentOptions = {}) => {
+  const { data, error } = await supabase.functions.invoke('generate-content', {
+    body: { user_id: userId, limit: options.limit, targets: options.targets }
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return data as GenerateContentResponse
+}
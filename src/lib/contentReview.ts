@@ -0,0 +1,104 @@
+import { supabase, type Content, type ContentReview } from '@/lib/supabase'
+
+// Ghostwriters draft, the assigned reviewer signs off. Status changes into
+// and out of review only happen through the database functions used below;
+// the database also refuses to publish or schedule content that was not
+// approved (see `enforce_content_review`).
+
+export const CONTENT_STATUSES = ['draft', 'in_review', 'changes_requested', 'approved', 'published'] as const
+
+export type ContentStatus = typeof CONTENT_STATUSES[number]
+
+export const contentStatusLabels: Record<ContentStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+  published: 'Published'
+}
+
+export const reviewActionLabels: Record<ContentReview['action'], string> = {
+  submitted: 'Submitted for review',
+  approved: 'Approved',
+  changes_requested: 'Requested changes'
+}
+
+export type ReviewDecision = 'approved' | 'changes_requested'
+
+export const getContentStatusLabel = (status: string | null) => {
+  return contentStatusLabels[(status || 'draft') as ContentStatus] ?? status
+}
+
+// Published content was approved before it went out, so it can go to more
+// platforms
+export const isPublishable = (status: string | null) => {
+  return status === 'approved' || status === 'published'
+}
+
+// `in_review` too, to hand the content to another reviewer
+export const canSubmitForReview = (status: string | null) => {
+  return !status || status === 'draft' || status === 'changes_requested' || status === 'in_review'
+}
+
+export const needsReviewBy = (content: Pick<Content, 'status' | 'reviewer_id'>, userId: number | null) => {
+  return userId !== null && content.status === 'in_review' && content.reviewer_id === userId
+}
+
+// Oldest first, so the list reads as a conversation
+export const fetchContentReviews = async (contentId: number) => {
+  const { data, error } = await supabase
+    .from('content_reviews')
+    .select('*')
+    .eq('content_id', contentId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as ContentReview[]
+}
+
+export const submitContentForReview = async (
+  contentId: number,
+  reviewerId: number,
+  authorId: number | null = null,
+  comment: string | null = null
+) => {
+  const { data, error } = await supabase
+    .rpc('submit_content_for_review', {
+      p_content_id: contentId,
+      p_reviewer_id: reviewerId,
+      p_author_id: authorId,
+      p_comment: comment
+    })
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as Content
+}
+
+export const recordReviewDecision = async (
+  contentId: number,
+  reviewerId: number,
+  decision: ReviewDecision,
+  comment: string | null = null
+) => {
+  const { data, error } = await supabase
+    .rpc('review_content', {
+      p_content_id: contentId,
+      p_reviewer_id: reviewerId,
+      p_decision: decision,
+      p_comment: comment
+    })
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as Content
+}
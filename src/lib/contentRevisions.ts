@@ -0,0 +1,37 @@
+import { supabase, type Content, type ContentRevision } from '@/lib/supabase'
+
+// Every save of a content's text is kept as a revision by the database (see
+// `record_content_revision`); revision 1 is the text it was created with.
+
+export const revisionKindLabels: Record<ContentRevision['kind'], string> = {
+  original: 'Original',
+  edit: 'Edited',
+  restore: 'Restored'
+}
+
+// Newest first
+export const fetchContentRevisions = async (contentId: number) => {
+  const { data, error } = await supabase
+    .from('content_revisions')
+    .select('*')
+    .eq('content_id', contentId)
+    .order('revision_number', { ascending: false })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as ContentRevision[]
+}
+
+export const restoreContentRevision = async (revisionId: number, authorId: number | null = null) => {
+  const { data, error } = await supabase
+    .rpc('restore_content_revision', { p_revision_id: revisionId, p_author_id: authorId })
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as Content
+}
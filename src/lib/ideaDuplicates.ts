@@ -0,0 +1,52 @@
+import { supabase, type Idea } from '@/lib/supabase'
+
+// Trigram similarity at which the database flags an idea as a likely
+// duplicate (see `find_similar_ideas`)
+export const DUPLICATE_THRESHOLD = 0.45
+
+export interface SimilarIdea {
+  id: number
+  content: string
+  priority_score: number | null
+  similarity: number
+}
+
+// The leader's existing ideas closest to a text, most similar first
+export const findSimilarIdeas = async (
+  userId: number | null,
+  content: string,
+  excludeId: number | null = null,
+  threshold = DUPLICATE_THRESHOLD
+) => {
+  const { data, error } = await supabase.rpc('find_similar_ideas', {
+    p_user_id: userId,
+    p_content: content,
+    p_threshold: threshold,
+    p_exclude_id: excludeId
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as SimilarIdea[]
+}
+
+// Fold `mergeId` into `keepId` in one transaction. Drafts and webhook history
+// move over, the higher priority score is kept and `mergeId` is recorded in
+// `merged_idea_ids`. Pass `content` to replace the kept idea's text.
+export const mergeIdeas = async (keepId: number, mergeId: number, content: string | null = null) => {
+  const { data, error } = await supabase
+    .rpc('merge_ideas', {
+      p_keep_id: keepId,
+      p_merge_id: mergeId,
+      p_content: content
+    })
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as Idea
+}
@@ -0,0 +1,75 @@
+import { supabase, type Idea } from '@/lib/supabase'
+
+// Timely ideas (news, trends) lose priority as they age and are archived once
+// they expire. Evergreen ideas keep their score. Mirrors `effective_priority`
+// in the database.
+
+export const TIMELINESS = ['evergreen', 'timely'] as const
+
+export type Timeliness = typeof TIMELINESS[number]
+
+export const timelinessLabels: Record<Timeliness, string> = {
+  evergreen: 'Evergreen',
+  timely: 'Timely'
+}
+
+export const DEFAULT_HALF_LIFE_DAYS = 3
+
+// Timely ideas expire this long after creation unless given a date
+export const DEFAULT_SHELF_LIFE_DAYS = 14
+
+// Below this share of its original priority an idea counts as stale
+export const STALE_RATIO = 0.5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type FreshnessFields = Pick<Idea, 'priority_score' | 'timeliness' | 'decay_half_life_days' | 'created_at' | 'expires_at'>
+
+// Whole days since creation, by UTC calendar date like `current_date` on the server
+export const ageInDays = (createdAt: string, now: Date = new Date()) => {
+  const created = new Date(createdAt)
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const createdDay = Date.UTC(created.getUTCFullYear(), created.getUTCMonth(), created.getUTCDate())
+  return Math.max(0, Math.round((today - createdDay) / DAY_MS))
+}
+
+// Computed in single precision like the `real` the database returns, so it can
+// be used as a pagination cursor
+export const effectivePriority = (idea: FreshnessFields, now: Date = new Date()) => {
+  const score = Math.fround(idea.priority_score ?? 0)
+  if (idea.timeliness !== 'timely') return score
+
+  const halfLife = idea.decay_half_life_days ?? DEFAULT_HALF_LIFE_DAYS
+  return Math.fround(score * Math.pow(0.5, ageInDays(idea.created_at, now) / halfLife))
+}
+
+export const isExpired = (idea: FreshnessFields, now: Date = new Date()) => {
+  return !!idea.expires_at && new Date(idea.expires_at).getTime() <= now.getTime()
+}
+
+// Timely ideas that have lost most of their value, or are about to expire
+export const isStale = (idea: FreshnessFields, now: Date = new Date()) => {
+  if (idea.timeliness !== 'timely') return false
+  if (isExpired(idea, now)) return true
+  if (idea.expires_at && new Date(idea.expires_at).getTime() - now.getTime() < DAY_MS) return true
+
+  const original = idea.priority_score ?? 0
+  return original > 0 && effectivePriority(idea, now) < original * STALE_RATIO
+}
+
+// Days until expiry, rounded up; null for ideas that don't expire
+export const daysUntilExpiry = (idea: FreshnessFields, now: Date = new Date()) => {
+  if (!idea.expires_at) return null
+  return Math.ceil((new Date(idea.expires_at).getTime() - now.getTime()) / DAY_MS)
+}
+
+// Archive new and shortlisted ideas past their expiry, returns their ids
+export const archiveExpiredIdeas = async () => {
+  const { data, error } = await supabase.rpc('archive_expired_ideas')
+
+  if (error) {
+    throw error
+  }
+
+  return ((data || []) as (number | string)[]).map(Number)
+}
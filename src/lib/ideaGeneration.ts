@@ -0,0 +1,22 @@
+import { supabase, type Idea } from '@/lib/supabase'
+
+interface GenerateIdeasResponse {
+  ideas: Idea[]
+  provider: string
+  model: string
+}
+
+// Ask the `generate-ideas` edge function for new ideas. The LLM call happens
+// server-side so provider keys never reach the browser; the returned ideas
+// are already stored with status 'new'.
+export const generateIdeas = async (userId: number, count = 5) => {
+  const { data, error } = await supabase.functions.invoke('generate-ideas', {
+    body: { user_id: userId, count }
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return data as GenerateIdeasResponse
+}
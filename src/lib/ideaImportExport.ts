@@ -0,0 +1,304 @@
+import type { Idea, IdeaInsert } from '@/lib/supabase'
+import { IDEA_STATUSES, ideaStatusLabels, type IdeaStatus } from '@/lib/ideaLifecycle'
+
+// Bulk import and export of ideas. Imports accept CSV (comma, semicolon or tab
+// separated, first line is the header) or JSON (an array of objects, e.g. a
+// previous export). Columns are mapped onto idea fields before validation.
+
+export const MAX_IMPORT_ROWS = 1000
+
+export const IMPORT_FIELDS = ['content', 'priority', 'status', 'tags', 'source_url'] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+export const importFieldLabels: Record<ImportField, string> = {
+  content: 'Content',
+  priority: 'Priority',
+  status: 'Status',
+  tags: 'Tags',
+  source_url: 'Source URL'
+}
+
+// Imported ideas can't start mid-generation
+export const IMPORTABLE_STATUSES: IdeaStatus[] = ['new', 'shortlisted', 'used', 'archived', 'rejected']
+
+export type ImportRecord = Record<string, unknown>
+
+export interface ParsedImport {
+  headers: string[]
+  records: ImportRecord[]
+}
+
+// Source column for each idea field, null when the field isn't imported
+export type ImportMapping = Record<ImportField, string | null>
+
+export interface ImportRow {
+  row: number
+  idea: IdeaInsert
+  tags: string[]
+  errors: string[]
+}
+
+export class IdeaImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IdeaImportError'
+  }
+}
+
+const fieldAliases: Record<ImportField, string[]> = {
+  content: ['content', 'idea', 'ideas', 'text', 'title', 'description'],
+  priority: ['priority', 'priority_score', 'score'],
+  status: ['status', 'state', 'stage'],
+  tags: ['tags', 'tag', 'topics', 'labels', 'category'],
+  source_url: ['source_url', 'source', 'url', 'link', 'source link']
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, ' ')
+
+const detectDelimiter = (firstLine: string) => {
+  const candidates = [',', ';', '\t']
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+}
+
+// RFC 4180 style: quoted cells may contain delimiters, newlines and "" escapes
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] || '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new IdeaImportError('The CSV file has an unterminated quoted value')
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Spreadsheets like to leave blank lines at the end
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+const parseCsvImport = (text: string): ParsedImport => {
+  const [headerRow, ...rows] = parseCsv(text)
+  if (!headerRow) {
+    throw new IdeaImportError('The file is empty')
+  }
+
+  const headers = headerRow.map(header => header.trim())
+  return {
+    headers,
+    records: rows.map(cells => Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? ''])))
+  }
+}
+
+const parseJsonImport = (text: string): ParsedImport => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new IdeaImportError('The file is not valid JSON')
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { ideas?: unknown }).ideas)
+      ? (data as { ideas: unknown[] }).ideas
+      : null
+
+  if (!items || items.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+    throw new IdeaImportError('JSON imports must be an array of idea objects')
+  }
+
+  const records = items as ImportRecord[]
+  return {
+    headers: [...new Set(records.flatMap(record => Object.keys(record)))],
+    records
+  }
+}
+
+export const parseImportFile = (text: string, fileName = ''): ParsedImport => {
+  const looksLikeJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text)
+  const parsed = looksLikeJson ? parseJsonImport(text) : parseCsvImport(text)
+
+  if (parsed.records.length === 0) {
+    throw new IdeaImportError('The file has no rows to import')
+  }
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    throw new IdeaImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows, the file has ${parsed.records.length}`)
+  }
+
+  return parsed
+}
+
+// Map each field to the first header that looks like it
+export const guessImportMapping = (headers: string[]): ImportMapping => {
+  const mapping = {} as ImportMapping
+  for (const field of IMPORT_FIELDS) {
+    mapping[field] = headers.find(header => fieldAliases[field].includes(normalizeHeader(header))) ?? null
+  }
+  return mapping
+}
+
+const cellText = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  return String(value).trim()
+}
+
+// Scores may come on the 0-1 scale we store, or the 0-10 / 0-100 scales
+// people use in spreadsheets
+const parsePriority = (value: unknown): number | null | undefined => {
+  const text = cellText(value)
+  if (text === '') return undefined
+
+  const score = Number(text.replace('%', '').replace(',', '.'))
+  if (!Number.isFinite(score) || score < 0 || score > 100) return null
+  if (text.endsWith('%') || score > 10) return score / 100
+  if (score > 1) return score / 10
+  return score
+}
+
+const parseStatus = (value: unknown): IdeaStatus | null | undefined => {
+  const text = cellText(value).toLowerCase()
+  if (text === '') return undefined
+
+  return IDEA_STATUSES.find(status => status === text || ideaStatusLabels[status].toLowerCase() === text) ?? null
+}
+
+const parseTags = (value: unknown) => {
+  const values = Array.isArray(value) ? value.map(cellText) : cellText(value).split(/[,;|]/)
+  return [...new Set(values.map(tag => tag.trim()).filter(Boolean))]
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Turn mapped records into ideas ready to insert, collecting every problem
+// with a row instead of stopping at the first
+export const validateImportRows = (records: ImportRecord[], mapping: ImportMapping, userId: number | null): ImportRow[] => {
+  const seen = new Map<string, number>()
+
+  return records.map((record, index) => {
+    const row = index + 1
+    const errors: string[] = []
+    const read = (field: ImportField) => mapping[field] ? record[mapping[field] as string] : undefined
+
+    const content = cellText(read('content'))
+    if (!content) {
+      errors.push('Content is empty')
+    } else {
+      const key = content.toLowerCase()
+      if (seen.has(key)) {
+        errors.push(`Same content as row ${seen.get(key)}`)
+      } else {
+        seen.set(key, row)
+      }
+    }
+
+    const priority = parsePriority(read('priority'))
+    if (priority === null) {
+      errors.push(`Priority "${cellText(read('priority'))}" is not a number between 0 and 100`)
+    }
+
+    const status = parseStatus(read('status'))
+    if (status === null) {
+      errors.push(`Unknown status "${cellText(read('status'))}"`)
+    } else if (status && !IMPORTABLE_STATUSES.includes(status)) {
+      errors.push(`Ideas can't be imported as ${ideaStatusLabels[status].toLowerCase()}`)
+    }
+
+    const sourceUrl = cellText(read('source_url'))
+    if (sourceUrl && !isHttpUrl(sourceUrl)) {
+      errors.push(`Source URL "${sourceUrl}" is not a web address`)
+    }
+
+    return {
+      row,
+      idea: {
+        user_id: userId,
+        content,
+        priority_score: priority ?? 0.5,
+        status: status ?? 'new',
+        source_url: sourceUrl || null
+      },
+      tags: parseTags(read('tags')),
+      errors
+    }
+  })
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const exportRecord = (idea: Idea, tags: string[]) => ({
+  id: idea.id,
+  content: idea.content,
+  priority: idea.priority_score,
+  status: idea.status,
+  tags,
+  source_url: idea.source_url,
+  created_at: idea.created_at
+})
+
+// Exports use the import column names, so an export can be imported again
+export const ideasToCsv = (ideas: Idea[], getTags: (ideaId: number) => string[]) => {
+  const header = ['id', 'content', 'priority', 'status', 'tags', 'source_url', 'created_at']
+  const lines = ideas.map(idea => {
+    const record = exportRecord(idea, getTags(idea.id))
+    return [
+      record.id,
+      record.content,
+      record.priority,
+      record.status,
+      record.tags.join(', '),
+      record.source_url,
+      record.created_at
+    ].map(csvCell).join(',')
+  })
+  return [header.join(','), ...lines].join('\r\n')
+}
+
+export const ideasToJson = (ideas: Idea[], getTags: (ideaId: number) => string[]) => {
+  return JSON.stringify(ideas.map(idea => exportRecord(idea, getTags(idea.id))), null, 2)
+}
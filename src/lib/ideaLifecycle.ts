@@ -0,0 +1,70 @@
+// The idea lifecycle. The database enforces the same moves (see
+// `is_allowed_idea_transition`); keep the two in step. Checking here first
+// gives a clear message before anything is sent.
+//
+//   new -> shortlisted -> generating -> drafted -> used -> archived
+//   (new and shortlisted ideas can also be rejected)
+
+export const IDEA_STATUSES = ['new', 'shortlisted', 'generating', 'drafted', 'used', 'archived', 'rejected'] as const
+
+export type IdeaStatus = typeof IDEA_STATUSES[number]
+
+export const ideaStatusLabels: Record<IdeaStatus, string> = {
+  new: 'New',
+  shortlisted: 'Shortlisted',
+  generating: 'Generating',
+  drafted: 'Drafted',
+  used: 'Used',
+  archived: 'Archived',
+  rejected: 'Rejected'
+}
+
+const transitions: Record<IdeaStatus, IdeaStatus[]> = {
+  new: ['shortlisted', 'generating', 'rejected', 'archived'],
+  shortlisted: ['new', 'generating', 'rejected', 'archived'],
+  // Failed generation requests send an idea back to where it came from
+  generating: ['drafted', 'new', 'shortlisted'],
+  drafted: ['used', 'generating', 'archived'],
+  used: ['archived'],
+  archived: ['new'],
+  rejected: ['new', 'archived']
+}
+
+export class InvalidIdeaTransitionError extends Error {
+  constructor(from: string, to: string) {
+    super(`Cannot move an idea from "${from}" to "${to}"`)
+    this.name = 'InvalidIdeaTransitionError'
+  }
+}
+
+export const isIdeaStatus = (status: string | null | undefined): status is IdeaStatus => {
+  return !!status && (IDEA_STATUSES as readonly string[]).includes(status)
+}
+
+export const getAllowedTransitions = (from: string | null | undefined): IdeaStatus[] => {
+  return isIdeaStatus(from) ? transitions[from] : []
+}
+
+export const canTransition = (from: string | null | undefined, to: IdeaStatus) => {
+  return getAllowedTransitions(from).includes(to)
+}
+
+// Set by content generation only: an idea is `generating` while a request is
+// out and `drafted` once its draft arrives, so users can't move ideas there
+const SYSTEM_STATUSES: IdeaStatus[] = ['generating', 'drafted']
+
+// Moves a user can make by hand, e.g. on the board
+export const canMoveManually = (from: string | null | undefined, to: IdeaStatus) => {
+  return !SYSTEM_STATUSES.includes(to) && canTransition(from, to)
+}
+
+export const assertTransition = (from: string | null | undefined, to: IdeaStatus) => {
+  if (!canTransition(from, to)) {
+    throw new InvalidIdeaTransitionError(from ?? 'unknown', to)
+  }
+}
+
+// Ideas that content can still be generated from
+export const isAvailableForGeneration = (status: string | null | undefined) => {
+  return status === 'new' || status === 'shortlisted'
+}
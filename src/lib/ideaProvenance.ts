@@ -0,0 +1,28 @@
+import { supabase } from '@/lib/supabase'
+
+// How much a source has produced (see `get_source_stats`)
+export interface SourceStats {
+  source_id: number
+  idea_count: number
+  published_count: number
+}
+
+export const fetchSourceStats = async (userId: number | null = null) => {
+  const { data, error } = await supabase.rpc('get_source_stats', { p_user_id: userId })
+
+  if (error) {
+    throw error
+  }
+
+  // bigint counts arrive as strings from some PostgREST versions
+  return ((data || []) as SourceStats[]).map(row => ({
+    source_id: Number(row.source_id),
+    idea_count: Number(row.idea_count),
+    published_count: Number(row.published_count)
+  }))
+}
+
+// Short label for a source, e.g. in the "Derived from" section of an idea
+export const describeSource = (source: { source_type: string | null; description: string | null; url: string | null }) => {
+  return source.description || source.url || source.source_type || 'Untitled source'
+}
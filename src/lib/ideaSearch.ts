@@ -0,0 +1,148 @@
+import { supabase, type Idea } from '@/lib/supabase'
+
+// Server-side search over ideas (see `search_ideas`). Results come in pages;
+// the cursor of a page points just past its last idea.
+
+export const IDEA_PAGE_SIZE = 50
+
+export const IDEA_SORTS = ['created_desc', 'created_asc', 'priority_desc', 'priority_asc'] as const
+
+export type IdeaSort = typeof IDEA_SORTS[number]
+
+export const ideaSortLabels: Record<IdeaSort, string> = {
+  created_desc: 'Newest first',
+  created_asc: 'Oldest first',
+  priority_desc: 'Highest priority',
+  priority_asc: 'Lowest priority'
+}
+
+export interface IdeaFilters {
+  // Web search syntax: quoted phrases, OR, and -excluded words
+  query?: string
+  statuses?: string[]
+  // 0-1, compared with the priority after freshness decay
+  minPriority?: number
+  maxPriority?: number
+  // ISO dates, the range includes both days
+  createdFrom?: string
+  createdTo?: string
+  userId?: number
+  tagId?: number
+}
+
+export interface IdeaCursor {
+  createdAt: string
+  priority: number
+  id: number
+}
+
+export interface IdeaPage {
+  ideas: Idea[]
+  nextCursor: IdeaCursor | null
+}
+
+// A row of `search_ideas`: the idea and the priority it was sorted by
+interface IdeaSearchRow {
+  idea: Idea
+  sort_priority: number
+}
+
+// The priority comes from the server as sorted on, so the next page starts
+// exactly after this row even if decay is computed differently here
+const cursorFor = (row: IdeaSearchRow): IdeaCursor => ({
+  createdAt: row.idea.created_at,
+  priority: row.sort_priority,
+  id: row.idea.id
+})
+
+// Date inputs give days; the upper bound is exclusive so step past the last one
+const endOfDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`)
+  next.setDate(next.getDate() + 1)
+  return next.toISOString()
+}
+
+const filterParams = (filters: IdeaFilters) => ({
+  p_query: filters.query?.trim() || null,
+  p_min_priority: filters.minPriority ?? null,
+  p_max_priority: filters.maxPriority ?? null,
+  p_created_after: filters.createdFrom ? new Date(`${filters.createdFrom}T00:00:00`).toISOString() : null,
+  p_created_before: filters.createdTo ? endOfDay(filters.createdTo) : null,
+  p_user_id: filters.userId ?? null,
+  p_tag_id: filters.tagId ?? null
+})
+
+export const searchIdeas = async (
+  filters: IdeaFilters,
+  sort: IdeaSort = 'created_desc',
+  cursor: IdeaCursor | null = null,
+  limit = IDEA_PAGE_SIZE
+): Promise<IdeaPage> => {
+  const { data, error } = await supabase.rpc('search_ideas', {
+    ...filterParams(filters),
+    p_statuses: filters.statuses && filters.statuses.length > 0 ? filters.statuses : null,
+    p_sort: sort,
+    p_cursor_created_at: cursor?.createdAt ?? null,
+    p_cursor_priority: cursor?.priority ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: limit
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const rows = (data || []) as IdeaSearchRow[]
+  return {
+    ideas: rows.map(row => row.idea),
+    // A short page is the last one
+    nextCursor: rows.length === limit ? cursorFor(rows[rows.length - 1]) : null
+  }
+}
+
+// Matching ideas per status, ignoring the status filter itself
+export const countIdeasByStatus = async (filters: IdeaFilters) => {
+  const { data, error } = await supabase.rpc('count_ideas_by_status', filterParams(filters))
+
+  if (error) {
+    throw error
+  }
+
+  return Object.fromEntries(
+    ((data || []) as { status: string; idea_count: number | string }[]).map(row => [row.status, Number(row.idea_count)])
+  ) as Record<string, number>
+}
+
+// Larger pages for fetching a whole result set at once
+const FULL_FETCH_PAGE_SIZE = 500
+
+// Every idea matching the filters, page by page. For actions that must cover
+// the whole set (export, rescoring, topic search) rather than the pages
+// loaded on screen.
+export const fetchAllIdeas = async (filters: IdeaFilters, sort: IdeaSort = 'created_desc') => {
+  const ideas: Idea[] = []
+  let cursor: IdeaCursor | null = null
+
+  do {
+    const page = await searchIdeas(filters, sort, cursor, FULL_FETCH_PAGE_SIZE)
+    ideas.push(...page.ideas)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return ideas
+}
+
+export const fetchIdeasByIds = async (ids: number[]) => {
+  if (ids.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('ideas')
+    .select('*')
+    .in('id', ids)
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as Idea[]
+}
@@ -0,0 +1,3 @@
+// The rules live in `shared/` so `dispatch-webhook` splits threads exactly the
+// way the editor previews them
+export * from '../../shared/platformRules'
@@ -0,0 +1,98 @@
+// Layout rules for the post previews in the content view: where each platform
+// folds long text behind "see more", and how post text is split into links,
+// hashtags and mentions. Fold points are what the platforms showed at the time
+// of writing and drift now and then.
+
+export const PREVIEW_PLATFORMS = ['linkedin', 'twitter', 'instagram', 'facebook']
+
+export const hasPostPreview = (platform: string | null | undefined) => {
+  return !!platform && PREVIEW_PLATFORMS.includes(platform.toLowerCase())
+}
+
+export const PREVIEW_DEVICES = ['mobile', 'desktop'] as const
+
+export type PreviewDevice = typeof PREVIEW_DEVICES[number]
+
+interface Fold {
+  // Text is cut at whichever comes first
+  chars: number
+  lines: number
+}
+
+const FOLDS: Record<string, Record<PreviewDevice, Fold>> = {
+  linkedin: { mobile: { chars: 140, lines: 3 }, desktop: { chars: 210, lines: 3 } },
+  instagram: { mobile: { chars: 125, lines: 2 }, desktop: { chars: 125, lines: 2 } },
+  facebook: { mobile: { chars: 240, lines: 4 }, desktop: { chars: 480, lines: 5 } }
+}
+
+// Feed width in pixels
+export const PREVIEW_WIDTHS: Record<PreviewDevice, number> = {
+  mobile: 375,
+  desktop: 555
+}
+
+export interface FoldedText {
+  visible: string
+  truncated: boolean
+}
+
+// The part of the text shown before "see more", cut back to a word boundary
+export const foldText = (text: string, platform: string, device: PreviewDevice): FoldedText => {
+  const fold = FOLDS[platform.toLowerCase()]?.[device]
+  if (!fold) return { visible: text, truncated: false }
+
+  let end = text.length
+  let lineBreaks = 0
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n' && ++lineBreaks === fold.lines) {
+      end = index
+      break
+    }
+  }
+  end = Math.min(end, fold.chars)
+  if (end >= text.trimEnd().length) return { visible: text, truncated: false }
+
+  const lastSpace = text.slice(0, end + 1).search(/\s\S*$/)
+  const cut = lastSpace > end / 2 ? lastSpace : end
+  return { visible: text.slice(0, cut).trimEnd(), truncated: true }
+}
+
+export interface PostTextPart {
+  type: 'text' | 'url' | 'hashtag' | 'mention'
+  text: string
+}
+
+const TOKEN_PATTERN = /(https?:\/\/[^\s]+)|((?:^|(?<=[^\p{L}\p{N}_&]))#[\p{L}\p{N}_]+)|((?:^|(?<=[^\p{L}\p{N}_]))@[\p{L}\p{N}_.]+)/gu
+
+// Split post text into plain runs and the pieces platforms highlight
+export const tokenizePostText = (text: string): PostTextPart[] => {
+  const parts: PostTextPart[] = []
+  let last = 0
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > last) parts.push({ type: 'text', text: text.slice(last, index) })
+    parts.push({ type: match[1] ? 'url' : match[2] ? 'hashtag' : 'mention', text: match[0] })
+    last = index + match[0].length
+  }
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) })
+  return parts
+}
+
+export const firstUrl = (text: string | null | undefined) => {
+  return text?.match(/https?:\/\/[^\s]+/)?.[0] ?? null
+}
+
+export const linkDomain = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+// The handle at the end of a profile URL, e.g. twitter.com/jane -> jane
+export const handleFromProfileUrl = (url: string | null | undefined) => {
+  if (!url) return null
+  const handle = url.replace(/[?#].*$/, '').replace(/\/+$/, '').split('/').pop()
+  return handle && !handle.includes('.') ? handle.replace(/^@/, '') : null
+}
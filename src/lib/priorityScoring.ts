@@ -0,0 +1,165 @@
+import { supabase, type Idea, type WorkspaceSettings } from '@/lib/supabase'
+import { fetchWorkspaceSettings } from '@/lib/workspaceSettings'
+import { jaccard, tokenize } from '@/lib/text'
+
+export interface PriorityWeights {
+  engagement: number
+  relevance: number
+  recency: number
+}
+
+// Every signal is normalized to 0-1
+export interface PrioritySignals {
+  engagement: number
+  relevance: number
+  recency: number
+}
+
+export interface PriorityBreakdown {
+  score: number
+  signals: PrioritySignals
+  weights: PriorityWeights
+  // Share of the final score each signal accounts for
+  contributions: PrioritySignals
+}
+
+export interface ScoringContext {
+  weights: PriorityWeights
+  domainsByUser: Map<number, string | null>
+  history: { tokens: Set<string>; published: boolean }[]
+  now: Date
+}
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  engagement: 0.5,
+  relevance: 0.5,
+  recency: 0.5
+}
+
+// An idea loses half of its recency every week
+export const RECENCY_HALF_LIFE_DAYS = 7
+
+// Content needs at least this much word overlap to count as similar
+const SIMILARITY_THRESHOLD = 0.1
+
+const HISTORY_LIMIT = 500
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const weightsFromSettings = (settings: WorkspaceSettings | null): PriorityWeights => {
+  if (!settings) return DEFAULT_PRIORITY_WEIGHTS
+  return {
+    engagement: Number(settings.engagement_weight),
+    relevance: Number(settings.relevance_weight),
+    recency: Number(settings.recency_weight)
+  }
+}
+
+// How recently the idea was added. This is not a trend measure: when the
+// source item behind an idea was published or fetched is not recorded
+// anywhere, so an idea about an old article scores as fresh as one about
+// today's news.
+export const recencySignal = (createdAt: string, now: Date) => {
+  const ageDays = Math.max(0, now.getTime() - new Date(createdAt).getTime()) / DAY_MS
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS)
+}
+
+// Share of the domain's keywords found in the idea. Keywords also match on a
+// shared five letter stem so "marketing" matches "market". Neutral when the
+// leader has no domain set.
+export const relevanceSignal = (text: string | null, domain: string | null) => {
+  const keywords = [...new Set(tokenize(domain))]
+  if (keywords.length === 0) return 0.5
+
+  const tokens = tokenize(text)
+  const matched = keywords.filter(keyword =>
+    tokens.some(token =>
+      token === keyword ||
+      (keyword.length >= 5 && token.length >= 5 && token.slice(0, 5) === keyword.slice(0, 5))
+    )
+  )
+  return matched.length / keywords.length
+}
+
+// Similarity-weighted publish rate of earlier content resembling the idea.
+// Platform metrics are not collected yet, so content that made it to
+// publication stands in for content that engaged. Neutral without history.
+export const engagementSignal = (text: string | null, history: ScoringContext['history']) => {
+  const tokens = new Set(tokenize(text))
+  let weighted = 0
+  let total = 0
+
+  for (const item of history) {
+    const similarity = jaccard(tokens, item.tokens)
+    if (similarity >= SIMILARITY_THRESHOLD) {
+      weighted += similarity * (item.published ? 1 : 0)
+      total += similarity
+    }
+  }
+
+  return total > 0 ? weighted / total : 0.5
+}
+
+export const scoreIdea = (idea: Pick<Idea, 'content' | 'created_at' | 'user_id'>, context: ScoringContext): PriorityBreakdown => {
+  const signals: PrioritySignals = {
+    engagement: engagementSignal(idea.content, context.history),
+    relevance: relevanceSignal(idea.content, idea.user_id !== null ? context.domainsByUser.get(idea.user_id) ?? null : null),
+    recency: recencySignal(idea.created_at, context.now)
+  }
+
+  // All-zero weights would leave nothing to rank by, so fall back to equal ones
+  const weights = context.weights
+  const weightTotal = weights.engagement + weights.relevance + weights.recency
+  const effective = weightTotal > 0 ? weights : { engagement: 1, relevance: 1, recency: 1 }
+  const total = weightTotal > 0 ? weightTotal : 3
+
+  const contributions: PrioritySignals = {
+    engagement: (effective.engagement * signals.engagement) / total,
+    relevance: (effective.relevance * signals.relevance) / total,
+    recency: (effective.recency * signals.recency) / total
+  }
+
+  return {
+    score: contributions.engagement + contributions.relevance + contributions.recency,
+    signals,
+    weights,
+    contributions
+  }
+}
+
+// Load everything scoring needs in one go: weights, leader domains and the
+// recent content history
+export const fetchScoringContext = async (): Promise<ScoringContext> => {
+  const [settings, usersResult, contentsResult] = await Promise.all([
+    fetchWorkspaceSettings(),
+    supabase.from('users').select('id, domain'),
+    supabase
+      .from('contents')
+      .select('content, status')
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+  ])
+
+  if (usersResult.error) {
+    throw usersResult.error
+  }
+  if (contentsResult.error) {
+    throw contentsResult.error
+  }
+
+  return {
+    weights: weightsFromSettings(settings),
+    domainsByUser: new Map((usersResult.data || []).map(user => [user.id, user.domain])),
+    history: (contentsResult.data || []).map(content => ({
+      tokens: new Set(tokenize(content.content)),
+      published: content.status === 'published'
+    })),
+    now: new Date()
+  }
+}
+
+// Scores are stored on a 0-1 scale and shown out of 10
+export const formatPriorityScore = (score: number | null | undefined) => {
+  if (score === null || score === undefined) return '—'
+  return (Math.min(1, Math.max(0, score)) * 10).toFixed(1)
+}
@@ -0,0 +1,5 @@
+export type { Publisher, PublishResult } from './types'
+export { publishSucceeded, publishFailed } from './types'
+export { createMakeWebhookPublisher } from './makeWebhook'
+export { createSandboxPublisher, isSandboxPermalink, SANDBOX_PERMALINK_PREFIX } from './sandbox'
+export { registerPublisher, getPublisher, hasPublisher, listPublishers } from './registry'
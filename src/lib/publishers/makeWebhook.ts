@@ -0,0 +1,51 @@
+import type { Publisher } from './types'
+import { publishFailed, publishSucceeded } from './types'
+import { resolveWebhookEndpoint } from '@/lib/webhookEndpoints'
+import { describeDeliveryFailure, dispatchWebhook, isDeliverySucceeded } from '@/lib/webhookDeliveries'
+
+// Scenarios may answer with a custom webhook response carrying the post
+// details; anything else (e.g. Make.com's default "Accepted") is ignored.
+const parsePostDetails = (responseBody: string | null) => {
+  if (!responseBody) return {}
+  try {
+    const parsed = JSON.parse(responseBody)
+    return {
+      externalPostId: parsed.post_id ? String(parsed.post_id) : null,
+      permalink: typeof parsed.permalink === 'string' ? parsed.permalink : null
+    }
+  } catch {
+    return {}
+  }
+}
+
+// Publishes by posting the versioned publish payload (content, author profile
+// and active prompts, built by `dispatch-webhook`) to a Make.com scenario, which posts it to the platform. The hook URL comes from
+// the `webhook_endpoints` table so scenarios can be rotated without a deploy.
+export const createMakeWebhookPublisher = (platform: string, label: string): Publisher => ({
+  platform,
+  label,
+  publish: async (content) => {
+    try {
+      const endpoint = await resolveWebhookEndpoint('publish', platform, content.user_id)
+      if (!endpoint) {
+        return publishFailed(platform, content.id, `No enabled ${label} publish webhook configured`)
+      }
+
+      const delivery = await dispatchWebhook({
+        endpointId: endpoint.id,
+        contentId: content.id
+      })
+
+      if (!isDeliverySucceeded(delivery)) {
+        return publishFailed(platform, content.id, `${label}: ${describeDeliveryFailure(delivery)}`)
+      }
+
+      console.log(`${label} webhook delivered for content ID: ${content.id}`)
+      return publishSucceeded(platform, content.id, parsePostDetails(delivery.response_body))
+    } catch (err) {
+      console.error(`Error calling ${label} webhook for content ${content.id}:`, err)
+      const errorMessage = err instanceof Error ? err.message : `Failed to reach ${label} webhook`
+      return publishFailed(platform, content.id, errorMessage)
+    }
+  }
+})
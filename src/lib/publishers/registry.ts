@@ -0,0 +1,26 @@
+import type { Publisher } from './types'
+import { createMakeWebhookPublisher } from './makeWebhook'
+
+const publishers = new Map<string, Publisher>()
+
+export const registerPublisher = (publisher: Publisher) => {
+  publishers.set(publisher.platform, publisher)
+}
+
+export const getPublisher = (platform: string | null | undefined) => {
+  if (!platform) return undefined
+  return publishers.get(platform)
+}
+
+export const hasPublisher = (platform: string | null | undefined) => {
+  return getPublisher(platform) !== undefined
+}
+
+export const listPublishers = () => {
+  return Array.from(publishers.values())
+}
+
+// Default adapters. Platforms without an adapter (Instagram, Twitter, TikTok,
+// YouTube) are reported as unsupported instead of being marked published.
+registerPublisher(createMakeWebhookPublisher('linkedin', 'LinkedIn'))
+registerPublisher(createMakeWebhookPublisher('facebook', 'Facebook'))
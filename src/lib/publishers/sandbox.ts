@@ -0,0 +1,62 @@
+import type { Publisher } from './types'
+import { publishFailed, publishSucceeded } from './types'
+import { supabase } from '@/lib/supabase'
+
+export const SANDBOX_PERMALINK_PREFIX = 'sandbox://'
+
+const platformLabels: Record<string, string> = {
+  linkedin: 'LinkedIn',
+  twitter: 'Twitter',
+  instagram: 'Instagram',
+  tiktok: 'TikTok',
+  facebook: 'Facebook',
+  youtube: 'YouTube'
+}
+
+export const isSandboxPermalink = (permalink: string | null | undefined) => {
+  return !!permalink && permalink.startsWith(SANDBOX_PERMALINK_PREFIX)
+}
+
+const createSandboxPostId = (platform: string) => {
+  const random = Math.random().toString(36).slice(2, 10)
+  return `sandbox_${platform}_${Date.now().toString(36)}${random}`
+}
+
+// Simulates publishing to any platform. Nothing leaves the app: the fake post
+// id and permalink are recorded in `sandbox_publications`, apart from real
+// publishing state, so the flow can be demoed and tested end to end.
+export const createSandboxPublisher = (platform: string): Publisher => {
+  const label = platformLabels[platform] || platform
+
+  return {
+    platform,
+    label: `${label} (sandbox)`,
+    publish: async (content) => {
+      try {
+        const externalPostId = createSandboxPostId(platform)
+        const permalink = `${SANDBOX_PERMALINK_PREFIX}${platform}/posts/${externalPostId}`
+
+        const { error } = await supabase
+          .from('sandbox_publications')
+          .insert([{
+            content_id: content.id,
+            user_id: content.user_id,
+            platform,
+            external_post_id: externalPostId,
+            permalink,
+            content_snapshot: content.content
+          }])
+
+        if (error) {
+          throw error
+        }
+
+        return publishSucceeded(platform, content.id, { externalPostId, permalink, sandbox: true })
+      } catch (err) {
+        console.error(`Error recording sandbox publication for content ${content.id}:`, err)
+        const errorMessage = err instanceof Error ? err.message : 'Failed to record sandbox publication'
+        return publishFailed(platform, content.id, `${label} (sandbox): ${errorMessage}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import type { Content } from '@/lib/supabase'
+
+export interface PublishResult {
+  success: boolean
+  platform: string
+  contentId: number
+  externalPostId: string | null
+  permalink: string | null
+  error: string | null
+  // True when the result came from the sandbox publisher and nothing was
+  // actually posted
+  sandbox: boolean
+}
+
+// A publisher delivers one piece of content to one platform. Each platform
+// gets its own adapter so swapping Make.com for a direct API integration only
+// touches that adapter.
+export interface Publisher {
+  platform: string
+  label: string
+  publish: (content: Content) => Promise<PublishResult>
+}
+
+export const publishSucceeded = (
+  platform: string,
+  contentId: number,
+  details: { externalPostId?: string | null; permalink?: string | null; sandbox?: boolean } = {}
+): PublishResult => ({
+  success: true,
+  platform,
+  contentId,
+  externalPostId: details.externalPostId ?? null,
+  permalink: details.permalink ?? null,
+  error: null,
+  sandbox: details.sandbox ?? false
+})
+
+export const publishFailed = (platform: string, contentId: number, error: string): PublishResult => ({
+  success: false,
+  platform,
+  contentId,
+  externalPostId: null,
+  permalink: null,
+  error,
+  sandbox: false
+})
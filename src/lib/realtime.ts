@@ -0,0 +1,34 @@
+import { supabase } from '@/lib/supabase'
+
+export interface TableChange<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  new: T
+  old: Partial<T>
+}
+
+let channelCounter = 0
+
+// Subscribe to row changes on a table and return an unsubscribe function for
+// useEffect cleanup. supabase.channel() hands back the existing channel for a
+// topic it has seen before, so every subscriber gets its own topic name.
+export const subscribeToTableChanges = <T extends object>(
+  table: string,
+  event: 'INSERT' | 'UPDATE' | 'DELETE' | '*',
+  onChange: (change: TableChange<T>) => void
+) => {
+  channelCounter += 1
+  const channel = supabase
+    .channel(`${table}-${event.toLowerCase()}-${channelCounter}`)
+    .on('postgres_changes', { event: event as '*', schema: 'public', table }, (payload) => {
+      onChange({
+        eventType: payload.eventType,
+        new: payload.new as T,
+        old: payload.old as Partial<T>
+      })
+    })
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
@@ -21,7 +21,19 @@ export interface Database {
           content: string | null
           priority_score: number | null
           used_at: string | null
-          status: string | null
+          status: string
+          status_changed_at: string
+          duplicate_of: number | null
+          duplicate_similarity: number | null
+          merged_idea_ids: number[]
+          source_url: string | null
+          source_id: number | null
+          source_excerpt: string | null
+          merged_source_ids: number[]
+          content_search: string
+          timeliness: string
+          decay_half_life_days: number | null
+          expires_at: string | null
         }
         Insert: {
           id?: number
@@ -30,7 +42,18 @@ export interface Database {
           content?: string | null
           priority_score?: number | null
           used_at?: string | null
-          status?: string | null
+          status?: string
+          status_changed_at?: string
+          duplicate_of?: number | null
+          duplicate_similarity?: number | null
+          merged_idea_ids?: number[]
+          source_url?: string | null
+          source_id?: number | null
+          source_excerpt?: string | null
+          merged_source_ids?: number[]
+          timeliness?: string
+          decay_half_life_days?: number | null
+          expires_at?: string | null
         }
         Update: {
           id?: number
@@ -39,7 +62,18 @@ export interface Database {
           content?: string | null
           priority_score?: number | null
           used_at?: string | null
-          status?: string | null
+          status?: string
+          status_changed_at?: string
+          duplicate_of?: number | null
+          duplicate_similarity?: number | null
+          merged_idea_ids?: number[]
+          source_url?: string | null
+          source_id?: number | null
+          source_excerpt?: string | null
+          merged_source_ids?: number[]
+          timeliness?: string
+          decay_half_life_days?: number | null
+          expires_at?: string | null
         }
       }
       users: {
@@ -88,6 +122,9 @@ export interface Database {
           content_url: string | null
           status: string | null
           content: string | null
+          edited_by: number | null
+          media_url: string | null
+          reviewer_id: number | null
         }
         Insert: {
           id?: number
@@ -99,6 +136,9 @@ export interface Database {
           content_url?: string | null
           status?: string | null
           content?: string | null
+          edited_by?: number | null
+          media_url?: string | null
+          reviewer_id?: number | null
         }
         Update: {
           id?: number
@@ -110,6 +150,9 @@ export interface Database {
           content_url?: string | null
           status?: string | null
           content?: string | null
+          edited_by?: number | null
+          media_url?: string | null
+          reviewer_id?: number | null
         }
       }
       sources: {
@@ -216,6 +259,420 @@ export interface Database {
           posted_at?: string | null
         }
       }
+      webhook_endpoints: {
+        Row: {
+          id: number
+          created_at: string
+          user_id: number | null
+          name: string | null
+          purpose: string
+          platform: string | null
+          url: string
+          enabled: boolean
+          has_secret: boolean
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          user_id?: number | null
+          name?: string | null
+          purpose: string
+          platform?: string | null
+          url: string
+          enabled?: boolean
+          secret?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          user_id?: number | null
+          name?: string | null
+          purpose?: string
+          platform?: string | null
+          url?: string
+          enabled?: boolean
+          secret?: string | null
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: number
+          created_at: string
+          endpoint_id: number | null
+          idea_id: number | null
+          content_id: number | null
+          purpose: string
+          platform: string | null
+          url: string
+          payload: Record<string, unknown>
+          status: string
+          attempt_count: number
+          max_attempts: number
+          response_code: number | null
+          response_body: string | null
+          last_error: string | null
+          last_attempt_at: string | null
+          next_retry_at: string | null
+          delivered_at: string | null
+          completed_at: string | null
+          result_content_id: number | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          endpoint_id?: number | null
+          idea_id?: number | null
+          content_id?: number | null
+          purpose: string
+          platform?: string | null
+          url: string
+          payload?: Record<string, unknown>
+          status?: string
+          attempt_count?: number
+          max_attempts?: number
+          response_code?: number | null
+          response_body?: string | null
+          last_error?: string | null
+          last_attempt_at?: string | null
+          next_retry_at?: string | null
+          delivered_at?: string | null
+          completed_at?: string | null
+          result_content_id?: number | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          endpoint_id?: number | null
+          idea_id?: number | null
+          content_id?: number | null
+          purpose?: string
+          platform?: string | null
+          url?: string
+          payload?: Record<string, unknown>
+          status?: string
+          attempt_count?: number
+          max_attempts?: number
+          response_code?: number | null
+          response_body?: string | null
+          last_error?: string | null
+          last_attempt_at?: string | null
+          next_retry_at?: string | null
+          delivered_at?: string | null
+          completed_at?: string | null
+          result_content_id?: number | null
+        }
+      }
+      workspace_settings: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          sandbox_mode: boolean
+          engagement_weight: number
+          relevance_weight: number
+          recency_weight: number
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          sandbox_mode?: boolean
+          engagement_weight?: number
+          relevance_weight?: number
+          recency_weight?: number
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          sandbox_mode?: boolean
+          engagement_weight?: number
+          relevance_weight?: number
+          recency_weight?: number
+        }
+      }
+      sandbox_publications: {
+        Row: {
+          id: number
+          created_at: string
+          content_id: number | null
+          user_id: number | null
+          platform: string
+          external_post_id: string
+          permalink: string
+          content_snapshot: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          content_id?: number | null
+          user_id?: number | null
+          platform: string
+          external_post_id: string
+          permalink: string
+          content_snapshot?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          content_id?: number | null
+          user_id?: number | null
+          platform?: string
+          external_post_id?: string
+          permalink?: string
+          content_snapshot?: string | null
+        }
+      }
+      content_publications: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          content_id: number
+          platform: string
+          state: 'pending' | 'published' | 'failed'
+          external_post_id: string | null
+          permalink: string | null
+          published_at: string | null
+          error: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          content_id: number
+          platform: string
+          state?: 'pending' | 'published' | 'failed'
+          external_post_id?: string | null
+          permalink?: string | null
+          published_at?: string | null
+          error?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          content_id?: number
+          platform?: string
+          state?: 'pending' | 'published' | 'failed'
+          external_post_id?: string | null
+          permalink?: string | null
+          published_at?: string | null
+          error?: string | null
+        }
+      }
+      idea_status_transitions: {
+        Row: {
+          id: number
+          created_at: string
+          idea_id: number
+          from_status: string | null
+          to_status: string
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          idea_id: number
+          from_status?: string | null
+          to_status: string
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          idea_id?: number
+          from_status?: string | null
+          to_status?: string
+        }
+      }
+      tags: {
+        Row: {
+          id: number
+          created_at: string
+          name: string
+          origin: 'manual' | 'cluster'
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          name: string
+          origin?: 'manual' | 'cluster'
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          name?: string
+          origin?: 'manual' | 'cluster'
+        }
+      }
+      idea_tags: {
+        Row: {
+          idea_id: number
+          tag_id: number
+          created_at: string
+        }
+        Insert: {
+          idea_id: number
+          tag_id: number
+          created_at?: string
+        }
+        Update: {
+          idea_id?: number
+          tag_id?: number
+          created_at?: string
+        }
+      }
+      content_plan_items: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          user_id: number | null
+          idea_id: number
+          platform: string
+          content_type: string
+          status: 'planned' | 'requested' | 'drafted' | 'failed'
+          requested_at: string | null
+          drafted_at: string | null
+          content_id: number | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          user_id?: number | null
+          idea_id: number
+          platform: string
+          content_type: string
+          status?: 'planned' | 'requested' | 'drafted' | 'failed'
+          requested_at?: string | null
+          drafted_at?: string | null
+          content_id?: number | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          user_id?: number | null
+          idea_id?: number
+          platform?: string
+          content_type?: string
+          status?: 'planned' | 'requested' | 'drafted' | 'failed'
+          requested_at?: string | null
+          drafted_at?: string | null
+          content_id?: number | null
+        }
+      }
+      content_revisions: {
+        Row: {
+          id: number
+          created_at: string
+          content_id: number
+          revision_number: number
+          content: string | null
+          author_id: number | null
+          kind: 'original' | 'edit' | 'restore'
+          restored_from: number | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          content_id: number
+          revision_number: number
+          content?: string | null
+          author_id?: number | null
+          kind?: 'original' | 'edit' | 'restore'
+          restored_from?: number | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          content_id?: number
+          revision_number?: number
+          content?: string | null
+          author_id?: number | null
+          kind?: 'original' | 'edit' | 'restore'
+          restored_from?: number | null
+        }
+      }
+      content_reviews: {
+        Row: {
+          id: number
+          created_at: string
+          content_id: number
+          action: 'submitted' | 'approved' | 'changes_requested'
+          author_id: number | null
+          reviewer_id: number | null
+          comment: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          content_id: number
+          action: 'submitted' | 'approved' | 'changes_requested'
+          author_id?: number | null
+          reviewer_id?: number | null
+          comment?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          content_id?: number
+          action?: 'submitted' | 'approved' | 'changes_requested'
+          author_id?: number | null
+          reviewer_id?: number | null
+          comment?: string | null
+        }
+      }
+      content_comments: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          content_id: number
+          parent_id: number | null
+          author_id: number | null
+          body: string
+          anchor_start: number | null
+          anchor_end: number | null
+          anchor_text: string | null
+          anchor_prefix: string | null
+          anchor_suffix: string | null
+          resolved_at: string | null
+          resolved_by: number | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          content_id: number
+          parent_id?: number | null
+          author_id?: number | null
+          body: string
+          anchor_start?: number | null
+          anchor_end?: number | null
+          anchor_text?: string | null
+          anchor_prefix?: string | null
+          anchor_suffix?: string | null
+          resolved_at?: string | null
+          resolved_by?: number | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          content_id?: number
+          parent_id?: number | null
+          author_id?: number | null
+          body?: string
+          anchor_start?: number | null
+          anchor_end?: number | null
+          anchor_text?: string | null
+          anchor_prefix?: string | null
+          anchor_suffix?: string | null
+          resolved_at?: string | null
+          resolved_by?: number | null
+        }
+      }
     }
   }
 }
@@ -248,6 +705,54 @@ export type ScheduledContent = Database['public']['Tables']['scheduled_content']
 export type ScheduledContentInsert = Database['public']['Tables']['scheduled_content']['Insert']
 export type ScheduledContentUpdate = Database['public']['Tables']['scheduled_content']['Update']
 
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row']
+export type WebhookEndpointInsert = Database['public']['Tables']['webhook_endpoints']['Insert']
+export type WebhookEndpointUpdate = Database['public']['Tables']['webhook_endpoints']['Update']
+
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
+export type WebhookDeliveryInsert = Database['public']['Tables']['webhook_deliveries']['Insert']
+export type WebhookDeliveryUpdate = Database['public']['Tables']['webhook_deliveries']['Update']
+
+export type WorkspaceSettings = Database['public']['Tables']['workspace_settings']['Row']
+export type WorkspaceSettingsInsert = Database['public']['Tables']['workspace_settings']['Insert']
+export type WorkspaceSettingsUpdate = Database['public']['Tables']['workspace_settings']['Update']
+
+export type SandboxPublication = Database['public']['Tables']['sandbox_publications']['Row']
+export type SandboxPublicationInsert = Database['public']['Tables']['sandbox_publications']['Insert']
+export type SandboxPublicationUpdate = Database['public']['Tables']['sandbox_publications']['Update']
+
+export type ContentPublication = Database['public']['Tables']['content_publications']['Row']
+export type ContentPublicationInsert = Database['public']['Tables']['content_publications']['Insert']
+export type ContentPublicationUpdate = Database['public']['Tables']['content_publications']['Update']
+
+export type IdeaStatusTransition = Database['public']['Tables']['idea_status_transitions']['Row']
+export type IdeaStatusTransitionInsert = Database['public']['Tables']['idea_status_transitions']['Insert']
+export type IdeaStatusTransitionUpdate = Database['public']['Tables']['idea_status_transitions']['Update']
+
+export type Tag = Database['public']['Tables']['tags']['Row']
+export type TagInsert = Database['public']['Tables']['tags']['Insert']
+export type TagUpdate = Database['public']['Tables']['tags']['Update']
+
+export type IdeaTag = Database['public']['Tables']['idea_tags']['Row']
+export type IdeaTagInsert = Database['public']['Tables']['idea_tags']['Insert']
+export type IdeaTagUpdate = Database['public']['Tables']['idea_tags']['Update']
+
+export type ContentPlanItem = Database['public']['Tables']['content_plan_items']['Row']
+export type ContentPlanItemInsert = Database['public']['Tables']['content_plan_items']['Insert']
+export type ContentPlanItemUpdate = Database['public']['Tables']['content_plan_items']['Update']
+
+export type ContentRevision = Database['public']['Tables']['content_revisions']['Row']
+export type ContentRevisionInsert = Database['public']['Tables']['content_revisions']['Insert']
+export type ContentRevisionUpdate = Database['public']['Tables']['content_revisions']['Update']
+
+export type ContentReview = Database['public']['Tables']['content_reviews']['Row']
+export type ContentReviewInsert = Database['public']['Tables']['content_reviews']['Insert']
+export type ContentReviewUpdate = Database['public']['Tables']['content_reviews']['Update']
+
+export type ContentComment = Database['public']['Tables']['content_comments']['Row']
+export type ContentCommentInsert = Database['public']['Tables']['content_comments']['Insert']
+export type ContentCommentUpdate = Database['public']['Tables']['content_comments']['Update']
+
 // Test connection function
 export const testConnection = async () => {
   try {
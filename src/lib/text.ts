@@ -0,0 +1,26 @@
+// Small text helpers shared by scoring, duplicate detection and clustering
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'do', 'does', 'for', 'from', 'get', 'had', 'has', 'have', 'how', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'more', 'most', 'my', 'new', 'no', 'not', 'of', 'on', 'or', 'our', 'out', 'so', 'some',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'up', 'us', 'was',
+  'we', 'were', 'what', 'when', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your'
+])
+
+// Lowercase words of three or more characters, stopwords removed
+export const tokenize = (text: string | null | undefined) => {
+  if (!text) return []
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word))
+}
+
+// Jaccard similarity of two token sets, 0 when both are empty
+export const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 0
+  let shared = 0
+  a.forEach(token => {
+    if (b.has(token)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
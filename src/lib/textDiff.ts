@@ -0,0 +1,87 @@
+// Word-level diff between two texts, used to compare content revisions
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Above this many LCS cells (4 bytes each) the diff falls back to whole lines
+const MAX_CELLS = 10_000_000
+
+// Words with their trailing whitespace, so joining the tokens gives the text back
+const wordTokens = (text: string) => text.match(/^\s+|\S+\s*/g) || []
+
+const lineTokens = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || []
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    parts.push({ type, text })
+  }
+}
+
+const diffTokens = (before: string[], after: string[], maxCells = Infinity): DiffPart[] | null => {
+  // Common prefix and suffix don't need the table
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+  if ((a.length + 1) * (b.length + 1) > maxCells) return null
+
+  const parts: DiffPart[] = []
+  before.slice(0, start).forEach(token => pushPart(parts, 'equal', token))
+
+  // lengths[i][j] = LCS of a[i..] and b[j..], flattened
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, 'removed', a[i++])
+    } else {
+      pushPart(parts, 'added', b[j++])
+    }
+  }
+  a.slice(i).forEach(token => pushPart(parts, 'removed', token))
+  b.slice(j).forEach(token => pushPart(parts, 'added', token))
+
+  before.slice(endBefore).forEach(token => pushPart(parts, 'equal', token))
+  return parts
+}
+
+export const diffText = (before: string | null | undefined, after: string | null | undefined): DiffPart[] => {
+  return diffTokens(wordTokens(before || ''), wordTokens(after || ''), MAX_CELLS)
+    || diffTokens(lineTokens(before || ''), lineTokens(after || ''))
+    || []
+}
+
+// Count of added and removed words, for revision summaries
+export const diffStats = (parts: DiffPart[]) => {
+  const count = (type: DiffPart['type']) => parts
+    .filter(part => part.type === type)
+    .reduce((sum, part) => sum + (part.text.match(/\S+/g) || []).length, 0)
+
+  return { added: count('added'), removed: count('removed') }
+}
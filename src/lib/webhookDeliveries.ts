@@ -0,0 +1,53 @@
+import { supabase, type WebhookDelivery } from '@/lib/supabase'
+
+// What the payload is built from; which fields are needed depends on the
+// endpoint's purpose (see the `dispatch-webhook` function)
+export interface DispatchWebhookRequest {
+  endpointId: number
+  ideaId?: number | null
+  contentId?: number | null
+  contentType?: string | null
+  // The onboarding form, for onboarding endpoints
+  profile?: unknown
+}
+
+// Outbound webhooks go through the `dispatch-webhook` edge function, which
+// builds and signs the payload, makes the call server-side, logs it in
+// `webhook_deliveries` and schedules retries. The returned delivery reflects
+// the first attempt.
+export const dispatchWebhook = async (request: DispatchWebhookRequest) => {
+  const { data, error } = await supabase.functions.invoke('dispatch-webhook', {
+    body: {
+      endpoint_id: request.endpointId,
+      idea_id: request.ideaId ?? null,
+      content_id: request.contentId ?? null,
+      content_type: request.contentType ?? null,
+      profile: request.profile
+    }
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return data as WebhookDelivery
+}
+
+export const retryWebhookDelivery = async (deliveryId: number) => {
+  const { data, error } = await supabase.functions.invoke('dispatch-webhook', {
+    body: { delivery_id: deliveryId }
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return data as WebhookDelivery
+}
+
+export const isDeliverySucceeded = (delivery: WebhookDelivery) => delivery.status === 'succeeded'
+
+export const describeDeliveryFailure = (delivery: WebhookDelivery) => {
+  const reason = delivery.last_error || `Delivery ${delivery.status}`
+  return delivery.status === 'retrying' ? `${reason} (will retry)` : reason
+}
@@ -0,0 +1,60 @@
+import { supabase, type WebhookEndpoint } from '@/lib/supabase'
+
+export type WebhookPurpose = 'content_generation' | 'publish' | 'onboarding' | 'generation_callback'
+
+export const webhookPurposes: { value: WebhookPurpose; label: string }[] = [
+  { value: 'content_generation', label: 'Content Generation' },
+  { value: 'publish', label: 'Publishing' },
+  { value: 'onboarding', label: 'Onboarding' },
+  { value: 'generation_callback', label: 'Generation Callback (inbound)' }
+]
+
+// `secret` is write-only for client roles, so reads must list columns
+// explicitly instead of selecting '*'
+export const WEBHOOK_ENDPOINT_COLUMNS = 'id, created_at, user_id, name, purpose, platform, url, enabled, has_secret'
+
+// 32 random bytes, hex encoded, for use as an HMAC signing secret
+export const generateWebhookSecret = () => {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Pick the endpoint for a purpose/platform pair. A leader's own endpoint wins
+// over the workspace default (user_id null); disabled endpoints are ignored.
+export const selectWebhookEndpoint = (
+  endpoints: WebhookEndpoint[],
+  purpose: WebhookPurpose,
+  platform: string | null,
+  userId: number | null = null
+) => {
+  const candidates = endpoints.filter(endpoint =>
+    endpoint.enabled &&
+    endpoint.purpose === purpose &&
+    (endpoint.platform || null) === (platform ? platform.toLowerCase() : null)
+  )
+
+  return (
+    (userId !== null && candidates.find(endpoint => endpoint.user_id === userId)) ||
+    candidates.find(endpoint => endpoint.user_id === null)
+  ) || undefined
+}
+
+// Fetch and resolve an endpoint outside of React (publishers, one-off calls)
+export const resolveWebhookEndpoint = async (
+  purpose: WebhookPurpose,
+  platform: string | null,
+  userId: number | null = null
+) => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select(WEBHOOK_ENDPOINT_COLUMNS)
+    .eq('purpose', purpose)
+    .eq('enabled', true)
+
+  if (error) {
+    throw error
+  }
+
+  return selectWebhookEndpoint(data || [], purpose, platform, userId)
+}
@@ -0,0 +1,45 @@
+import { supabase, type WorkspaceSettingsUpdate } from '@/lib/supabase'
+
+// The workspace has exactly one settings row
+export const WORKSPACE_SETTINGS_ID = 1
+
+// Fetch the settings outside of React (publishing, one-off checks). A missing
+// row means the defaults apply.
+export const fetchWorkspaceSettings = async () => {
+  const { data, error } = await supabase
+    .from('workspace_settings')
+    .select('*')
+    .eq('id', WORKSPACE_SETTINGS_ID)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+// Update the settings row. The row is seeded by its migration and clients may
+// only update it, so this is a plain update rather than an upsert.
+export const saveWorkspaceSettings = async (updates: WorkspaceSettingsUpdate) => {
+  const { data, error } = await supabase
+    .from('workspace_settings')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', WORKSPACE_SETTINGS_ID)
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+export const isSandboxModeEnabled = async () => {
+  const settings = await fetchWorkspaceSettings()
+  return settings?.sandbox_mode ?? false
+}
@@ -0,0 +1,59 @@
+import { createMockProvider, type MockResponder } from './mock.ts'
+import { createOllamaProvider } from './ollama.ts'
+import { createOpenAICompatibleProvider } from './openaiCompatible.ts'
+import { LlmProviderError, type LlmProvider } from './types.ts'
+
+export type { ChatMessage, CompletionOptions, LlmProvider } from './types.ts'
+export { LlmProviderError } from './types.ts'
+export type { MockResponder } from './mock.ts'
+export { createMockProvider } from './mock.ts'
+export { createOllamaProvider } from './ollama.ts'
+export { createOpenAICompatibleProvider } from './openaiCompatible.ts'
+
+// Pick the provider from the function environment:
+//   LLM_PROVIDER  openai (default) | ollama | mock
+//   LLM_BASE_URL  defaults to https://api.openai.com/v1 or http://host.docker.internal:11434
+//   LLM_API_KEY   required for openai
+//   LLM_MODEL     defaults to gpt-4o-mini or llama3.1
+// `mock` answers with the caller's responder instead of calling a model.
+export const createLlmProvider = (options: { mock?: MockResponder } = {}): LlmProvider => {
+  const provider = (Deno.env.get('LLM_PROVIDER') ?? 'openai').toLowerCase()
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('LLM_API_KEY') ?? ''
+      const baseUrl = Deno.env.get('LLM_BASE_URL') ?? 'https://api.openai.com/v1'
+      if (!apiKey && baseUrl.includes('api.openai.com')) {
+        throw new LlmProviderError('openai', 'LLM_API_KEY is not set')
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl,
+        apiKey,
+        model: Deno.env.get('LLM_MODEL') ?? 'gpt-4o-mini',
+      })
+    }
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: Deno.env.get('LLM_BASE_URL') ?? 'http://host.docker.internal:11434',
+        model: Deno.env.get('LLM_MODEL') ?? 'llama3.1',
+      })
+    case 'mock':
+      if (!options.mock) {
+        throw new LlmProviderError('mock', 'No mock responder for this function')
+      }
+      return createMockProvider(options.mock)
+    default:
+      throw new LlmProviderError(provider, 'Unknown LLM_PROVIDER')
+  }
+}
+
+// Models wrap JSON in code fences or chatter now and then; take the outermost
+// object and let the caller validate it.
+export const parseJsonReply = (reply: string): unknown => {
+  const start = reply.indexOf('{')
+  const end = reply.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    throw new Error('Model reply did not contain a JSON object')
+  }
+  return JSON.parse(reply.slice(start, end + 1))
+}
@@ -0,0 +1,12 @@
+import type { ChatMessage, LlmProvider } from './types.ts'
+
+export type MockResponder = (messages: ChatMessage[]) => string
+
+// Offline stand-in for development and tests. Each function supplies a
+// responder that builds a well-formed reply from the request, so the whole
+// pipeline runs without any model behind it.
+export const createMockProvider = (respond: MockResponder): LlmProvider => ({
+  name: 'mock',
+  model: 'mock',
+  complete: async (messages) => respond(messages),
+})
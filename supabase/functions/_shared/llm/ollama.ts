@@ -0,0 +1,39 @@
+import { LlmProviderError, type LlmProvider } from './types.ts'
+
+interface OllamaConfig {
+  baseUrl: string
+  model: string
+}
+
+// Local stand-in for development: an Ollama server (or anything exposing its
+// `/api/chat` endpoint), so ideas can be generated without a hosted API key.
+export const createOllamaProvider = ({ baseUrl, model }: OllamaConfig): LlmProvider => ({
+  name: 'ollama',
+  model,
+  complete: async (messages, options = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: false,
+        options: { temperature: options.temperature ?? 0.7 },
+        ...(options.json ? { format: 'json' } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw new LlmProviderError('ollama', `HTTP ${response.status}: ${body.slice(0, 500)}`)
+    }
+
+    const data = await response.json()
+    const content = data?.message?.content
+    if (typeof content !== 'string') {
+      throw new LlmProviderError('ollama', 'Response did not contain a message')
+    }
+
+    return content
+  },
+})
@@ -0,0 +1,42 @@
+import { LlmProviderError, type LlmProvider } from './types.ts'
+
+interface OpenAICompatibleConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+}
+
+// Any server speaking the OpenAI chat completions API (OpenAI, Azure,
+// OpenRouter, Groq, vLLM, LM Studio, ...). `baseUrl` includes the `/v1` part.
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleConfig): LlmProvider => ({
+  name: 'openai',
+  model,
+  complete: async (messages, options = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw new LlmProviderError('openai', `HTTP ${response.status}: ${body.slice(0, 500)}`)
+    }
+
+    const data = await response.json()
+    const content = data?.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new LlmProviderError('openai', 'Response did not contain a message')
+    }
+
+    return content
+  },
+})
@@ -0,0 +1,26 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionOptions {
+  // Ask the model for a single JSON object instead of free text
+  json?: boolean
+  temperature?: number
+}
+
+// A provider turns a chat transcript into the model's reply. Each backend
+// (hosted OpenAI-compatible API, local Ollama server, ...) gets its own
+// adapter so callers never deal with wire formats.
+export interface LlmProvider {
+  name: string
+  model: string
+  complete: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>
+}
+
+export class LlmProviderError extends Error {
+  constructor(provider: string, message: string) {
+    super(`${provider}: ${message}`)
+    this.name = 'LlmProviderError'
+  }
+}
@@ -0,0 +1,75 @@
+// HMAC-SHA256 request signing shared by outbound dispatch and inbound
+// callbacks. The signed message is `${timestamp}.${rawBody}` so a captured
+// signature cannot be replayed with a different timestamp.
+
+export const SIGNATURE_HEADER = 'x-webhook-signature'
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp'
+export const REPLAY_WINDOW_SECONDS = 300
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let mismatch = 0
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return mismatch === 0
+}
+
+export const signPayload = async (secret: string, timestamp: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return `sha256=${toHex(signature)}`
+}
+
+export const buildSignatureHeaders = async (secret: string, body: string) => {
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: await signPayload(secret, timestamp, body),
+  }
+}
+
+export type VerificationResult = { valid: true } | { valid: false; reason: string }
+
+// Accepts the request if any of the given secrets produced the signature,
+// which lets an old and a new secret overlap while a scenario is rotated.
+export const verifySignature = async (
+  secrets: string[],
+  timestamp: string | null,
+  signature: string | null,
+  body: string,
+): Promise<VerificationResult> => {
+  if (!timestamp || !signature) {
+    return { valid: false, reason: 'Missing signature headers' }
+  }
+
+  const sentAt = Number(timestamp)
+  if (!Number.isFinite(sentAt)) {
+    return { valid: false, reason: 'Invalid timestamp' }
+  }
+
+  if (Math.abs(Date.now() / 1000 - sentAt) > REPLAY_WINDOW_SECONDS) {
+    return { valid: false, reason: 'Timestamp outside replay window' }
+  }
+
+  for (const secret of secrets) {
+    if (timingSafeEqual(await signPayload(secret, timestamp, body), signature)) {
+      return { valid: true }
+    }
+  }
+
+  return { valid: false, reason: 'Signature mismatch' }
+}
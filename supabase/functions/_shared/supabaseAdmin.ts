@@ -0,0 +1,8 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Service-role client for edge functions; bypasses RLS, never ship to the browser
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  )
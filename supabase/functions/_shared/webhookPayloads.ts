@@ -0,0 +1,271 @@
+import { z } from 'https://esm.sh/zod@3'
+import type { createAdminClient } from './supabaseAdmin.ts'
+import { checkPlatformRules } from '../../../shared/platformRules.ts'
+
+// Payloads are built here from database rows, never taken from the caller,
+// so a signed request always carries data the workspace actually holds.
+
+// Bump whenever a field is removed, renamed or changes meaning. Adding
+// optional fields does not need a new version. Scenarios should branch on
+// `version` instead of guessing from the payload shape.
+export const WEBHOOK_PAYLOAD_VERSION = 1
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const authorSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+  domain: z.string().nullable(),
+  linkedin_url: z.string().nullable(),
+  facebook_url: z.string().nullable(),
+  instagram_url: z.string().nullable(),
+  twitter_url: z.string().nullable(),
+})
+
+const promptSchema = z.object({
+  id: z.number(),
+  name: z.string().nullable(),
+  prompt: z.string().nullable(),
+})
+
+const promptsSchema = z.object({
+  idea_generation: promptSchema.nullable(),
+  content_generation: promptSchema.nullable(),
+})
+
+export const contentGenerationPayloadSchema = z.object({
+  version: z.literal(WEBHOOK_PAYLOAD_VERSION),
+  event: z.literal('content.generate'),
+  sent_at: z.string().datetime(),
+  platform: z.string().min(1),
+  content_type: z.string().min(1),
+  idea: z.object({
+    id: z.number(),
+    content: z.string().nullable(),
+    priority_score: z.number().nullable(),
+    status: z.string().nullable(),
+    created_at: z.string(),
+  }),
+  author: authorSchema.nullable(),
+  prompts: promptsSchema,
+  // Fields from the unversioned payload, kept so existing scenarios keep working
+  id: z.number(),
+  contentType: z.string(),
+})
+
+export const publishPayloadSchema = z.object({
+  version: z.literal(WEBHOOK_PAYLOAD_VERSION),
+  event: z.literal('content.publish'),
+  sent_at: z.string().datetime(),
+  platform: z.string().min(1),
+  content_type: z.string().nullable(),
+  content: z.object({
+    id: z.number(),
+    idea_id: z.number().nullable(),
+    content: z.string().nullable(),
+    status: z.string().nullable(),
+    created_at: z.string(),
+    media_url: z.string().nullable().optional(),
+    // Thread posts in order, when the content type is a thread
+    segments: z.array(z.string()).optional(),
+  }),
+  author: authorSchema.nullable(),
+  prompts: promptsSchema,
+  // Field from the unversioned payload, kept so existing scenarios keep working
+  content_id: z.number(),
+})
+
+const urlListSchema = z.array(z.string().trim().max(500)).max(50)
+
+const prioritySettingsSchema = z.object({
+  engagementWeight: z.number().min(0).max(1),
+  relevanceWeight: z.number().min(0).max(1),
+  recencyWeight: z.number().min(0).max(1),
+}).strict()
+
+// The onboarding form as submitted. Strict, so nothing but these fields can
+// be slipped into a signed request.
+export const onboardingProfileSchema = z.object({
+  userId: z.string().trim().min(1).max(100),
+  contentDomain: z.string().trim().min(1).max(200),
+  contentSources: z.object({
+    websites: urlListSchema,
+    socialHandles: urlListSchema,
+    rssFeeds: urlListSchema,
+  }).strict(),
+  contentPreferences: z.object({
+    contentTypes: z.array(z.string().trim().min(1).max(50)).max(20),
+    platforms: z.array(z.string().trim().min(1).max(50)).max(20),
+    tone: z.string().trim().min(1).max(50),
+  }).strict(),
+  prioritySettings: prioritySettingsSchema,
+}).strict()
+
+// Unversioned: the onboarding scenario predates payload versions
+export const onboardingPayloadSchema = onboardingProfileSchema.extend({
+  prioritySettings: prioritySettingsSchema.extend({
+    // Name from the unversioned payload, kept so existing scenarios keep working
+    trendingWeight: z.number().min(0).max(1),
+  }).strict(),
+  timestamp: z.string().datetime(),
+  source: z.literal('LeaderAmplifierAi'),
+}).strict()
+
+export type ContentGenerationPayload = z.infer<typeof contentGenerationPayloadSchema>
+export type PublishPayload = z.infer<typeof publishPayloadSchema>
+export type OnboardingProfile = z.infer<typeof onboardingProfileSchema>
+export type OnboardingPayload = z.infer<typeof onboardingPayloadSchema>
+
+const AUTHOR_COLUMNS = 'id, name, email, domain, linkedin_url, facebook_url, instagram_url, twitter_url'
+
+const fetchAuthor = async (supabase: AdminClient, userId: number | null) => {
+  if (userId === null) return null
+
+  const { data, error } = await supabase
+    .from('users')
+    .select(AUTHOR_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+const fetchActivePrompt = async (
+  supabase: AdminClient,
+  table: 'idea_generation_prompt' | 'cotent_generation_prompt',
+) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('id, name, prompt')
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+const fetchActivePrompts = async (supabase: AdminClient) => {
+  const [ideaGeneration, contentGeneration] = await Promise.all([
+    fetchActivePrompt(supabase, 'idea_generation_prompt'),
+    fetchActivePrompt(supabase, 'cotent_generation_prompt'),
+  ])
+
+  return {
+    idea_generation: ideaGeneration,
+    content_generation: contentGeneration,
+  }
+}
+
+// Build the payload sent to content generation scenarios. Throws a ZodError
+// if the assembled payload does not match the contract.
+export const buildContentGenerationPayload = async (
+  supabase: AdminClient,
+  ideaId: number,
+  platform: string,
+  contentType: string,
+): Promise<ContentGenerationPayload> => {
+  const { data: idea, error } = await supabase
+    .from('ideas')
+    .select('id, user_id, content, priority_score, status, created_at')
+    .eq('id', ideaId)
+    .single()
+
+  if (error || !idea) {
+    throw new Error(`Idea ${ideaId} not found`)
+  }
+
+  const [author, prompts] = await Promise.all([
+    fetchAuthor(supabase, idea.user_id),
+    fetchActivePrompts(supabase),
+  ])
+
+  return contentGenerationPayloadSchema.parse({
+    version: WEBHOOK_PAYLOAD_VERSION,
+    event: 'content.generate',
+    sent_at: new Date().toISOString(),
+    platform: platform.toLowerCase(),
+    content_type: contentType.toLowerCase(),
+    idea: {
+      id: idea.id,
+      content: idea.content,
+      priority_score: idea.priority_score,
+      status: idea.status,
+      created_at: idea.created_at,
+    },
+    author,
+    prompts,
+    id: idea.id,
+    contentType,
+  })
+}
+
+// Build the payload sent to publish scenarios. Throws a ZodError if the
+// assembled payload does not match the contract.
+export const buildPublishPayload = async (
+  supabase: AdminClient,
+  contentId: number,
+  platform: string,
+): Promise<PublishPayload> => {
+  const { data: content, error } = await supabase
+    .from('contents')
+    .select('id, user_id, idea_id, content, type, status, created_at, media_url')
+    .eq('id', contentId)
+    .single()
+
+  if (error || !content) {
+    throw new Error(`Content ${contentId} not found`)
+  }
+
+  const [author, prompts] = await Promise.all([
+    fetchAuthor(supabase, content.user_id),
+    fetchActivePrompts(supabase),
+  ])
+  const { segments } = checkPlatformRules(content, platform)
+
+  return publishPayloadSchema.parse({
+    version: WEBHOOK_PAYLOAD_VERSION,
+    event: 'content.publish',
+    sent_at: new Date().toISOString(),
+    platform: platform.toLowerCase(),
+    content_type: content.type ? content.type.toLowerCase() : null,
+    content: {
+      id: content.id,
+      idea_id: content.idea_id,
+      content: content.content,
+      status: content.status,
+      created_at: content.created_at,
+      media_url: content.media_url,
+      segments: segments.length > 1 ? segments : undefined,
+    },
+    author,
+    prompts,
+    content_id: content.id,
+  })
+}
+
+// The onboarding form has no row to build from, so the submitted profile is
+// checked field by field and wrapped here. Throws a ZodError if it does not
+// match the form.
+export const buildOnboardingPayload = (profile: unknown): OnboardingPayload => {
+  const parsed = onboardingProfileSchema.parse(profile)
+
+  return onboardingPayloadSchema.parse({
+    ...parsed,
+    prioritySettings: {
+      ...parsed.prioritySettings,
+      trendingWeight: parsed.prioritySettings.recencyWeight,
+    },
+    timestamp: new Date().toISOString(),
+    source: 'LeaderAmplifierAi',
+  })
+}
@@ -0,0 +1,300 @@
+/*
+  # dispatch-webhook
+
+  Performs outbound webhook calls server-side so the response can be read
+  (browser calls had to use `mode: "no-cors"`), and records every attempt in
+  `webhook_deliveries`.
+
+  Request bodies:
+    - `{ endpoint_id, idea_id?, content_id?, content_type?, profile? }`
+      creates a delivery and makes the first attempt
+    - `{ delivery_id }` retries one delivery immediately
+    - `{ retry_due: true }` retries every delivery whose `next_retry_at` has
+      passed; pg_cron sends this every minute
+
+  The payload is built here from the endpoint's purpose and platform (see
+  `_shared/webhookPayloads.ts`), never taken from the caller, so a signature
+  only ever vouches for data the workspace holds:
+    - `content_generation` needs `idea_id` and `content_type`
+    - `publish` needs `content_id`
+    - `onboarding` needs `profile`, the submitted onboarding form, which must
+      match the form's schema exactly
+
+  Failed attempts are retried with exponential backoff
+  (30s, 60s, 120s, ...) until `max_attempts` is reached. A 4xx response
+  other than 408 or 429 fails the delivery straight away, since sending the
+  same request again would get the same answer. The `steady_relay` migration
+  schedules the `retry_due` call with pg_cron.
+
+  Each attempt reads the URL and secret from `webhook_endpoints` again, and
+  deliveries whose endpoint was deleted or disabled fail without a call.
+  When the endpoint has a secret, each attempt is signed with a fresh
+  timestamp (see `_shared/signature.ts`). Only this function writes
+  `webhook_deliveries`; clients can read them but not insert or change them.
+*/
+import { z } from 'https://esm.sh/zod@3'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import { buildSignatureHeaders } from '../_shared/signature.ts'
+import {
+  buildContentGenerationPayload,
+  buildOnboardingPayload,
+  buildPublishPayload,
+} from '../_shared/webhookPayloads.ts'
+
+const BASE_BACKOFF_SECONDS = 30
+const REQUEST_TIMEOUT_MS = 15000
+const MAX_RESPONSE_BODY_LENGTH = 2000
+// Client errors that can go away on their own (timeout, rate limit)
+const RETRYABLE_CLIENT_ERRORS = [408, 429]
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const createRequestSchema = z.object({
+  endpoint_id: z.coerce.number().int().positive(),
+  idea_id: z.coerce.number().int().positive().nullish(),
+  content_id: z.coerce.number().int().positive().nullish(),
+  content_type: z.string().trim().min(1).nullish(),
+  profile: z.unknown().optional(),
+})
+
+type CreateRequest = z.infer<typeof createRequestSchema>
+
+interface Endpoint {
+  id: number
+  purpose: string
+  platform: string | null
+}
+
+interface Delivery {
+  id: number
+  endpoint_id: number | null
+  url: string
+  payload: Record<string, unknown>
+  attempt_count: number
+  max_attempts: number
+}
+
+const nextRetryAt = (attemptCount: number) => {
+  const delaySeconds = BASE_BACKOFF_SECONDS * 2 ** (attemptCount - 1)
+  return new Date(Date.now() + delaySeconds * 1000).toISOString()
+}
+
+// Network errors and 5xx responses are worth another try, most 4xx are not
+const isRetryable = (responseCode: number | null) =>
+  responseCode === null ||
+  responseCode < 400 ||
+  responseCode >= 500 ||
+  RETRYABLE_CLIENT_ERRORS.includes(responseCode)
+
+// Every attempt goes to the endpoint as it is configured now; the URL stored
+// on the delivery is only a record of where earlier attempts went
+const getEndpoint = async (supabase: AdminClient, endpointId: number | null) => {
+  if (!endpointId) return null
+
+  const { data } = await supabase
+    .from('webhook_endpoints')
+    .select('url, secret, enabled')
+    .eq('id', endpointId)
+    .maybeSingle()
+
+  return data
+}
+
+const attemptDelivery = async (supabase: AdminClient, delivery: Delivery) => {
+  const attemptCount = delivery.attempt_count + 1
+  const endpoint = await getEndpoint(supabase, delivery.endpoint_id)
+  let url = delivery.url
+  let responseCode: number | null = null
+  let responseBody: string | null = null
+  let lastError: string | null = null
+  let retryable = true
+
+  if (!endpoint) {
+    lastError = 'Webhook endpoint no longer exists'
+    retryable = false
+  } else if (!endpoint.enabled) {
+    lastError = 'Webhook endpoint is disabled'
+    retryable = false
+  } else {
+    url = endpoint.url
+    const body = JSON.stringify(delivery.payload)
+    const signatureHeaders = endpoint.secret ? await buildSignatureHeaders(endpoint.secret, body) : {}
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...signatureHeaders },
+        body,
+        signal: controller.signal,
+      })
+      responseCode = response.status
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH)
+      if (!response.ok) {
+        lastError = `Endpoint responded with ${response.status}`
+        retryable = isRetryable(responseCode)
+      }
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : 'Request failed'
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  const succeeded = lastError === null
+  const giveUp = attemptCount >= delivery.max_attempts || !retryable
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      url,
+      attempt_count: attemptCount,
+      response_code: responseCode,
+      response_body: responseBody,
+      last_error: lastError,
+      last_attempt_at: now,
+      status: succeeded ? 'succeeded' : giveUp ? 'failed' : 'retrying',
+      next_retry_at: succeeded || giveUp ? null : nextRetryAt(attemptCount),
+      delivered_at: succeeded ? now : null,
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+const buildPayload = async (supabase: AdminClient, endpoint: Endpoint, request: CreateRequest) => {
+  switch (endpoint.purpose) {
+    case 'content_generation':
+      if (!endpoint.platform || !request.idea_id || !request.content_type) {
+        throw new Error('Content generation needs a platform endpoint, idea_id and content_type')
+      }
+      return buildContentGenerationPayload(supabase, request.idea_id, endpoint.platform, request.content_type)
+    case 'publish':
+      if (!endpoint.platform || !request.content_id) {
+        throw new Error('Publishing needs a platform endpoint and content_id')
+      }
+      return buildPublishPayload(supabase, request.content_id, endpoint.platform)
+    case 'onboarding':
+      return buildOnboardingPayload(request.profile)
+    default:
+      throw new Error(`Webhook endpoint ${endpoint.id} does not accept outbound deliveries`)
+  }
+}
+
+const createDelivery = async (supabase: AdminClient, request: CreateRequest) => {
+  const { data: endpoint, error: endpointError } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', request.endpoint_id)
+    .single()
+
+  if (endpointError || !endpoint) {
+    throw new Error(`Webhook endpoint ${request.endpoint_id} not found`)
+  }
+
+  if (!endpoint.enabled) {
+    throw new Error(`Webhook endpoint ${endpoint.id} is disabled`)
+  }
+
+  const payload = await buildPayload(supabase, endpoint, request)
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert([{
+      endpoint_id: endpoint.id,
+      idea_id: request.idea_id ?? null,
+      content_id: request.content_id ?? null,
+      purpose: endpoint.purpose,
+      platform: endpoint.platform,
+      url: endpoint.url,
+      payload,
+      status: 'pending',
+    }])
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data as Delivery
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const supabase = createAdminClient()
+
+  try {
+    const body = await req.json()
+
+    if (body.retry_due) {
+      const { data: due, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('status', 'retrying')
+        .lte('next_retry_at', new Date().toISOString())
+        .limit(50)
+
+      if (error) {
+        throw error
+      }
+
+      const results = []
+      for (const delivery of due || []) {
+        results.push(await attemptDelivery(supabase, delivery))
+      }
+      return jsonResponse({ retried: results.length, deliveries: results })
+    }
+
+    if (body.delivery_id) {
+      const { data: delivery, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('id', body.delivery_id)
+        .single()
+
+      if (error || !delivery) {
+        return jsonResponse({ error: `Delivery ${body.delivery_id} not found` }, 404)
+      }
+
+      // A manual retry gets a fresh attempt even if the budget was used up
+      const retryable = { ...delivery, max_attempts: Math.max(delivery.max_attempts, delivery.attempt_count + 1) }
+      return jsonResponse(await attemptDelivery(supabase, retryable))
+    }
+
+    if (body.endpoint_id) {
+      const parsed = createRequestSchema.safeParse(body)
+      if (!parsed.success) {
+        return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 422)
+      }
+
+      const delivery = await createDelivery(supabase, parsed.data)
+      return jsonResponse(await attemptDelivery(supabase, delivery))
+    }
+
+    return jsonResponse({ error: 'Expected endpoint_id, delivery_id or retry_due' }, 400)
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return jsonResponse({ error: 'Invalid payload', issues: err.issues }, 422)
+    }
+    console.error('dispatch-webhook error:', err)
+    const errorMessage = err instanceof Error ? err.message : 'Failed to dispatch webhook'
+    return jsonResponse({ error: errorMessage }, 500)
+  }
+})
@@ -0,0 +1,279 @@
+/*
+  # generate-content
+
+  Turns a leader's unused ideas into platform-specific drafts.
+
+  Request body:
+    `{ user_id, limit?, targets? }`
+    - `limit` caps how many ideas are used (defaults to 3, at most 10)
+    - `targets` is a list of `{ platform, type }`; by default one draft is
+      written for every platform the leader has a profile URL for, falling
+      back to a LinkedIn text post
+
+  Ideas that are `new` or `shortlisted` move to `generating` while their
+  drafts are written. Each goes to the configured LLM provider together with
+  the active `cotent_generation_prompt`. Drafts are inserted into `contents`
+  with status `draft` and linked back through `idea_id`; their ideas move on
+  to `drafted`, ideas that failed go back to their previous state.
+
+  Provider settings come from the LLM_* secrets, see `_shared/llm`.
+*/
+import { z } from 'https://esm.sh/zod@3'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import { createLlmProvider, parseJsonReply, type ChatMessage } from '../_shared/llm/index.ts'
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const DEFAULT_PROMPT =
+  'You are a ghostwriter for a thought leader. Write engaging, platform-native posts in their voice.'
+
+const targetSchema = z.object({
+  platform: z.string().trim().min(1).transform((value) => value.toLowerCase()),
+  type: z.string().trim().min(1).transform((value) => value.toLowerCase()),
+})
+
+type Target = z.infer<typeof targetSchema>
+
+const requestSchema = z.object({
+  user_id: z.coerce.number().int().positive(),
+  limit: z.coerce.number().int().min(1).max(10).default(3),
+  targets: z.array(targetSchema).min(1).optional(),
+})
+
+const replySchema = z.object({
+  drafts: z.array(z.object({
+    platform: z.string().trim().min(1),
+    type: z.string().trim().min(1),
+    content: z.string().trim().min(1),
+  })),
+})
+
+// Default draft type for each platform a leader has a profile on
+const profileTargets: { column: 'linkedin_url' | 'twitter_url' | 'facebook_url' | 'instagram_url'; target: Target }[] = [
+  { column: 'linkedin_url', target: { platform: 'linkedin', type: 'text post' } },
+  { column: 'twitter_url', target: { platform: 'twitter', type: 'tweet' } },
+  { column: 'facebook_url', target: { platform: 'facebook', type: 'post' } },
+  { column: 'instagram_url', target: { platform: 'instagram', type: 'post' } },
+]
+
+const describeTarget = (target: Target) => `${target.platform}/${target.type}`
+
+// Canned reply for LLM_PROVIDER=mock: one draft per requested target
+const mockReply = (messages: ChatMessage[]) => {
+  const request = messages[messages.length - 1]?.content ?? ''
+  const idea = request.match(/Idea: (.*)/)?.[1] ?? 'the idea'
+  const targets = (request.match(/Targets: (.*)/)?.[1] ?? '')
+    .split(', ')
+    .filter(Boolean)
+    .map((value) => {
+      const [platform, type] = value.split('/')
+      return { platform, type }
+    })
+
+  return JSON.stringify({
+    drafts: targets.map((target) => ({
+      ...target,
+      content: `[mock] ${target.type} for ${target.platform}: ${idea}`,
+    })),
+  })
+}
+
+const buildMessages = (prompt: string, idea: string, domain: string | null, targets: Target[]): ChatMessage[] => [
+  { role: 'system', content: prompt },
+  {
+    role: 'user',
+    content: [
+      `Idea: ${idea.replace(/\s+/g, ' ')}`,
+      `Domain: ${domain || 'not specified'}`,
+      `Targets: ${targets.map(describeTarget).join(', ')}`,
+      'Write one draft for every target (platform/type), following the conventions of that platform and format.',
+      'Reply with JSON only: {"drafts": [{"platform": string, "type": string, "content": string}]}',
+    ].join('\n\n'),
+  },
+]
+
+// Failed ideas go back to where they were. Runs from a `finally`, so problems
+// are logged instead of replacing the response.
+const revertClaims = async (supabase: AdminClient, ideaIds: number[], previousStatus: Map<number, string>) => {
+  for (const status of new Set(ideaIds.map((id) => previousStatus.get(id)))) {
+    if (!status) continue
+
+    const { error } = await supabase
+      .from('ideas')
+      .update({ status })
+      .in('id', ideaIds.filter((id) => previousStatus.get(id) === status))
+      .eq('status', 'generating')
+
+    if (error) {
+      console.error(`generate-content could not move ideas back to ${status}:`, error)
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Body must be valid JSON' }, 400)
+  }
+
+  const parsed = requestSchema.safeParse(body)
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 422)
+  }
+
+  const { user_id: userId, limit } = parsed.data
+  const supabase = createAdminClient()
+  // Claimed ideas that don't end up drafted go back to where they were,
+  // whatever fails on the way
+  let claimedIds = new Set<number>()
+  let draftedIds: number[] = []
+  const previousStatus = new Map<number, string>()
+
+  try {
+    // Fails on missing or unknown provider settings, before any idea is claimed
+    const provider = createLlmProvider({ mock: mockReply })
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, domain, linkedin_url, twitter_url, facebook_url, instagram_url')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (userError) {
+      throw userError
+    }
+
+    if (!user) {
+      return jsonResponse({ error: `User ${userId} not found` }, 404)
+    }
+
+    const profileDefaults = profileTargets.filter(({ column }) => user[column]).map(({ target }) => target)
+    const targets = parsed.data.targets ?? (profileDefaults.length > 0 ? profileDefaults : [profileTargets[0].target])
+
+    const { data: ideas, error: ideasError } = await supabase
+      .from('ideas')
+      .select('id, content, status')
+      .eq('user_id', userId)
+      .in('status', ['new', 'shortlisted'])
+      .not('content', 'is', null)
+      .order('priority_score', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (ideasError) {
+      throw ideasError
+    }
+
+    if (!ideas || ideas.length === 0) {
+      return jsonResponse({ contents: [], drafted_idea_ids: [], skipped: [] }, 200)
+    }
+
+    const { data: activePrompt, error: promptError } = await supabase
+      .from('cotent_generation_prompt')
+      .select('prompt')
+      .eq('status', 'active')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (promptError) {
+      throw promptError
+    }
+
+    // Claim the ideas; anything another request picked up meanwhile drops out
+    const { data: claimed, error: claimError } = await supabase
+      .from('ideas')
+      .update({ status: 'generating' })
+      .in('id', ideas.map((idea) => idea.id))
+      .in('status', ['new', 'shortlisted'])
+      .select('id')
+
+    if (claimError) {
+      throw claimError
+    }
+
+    ideas.forEach((idea) => previousStatus.set(idea.id, idea.status))
+    claimedIds = new Set((claimed || []).map((idea) => idea.id))
+
+    const prompt = activePrompt?.prompt || DEFAULT_PROMPT
+    const wanted = new Set(targets.map(describeTarget))
+    const drafts: { user_id: number; idea_id: number; platform: string; type: string; content: string; status: string }[] = []
+    const skipped: { idea_id: number; error: string }[] = []
+
+    // One request per idea keeps a bad reply from sinking the whole batch
+    for (const idea of ideas.filter((item) => claimedIds.has(item.id))) {
+      try {
+        const reply = await provider.complete(buildMessages(prompt, idea.content, user.domain, targets), { json: true })
+        const generated = replySchema.safeParse(parseJsonReply(reply))
+        if (!generated.success) {
+          throw new Error('Model reply did not match the expected format')
+        }
+
+        const ideaDrafts = generated.data.drafts
+          .map((draft) => ({ ...draft, platform: draft.platform.toLowerCase(), type: draft.type.toLowerCase() }))
+          .filter((draft) => wanted.has(describeTarget(draft)))
+
+        if (ideaDrafts.length === 0) {
+          throw new Error('Model reply contained no drafts for the requested targets')
+        }
+
+        drafts.push(...ideaDrafts.map((draft) => ({
+          user_id: userId,
+          idea_id: idea.id,
+          platform: draft.platform,
+          type: draft.type,
+          content: draft.content,
+          status: 'draft',
+        })))
+      } catch (err) {
+        console.error(`generate-content failed for idea ${idea.id}:`, err)
+        skipped.push({ idea_id: idea.id, error: err instanceof Error ? err.message : 'Generation failed' })
+      }
+    }
+
+    const ideasWithDrafts = [...new Set(drafts.map((draft) => draft.idea_id))]
+
+    if (drafts.length === 0) {
+      return jsonResponse({ error: 'No drafts could be generated', skipped }, 502)
+    }
+
+    const { data: contents, error: insertError } = await supabase
+      .from('contents')
+      .insert(drafts)
+      .select()
+
+    if (insertError) {
+      throw insertError
+    }
+
+    const { error: ideasUpdateError } = await supabase
+      .from('ideas')
+      .update({ status: 'drafted' })
+      .in('id', ideasWithDrafts)
+      .eq('status', 'generating')
+
+    if (ideasUpdateError) {
+      throw ideasUpdateError
+    }
+    draftedIds = ideasWithDrafts
+
+    return jsonResponse({ contents, drafted_idea_ids: draftedIds, skipped }, 201)
+  } catch (err) {
+    console.error('generate-content error:', err)
+    const errorMessage = err instanceof Error ? err.message : 'Failed to generate content'
+    return jsonResponse({ error: errorMessage }, 500)
+  } finally {
+    await revertClaims(supabase, [...claimedIds].filter((id) => !draftedIds.includes(id)), previousStatus)
+  }
+})
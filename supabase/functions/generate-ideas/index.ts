@@ -0,0 +1,202 @@
+/*
+  # generate-ideas
+
+  Generates content ideas for a leader with the configured LLM provider.
+
+  Request body:
+    `{ user_id, count? }` (count defaults to 5, at most 20)
+
+  The request combines the active `idea_generation_prompt`, the leader's
+  `domain` and their most recent active `sources`. Returned ideas are
+  inserted into `ideas` with status `new` and sent back in the response.
+  When the model names the source an idea came from, the idea keeps it as
+  `source_id` along with the item URL and excerpt it quoted. Ideas tied to
+  news or trends are marked `timely` so their priority decays over time.
+
+  Provider settings come from the LLM_* secrets, see `_shared/llm`.
+*/
+import { z } from 'https://esm.sh/zod@3'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import { createLlmProvider, parseJsonReply, type ChatMessage } from '../_shared/llm/index.ts'
+
+const MAX_SOURCES = 10
+
+const DEFAULT_PROMPT =
+  'You are a ghostwriter for a thought leader. Suggest specific, timely content ideas they could post about.'
+
+const requestSchema = z.object({
+  user_id: z.coerce.number().int().positive(),
+  count: z.coerce.number().int().min(1).max(20).default(5),
+})
+
+const replySchema = z.object({
+  ideas: z.array(z.object({
+    content: z.string().trim().min(1),
+    priority_score: z.coerce.number().min(0).max(1).optional(),
+    // 1-based position in the numbered source list of the request
+    source: z.coerce.number().int().positive().nullish(),
+    source_url: z.string().trim().url().nullish().catch(null),
+    excerpt: z.string().trim().min(1).nullish(),
+    timeliness: z.enum(['evergreen', 'timely']).catch('evergreen'),
+  })).min(1),
+})
+
+interface SourceContext {
+  id: number
+  source_type: string | null
+  description: string | null
+  url: string | null
+}
+
+// Canned reply for LLM_PROVIDER=mock, sized to the requested count
+const mockReply = (messages: ChatMessage[]) => {
+  const request = messages[messages.length - 1]?.content ?? ''
+  const count = Number(request.match(/Suggest (\d+)/)?.[1] ?? 5)
+  const domain = request.match(/Domain: (.*)/)?.[1] ?? 'your domain'
+  const sourceCount = request.match(/^\[\d+\]/gm)?.length ?? 0
+
+  return JSON.stringify({
+    ideas: Array.from({ length: count }, (_, index) => ({
+      content: `[mock] Idea ${index + 1} about ${domain}`,
+      priority_score: 0.5,
+      source: sourceCount > 0 ? (index % sourceCount) + 1 : null,
+      excerpt: sourceCount > 0 ? `[mock] Passage that inspired idea ${index + 1}` : null,
+      timeliness: index % 2 === 0 ? 'evergreen' : 'timely',
+    })),
+  })
+}
+
+const buildMessages = (
+  prompt: string,
+  domain: string | null,
+  sources: SourceContext[],
+  count: number,
+): ChatMessage[] => {
+  const sourceLines = sources.map((source, index) =>
+    `[${index + 1}] ${[source.source_type, source.description, source.url].filter(Boolean).join(' | ')}`
+  )
+
+  return [
+    { role: 'system', content: prompt },
+    {
+      role: 'user',
+      content: [
+        `Domain: ${domain || 'not specified'}`,
+        sourceLines.length > 0
+          ? `Sources the leader follows:\n${sourceLines.join('\n')}`
+          : 'The leader has no active sources.',
+        `Suggest ${count} distinct content ideas, one or two sentences each.`,
+        'When an idea comes from one of the sources, give its number as "source", the URL of the specific article or post as "source_url" and a short quote from it as "excerpt". Use null otherwise.',
+        'Mark ideas that depend on current news, events or trends as "timely" and ideas that stay relevant for months as "evergreen".',
+        'Reply with JSON only: {"ideas": [{"content": string, "priority_score": number between 0 and 1, "timeliness": "evergreen" | "timely", "source": number | null, "source_url": string | null, "excerpt": string | null}]}',
+      ].join('\n\n'),
+    },
+  ]
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Body must be valid JSON' }, 400)
+  }
+
+  const parsed = requestSchema.safeParse(body)
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 422)
+  }
+
+  const { user_id: userId, count } = parsed.data
+  const supabase = createAdminClient()
+
+  try {
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('id, domain')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (userError) {
+      throw userError
+    }
+
+    if (!user) {
+      return jsonResponse({ error: `User ${userId} not found` }, 404)
+    }
+
+    const { data: activePrompt, error: promptError } = await supabase
+      .from('idea_generation_prompt')
+      .select('prompt')
+      .eq('status', 'active')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (promptError) {
+      throw promptError
+    }
+
+    const { data: sources, error: sourcesError } = await supabase
+      .from('sources')
+      .select('id, source_type, description, url')
+      .eq('user_id', userId)
+      .eq('key', 'Active')
+      .order('created_at', { ascending: false })
+      .limit(MAX_SOURCES)
+
+    if (sourcesError) {
+      throw sourcesError
+    }
+
+    const activeSources: SourceContext[] = sources || []
+    const provider = createLlmProvider({ mock: mockReply })
+    const reply = await provider.complete(
+      buildMessages(activePrompt?.prompt || DEFAULT_PROMPT, user.domain, activeSources, count),
+      { json: true },
+    )
+
+    const generated = replySchema.safeParse(parseJsonReply(reply))
+    if (!generated.success) {
+      console.error('generate-ideas unexpected reply:', reply)
+      return jsonResponse({ error: 'Model reply did not match the expected format' }, 502)
+    }
+
+    const { data: ideas, error: insertError } = await supabase
+      .from('ideas')
+      .insert(generated.data.ideas.slice(0, count).map((idea) => {
+        // Ignore source numbers the model made up
+        const source = idea.source ? activeSources[idea.source - 1] : undefined
+        return {
+          user_id: userId,
+          content: idea.content,
+          priority_score: idea.priority_score ?? 0.5,
+          status: 'new',
+          timeliness: idea.timeliness,
+          source_id: source?.id ?? null,
+          source_url: source ? idea.source_url ?? source.url : null,
+          source_excerpt: source ? idea.excerpt ?? null : null,
+        }
+      }))
+      .select()
+
+    if (insertError) {
+      throw insertError
+    }
+
+    return jsonResponse({ ideas, provider: provider.name, model: provider.model }, 201)
+  } catch (err) {
+    console.error('generate-ideas error:', err)
+    const errorMessage = err instanceof Error ? err.message : 'Failed to generate ideas'
+    return jsonResponse({ error: errorMessage }, 500)
+  }
+})
@@ -0,0 +1,159 @@
+/*
+  # generation-callback
+
+  Called by the content generation automation once a draft is ready.
+
+  Request body:
+    `{ idea_id, platform, contentType, content, content_url? }`
+
+  Inserts a `contents` row linked to the idea, moves the idea from
+  `generating` to `drafted` and marks the originating
+  `content_generation` delivery as completed. The dashboard picks the new
+  row up through realtime, so no manual refresh is needed.
+
+  Requests must be signed with the secret of an enabled
+  `generation_callback` endpoint and fall inside the replay window;
+  anything else is rejected with 401.
+*/
+import { z } from 'https://esm.sh/zod@3'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from '../_shared/signature.ts'
+
+const callbackSchema = z.object({
+  idea_id: z.coerce.number().int().positive(),
+  platform: z.string().trim().min(1),
+  contentType: z.string().trim().min(1),
+  content: z.string().trim().min(1),
+  content_url: z.string().url().nullable().optional(),
+})
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const supabase = createAdminClient()
+  const rawBody = await req.text()
+
+  const { data: callbackEndpoints, error: endpointsError } = await supabase
+    .from('webhook_endpoints')
+    .select('secret')
+    .eq('purpose', 'generation_callback')
+    .eq('enabled', true)
+
+  if (endpointsError) {
+    console.error('generation-callback error:', endpointsError)
+    return jsonResponse({ error: 'Failed to load callback secrets' }, 500)
+  }
+
+  const secrets = (callbackEndpoints || [])
+    .map((endpoint) => endpoint.secret)
+    .filter((secret): secret is string => Boolean(secret))
+
+  const verification = await verifySignature(
+    secrets,
+    req.headers.get(TIMESTAMP_HEADER),
+    req.headers.get(SIGNATURE_HEADER),
+    rawBody,
+  )
+
+  if (!verification.valid) {
+    return jsonResponse({ error: verification.reason }, 401)
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    return jsonResponse({ error: 'Body must be valid JSON' }, 400)
+  }
+
+  const parsed = callbackSchema.safeParse(body)
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid payload', issues: parsed.error.issues }, 422)
+  }
+
+  const payload = parsed.data
+  const platform = payload.platform.toLowerCase()
+
+  try {
+    const { data: idea, error: ideaError } = await supabase
+      .from('ideas')
+      .select('id, user_id')
+      .eq('id', payload.idea_id)
+      .maybeSingle()
+
+    if (ideaError) {
+      throw ideaError
+    }
+
+    if (!idea) {
+      return jsonResponse({ error: `Idea ${payload.idea_id} not found` }, 404)
+    }
+
+    const { data: content, error: contentError } = await supabase
+      .from('contents')
+      .insert([{
+        user_id: idea.user_id,
+        idea_id: idea.id,
+        platform,
+        type: payload.contentType.toLowerCase(),
+        content: payload.content,
+        content_url: payload.content_url ?? null,
+        status: 'draft',
+      }])
+      .select()
+      .single()
+
+    if (contentError) {
+      throw contentError
+    }
+
+    const { error: ideaUpdateError } = await supabase
+      .from('ideas')
+      .update({ status: 'drafted' })
+      .eq('id', idea.id)
+      .eq('status', 'generating')
+
+    if (ideaUpdateError) {
+      throw ideaUpdateError
+    }
+
+    // Close out the most recent open generation request for this idea/platform
+    const { data: delivery } = await supabase
+      .from('webhook_deliveries')
+      .select('id')
+      .eq('idea_id', idea.id)
+      .eq('purpose', 'content_generation')
+      .eq('platform', platform)
+      .is('completed_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (delivery) {
+      const { error: deliveryError } = await supabase
+        .from('webhook_deliveries')
+        .update({
+          completed_at: new Date().toISOString(),
+          result_content_id: content.id,
+        })
+        .eq('id', delivery.id)
+
+      if (deliveryError) {
+        throw deliveryError
+      }
+    }
+
+    return jsonResponse({ content, delivery_id: delivery?.id ?? null }, 201)
+  } catch (err) {
+    console.error('generation-callback error:', err)
+    const errorMessage = err instanceof Error ? err.message : 'Failed to store generated content'
+    return jsonResponse({ error: errorMessage }, 500)
+  }
+})
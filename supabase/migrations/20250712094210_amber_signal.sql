@@ -0,0 +1,102 @@
+/*
+  # Create webhook_endpoints table
+
+  1. New Tables
+    - `webhook_endpoints`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `user_id` (bigint, foreign key to users, nullable - null means workspace default)
+      - `name` (text, nullable)
+      - `purpose` (text, not null - 'content_generation', 'publish' or 'onboarding')
+      - `platform` (text, nullable - lowercase platform key, null for platform-independent hooks)
+      - `url` (text, not null)
+      - `enabled` (boolean, default true)
+      - `secret` (text, nullable)
+
+  2. Sample Data
+    - Seed the Make.com hooks that were previously hardcoded in the app
+
+  3. Security
+    - Enable RLS on `webhook_endpoints` table
+    - Add policies for authenticated and anonymous users
+*/
+
+-- Create webhook_endpoints table
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  user_id bigint REFERENCES users(id) ON DELETE CASCADE,
+  name text,
+  purpose text NOT NULL CHECK (purpose IN ('content_generation', 'publish', 'onboarding')),
+  platform text,
+  url text NOT NULL,
+  enabled boolean DEFAULT true NOT NULL,
+  secret text
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_lookup_idx
+  ON webhook_endpoints (purpose, platform, user_id);
+
+-- Seed the previously hardcoded workspace defaults
+INSERT INTO webhook_endpoints (name, purpose, platform, url) VALUES
+('LinkedIn content generation', 'content_generation', 'linkedin', 'https://hook.eu2.make.com/uo1mv8iqh5dnljhodml75kppe8e6j1fy'),
+('Instagram content generation', 'content_generation', 'instagram', 'https://hook.eu2.make.com/jd7mofm8w2622mjadxlya9w481f7rboq'),
+('Facebook content generation', 'content_generation', 'facebook', 'https://hook.eu2.make.com/eeia98ktnu8vth9epzmv89ym4a6eeyi3'),
+('LinkedIn publishing', 'publish', 'linkedin', 'https://hook.eu2.make.com/xaikyfjrn4tbhuut7klil7e3f2slqt8w'),
+('Facebook publishing', 'publish', 'facebook', 'https://hook.eu2.make.com/2fx3hwsl626vxuefc6g8jkbnwqn6wvje'),
+('Automation onboarding', 'onboarding', NULL, 'https://hook.us2.make.com/9ncgoj14ec9a8kvj9u5i4ep6axtypus2');
+
+-- Enable RLS
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert webhook endpoints"
+  ON webhook_endpoints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update webhook endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete webhook endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert webhook endpoints"
+  ON webhook_endpoints
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can update webhook endpoints"
+  ON webhook_endpoints
+  FOR UPDATE
+  TO anon
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can delete webhook endpoints"
+  ON webhook_endpoints
+  FOR DELETE
+  TO anon
+  USING (true);
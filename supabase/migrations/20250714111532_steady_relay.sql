@@ -0,0 +1,109 @@
+/*
+  # Create webhook_deliveries table
+
+  1. New Tables
+    - `webhook_deliveries`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `endpoint_id` (bigint, foreign key to webhook_endpoints, nullable)
+      - `idea_id` (bigint, foreign key to ideas, nullable)
+      - `content_id` (bigint, foreign key to contents, nullable)
+      - `purpose` (text, not null)
+      - `platform` (text, nullable)
+      - `url` (text, not null - snapshot of the endpoint URL at dispatch time)
+      - `payload` (jsonb, not null)
+      - `status` (text, default 'pending' - 'pending', 'succeeded', 'retrying' or 'failed')
+      - `attempt_count` (integer, default 0)
+      - `max_attempts` (integer, default 5)
+      - `response_code` (integer, nullable)
+      - `response_body` (text, nullable)
+      - `last_error` (text, nullable)
+      - `last_attempt_at` (timestamp with timezone, nullable)
+      - `next_retry_at` (timestamp with timezone, nullable)
+      - `delivered_at` (timestamp with timezone, nullable)
+
+  2. Notes
+    - Rows are written only by the `dispatch-webhook` edge function (service
+      role), which performs the HTTP call server-side so the response status
+      can be read. Clients can't insert or change deliveries, since every
+      attempt signs the stored payload with the endpoint's secret.
+
+  3. Scheduling
+    - When pg_cron and pg_net are available, `dispatch-webhook` is called
+      every minute with `{ "retry_due": true }` to make the retries whose
+      `next_retry_at` has passed. The call reads the `project_url` and
+      `anon_key` secrets from Vault, which have to be created once per project.
+
+  4. Security
+    - Enable RLS on `webhook_deliveries` table
+    - Add select policies for authenticated and anonymous users
+*/
+
+-- Create webhook_deliveries table
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  endpoint_id bigint REFERENCES webhook_endpoints(id) ON DELETE SET NULL,
+  idea_id bigint REFERENCES ideas(id) ON DELETE CASCADE,
+  content_id bigint REFERENCES contents(id) ON DELETE CASCADE,
+  purpose text NOT NULL,
+  platform text,
+  url text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'succeeded', 'retrying', 'failed')),
+  attempt_count integer DEFAULT 0 NOT NULL,
+  max_attempts integer DEFAULT 5 NOT NULL,
+  response_code integer,
+  response_body text,
+  last_error text,
+  last_attempt_at timestamptz,
+  next_retry_at timestamptz,
+  delivered_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_idea_id_idx ON webhook_deliveries (idea_id);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_content_id_idx ON webhook_deliveries (content_id);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_retry_idx
+  ON webhook_deliveries (next_retry_at)
+  WHERE status = 'retrying';
+
+-- Enable RLS
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Retry due deliveries every minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'retry-due-webhook-deliveries',
+      '* * * * *',
+      $job$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/dispatch-webhook',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'anon_key')
+          ),
+          body := '{"retry_due": true}'::jsonb
+        )
+      $job$
+    );
+  END IF;
+END;
+$$;
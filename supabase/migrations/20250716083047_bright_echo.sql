@@ -0,0 +1,19 @@
+/*
+  # Track generation callbacks
+
+  1. Changes
+    - `webhook_deliveries`
+      - `completed_at` (timestamp with timezone, nullable - set when the
+        automation calls back with the generated content)
+      - `result_content_id` (bigint, foreign key to contents, nullable)
+
+  2. Realtime
+    - Add `contents` to the `supabase_realtime` publication so the dashboard
+      sees generated drafts as soon as the callback inserts them
+*/
+
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS result_content_id bigint REFERENCES contents(id) ON DELETE SET NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE contents;
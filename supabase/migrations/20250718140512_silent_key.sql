@@ -0,0 +1,28 @@
+/*
+  # Webhook signing secrets
+
+  1. Changes
+    - `webhook_endpoints`
+      - allow purpose 'generation_callback' for inbound callback secrets
+      - `has_secret` (boolean, generated - whether a signing secret is set)
+
+  2. Security
+    - The `secret` column is write-only for client roles: anon and
+      authenticated can set it but never read it back. Signing and
+      verification happen in edge functions with the service role.
+*/
+
+ALTER TABLE webhook_endpoints
+  DROP CONSTRAINT IF EXISTS webhook_endpoints_purpose_check;
+
+ALTER TABLE webhook_endpoints
+  ADD CONSTRAINT webhook_endpoints_purpose_check
+  CHECK (purpose IN ('content_generation', 'publish', 'onboarding', 'generation_callback'));
+
+ALTER TABLE webhook_endpoints
+  ADD COLUMN IF NOT EXISTS has_secret boolean GENERATED ALWAYS AS (secret IS NOT NULL AND secret <> '') STORED;
+
+-- Hide the secret from client roles
+REVOKE SELECT ON webhook_endpoints FROM anon, authenticated;
+GRANT SELECT (id, created_at, user_id, name, purpose, platform, url, enabled, has_secret)
+  ON webhook_endpoints TO anon, authenticated;
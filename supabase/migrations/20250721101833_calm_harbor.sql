@@ -0,0 +1,121 @@
+/*
+  # Sandbox publishing
+
+  1. New Tables
+    - `workspace_settings` (single row, id is always 1)
+      - `id` (integer, primary key)
+      - `created_at` (timestamp with timezone, default now())
+      - `updated_at` (timestamp with timezone, default now())
+      - `sandbox_mode` (boolean, default false - route publishing to the
+        simulated publisher instead of real platforms)
+    - `sandbox_publications`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `content_id` (bigint, foreign key to contents)
+      - `user_id` (bigint, foreign key to users, nullable)
+      - `platform` (text, not null)
+      - `external_post_id` (text, not null - simulated post id)
+      - `permalink` (text, not null - simulated permalink)
+      - `content_snapshot` (text, nullable - the text as it was "published")
+
+  2. Notes
+    - Sandbox publications live in their own table and never change
+      `contents.status`, so they cannot be mistaken for real posts.
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated and anonymous users
+*/
+
+-- Create workspace_settings table
+CREATE TABLE IF NOT EXISTS workspace_settings (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  sandbox_mode boolean DEFAULT false NOT NULL
+);
+
+INSERT INTO workspace_settings (id) VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create sandbox_publications table
+CREATE TABLE IF NOT EXISTS sandbox_publications (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  content_id bigint REFERENCES contents(id) ON DELETE CASCADE,
+  user_id bigint REFERENCES users(id),
+  platform text NOT NULL,
+  external_post_id text NOT NULL,
+  permalink text NOT NULL,
+  content_snapshot text
+);
+
+CREATE INDEX IF NOT EXISTS sandbox_publications_content_id_idx ON sandbox_publications (content_id);
+
+-- Enable RLS
+ALTER TABLE workspace_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sandbox_publications ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view workspace settings"
+  ON workspace_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can update workspace settings"
+  ON workspace_settings
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view all sandbox publications"
+  ON sandbox_publications
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert sandbox publications"
+  ON sandbox_publications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete sandbox publications"
+  ON sandbox_publications
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view workspace settings"
+  ON workspace_settings
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can update workspace settings"
+  ON workspace_settings
+  FOR UPDATE
+  TO anon
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can view all sandbox publications"
+  ON sandbox_publications
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert sandbox publications"
+  ON sandbox_publications
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can delete sandbox publications"
+  ON sandbox_publications
+  FOR DELETE
+  TO anon
+  USING (true);
@@ -0,0 +1,90 @@
+/*
+  # Per-platform publication records
+
+  1. New Tables
+    - `content_publications`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `updated_at` (timestamp with timezone, default now())
+      - `content_id` (bigint, foreign key to contents)
+      - `platform` (text, not null, lowercase platform key)
+      - `state` (text, not null - pending, published or failed)
+      - `external_post_id` (text, nullable - id of the post on the platform)
+      - `permalink` (text, nullable - public URL of the post)
+      - `published_at` (timestamp with timezone, nullable)
+      - `error` (text, nullable - reason of the last failed attempt)
+
+  2. Notes
+    - One row per content and platform pair; publishing again updates it
+    - Existing published contents are backfilled from `contents.platform`
+      and `contents.content_url`
+
+  3. Security
+    - Enable RLS on `content_publications` table
+    - Add policies for authenticated and anonymous users
+*/
+
+-- Create content_publications table
+CREATE TABLE IF NOT EXISTS content_publications (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  content_id bigint NOT NULL REFERENCES contents(id) ON DELETE CASCADE,
+  platform text NOT NULL CHECK (platform = lower(platform)),
+  state text NOT NULL DEFAULT 'pending' CHECK (state IN ('pending', 'published', 'failed')),
+  external_post_id text,
+  permalink text,
+  published_at timestamptz,
+  error text,
+  UNIQUE (content_id, platform)
+);
+
+-- Backfill publications for content that was already marked as published
+INSERT INTO content_publications (content_id, platform, state, permalink, published_at)
+SELECT id, lower(platform), 'published', content_url, created_at
+FROM contents
+WHERE status = 'published' AND platform IS NOT NULL
+ON CONFLICT (content_id, platform) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE content_publications ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all content publications"
+  ON content_publications
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert content publications"
+  ON content_publications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update content publications"
+  ON content_publications
+  FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all content publications"
+  ON content_publications
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert content publications"
+  ON content_publications
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can update content publications"
+  ON content_publications
+  FOR UPDATE
+  TO anon
+  USING (true)
+  WITH CHECK (true);
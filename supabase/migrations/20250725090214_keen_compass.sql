@@ -0,0 +1,21 @@
+/*
+  # Priority scoring weights
+
+  1. Changes
+    - `workspace_settings`
+      - `engagement_weight` (numeric, 0-1, default 0.5 - historical engagement of similar content)
+      - `relevance_weight` (numeric, 0-1, default 0.5 - match with the leader's domain)
+      - `recency_weight` (numeric, 0-1, default 0.5 - how recently the idea was added)
+    - `ideas.priority_score` is a normalized 0-1 value. Scores stored on a
+      0-10 or 0-100 scale are rescaled.
+*/
+
+ALTER TABLE workspace_settings
+  ADD COLUMN IF NOT EXISTS engagement_weight numeric DEFAULT 0.5 NOT NULL CHECK (engagement_weight BETWEEN 0 AND 1),
+  ADD COLUMN IF NOT EXISTS relevance_weight numeric DEFAULT 0.5 NOT NULL CHECK (relevance_weight BETWEEN 0 AND 1),
+  ADD COLUMN IF NOT EXISTS recency_weight numeric DEFAULT 0.5 NOT NULL CHECK (recency_weight BETWEEN 0 AND 1);
+
+-- Bring legacy scores onto the 0-1 scale
+UPDATE ideas SET priority_score = priority_score / 100 WHERE priority_score > 10;
+UPDATE ideas SET priority_score = priority_score / 10 WHERE priority_score > 1;
+UPDATE ideas SET priority_score = 0 WHERE priority_score < 0;
@@ -0,0 +1,151 @@
+/*
+  # Near-duplicate idea detection
+
+  1. Changes
+    - Enable `pg_trgm` for trigram similarity
+    - `ideas`
+      - `duplicate_of` (bigint, nullable - the existing idea this one likely repeats)
+      - `duplicate_similarity` (real, nullable - trigram similarity with that idea, 0-1)
+      - `merged_idea_ids` (bigint[], default '{}' - ideas merged into this one)
+
+  2. Functions
+    - `find_similar_ideas(user_id, content, threshold, exclude_id)` returns the
+      leader's ideas most similar to a text
+    - `flag_duplicate_idea()` trigger flags every inserted idea that is close to
+      an existing one, whatever path inserted it (UI, generation, imports)
+    - `merge_ideas(keep_id, merge_id, content)` folds one idea into another:
+      drafts and webhook history move to the kept idea, the higher priority
+      score wins and the merged id is kept as provenance. Webhook history is
+      moved by the `move_webhook_deliveries_on_merge()` trigger, which runs as
+      the owner because clients can't write deliveries.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS duplicate_of bigint REFERENCES ideas(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_similarity real,
+  ADD COLUMN IF NOT EXISTS merged_idea_ids bigint[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX IF NOT EXISTS ideas_content_trgm_idx ON ideas USING gin (lower(content) gin_trgm_ops);
+
+-- Ideas of the same leader (or of nobody) ordered by similarity to a text.
+-- The threshold is applied through the `%` operator, which can use
+-- `ideas_content_trgm_idx`; like `set_limit`, but only for the current
+-- transaction so other sessions on a pooled connection keep the default.
+CREATE OR REPLACE FUNCTION find_similar_ideas(
+  p_user_id bigint,
+  p_content text,
+  p_threshold real DEFAULT 0.45,
+  p_exclude_id bigint DEFAULT NULL
+)
+RETURNS TABLE (id bigint, content text, priority_score real, similarity real)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+
+  RETURN QUERY
+  SELECT i.id, i.content, i.priority_score::real, similarity(lower(i.content), lower(p_content))
+  FROM ideas i
+  WHERE lower(i.content) % lower(p_content)
+    AND i.user_id IS NOT DISTINCT FROM p_user_id
+    AND (p_exclude_id IS NULL OR i.id <> p_exclude_id)
+  ORDER BY similarity(lower(i.content), lower(p_content)) DESC, i.created_at ASC
+  LIMIT 5;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION flag_duplicate_idea()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  match record;
+BEGIN
+  IF NEW.content IS NULL OR NEW.duplicate_of IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO match FROM find_similar_ideas(NEW.user_id, NEW.content) LIMIT 1;
+
+  IF FOUND THEN
+    NEW.duplicate_of := match.id;
+    NEW.duplicate_similarity := match.similarity;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_flag_duplicate ON ideas;
+CREATE TRIGGER ideas_flag_duplicate
+  BEFORE INSERT ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION flag_duplicate_idea();
+
+-- Runs as the owner because only the service role may write deliveries
+CREATE OR REPLACE FUNCTION move_webhook_deliveries_on_merge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.merged_idea_ids IS DISTINCT FROM OLD.merged_idea_ids THEN
+    UPDATE webhook_deliveries
+    SET idea_id = NEW.id
+    WHERE idea_id = ANY (NEW.merged_idea_ids);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_move_webhook_deliveries_on_merge ON ideas;
+CREATE TRIGGER ideas_move_webhook_deliveries_on_merge
+  AFTER UPDATE OF merged_idea_ids ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION move_webhook_deliveries_on_merge();
+
+CREATE OR REPLACE FUNCTION merge_ideas(
+  p_keep_id bigint,
+  p_merge_id bigint,
+  p_content text DEFAULT NULL
+)
+RETURNS SETOF ideas
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  merged ideas%ROWTYPE;
+BEGIN
+  IF p_keep_id = p_merge_id THEN
+    RAISE EXCEPTION 'Cannot merge an idea into itself';
+  END IF;
+
+  SELECT * INTO merged FROM ideas WHERE id = p_merge_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Idea % not found', p_merge_id;
+  END IF;
+
+  PERFORM 1 FROM ideas WHERE id = p_keep_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Idea % not found', p_keep_id;
+  END IF;
+
+  UPDATE contents SET idea_id = p_keep_id WHERE idea_id = p_merge_id;
+  UPDATE ideas SET duplicate_of = p_keep_id WHERE duplicate_of = p_merge_id AND id <> p_keep_id;
+
+  UPDATE ideas
+  SET
+    content = COALESCE(p_content, content),
+    priority_score = GREATEST(COALESCE(priority_score, 0), COALESCE(merged.priority_score, 0)),
+    merged_idea_ids = merged_idea_ids || merged.id || merged.merged_idea_ids,
+    duplicate_of = NULL,
+    duplicate_similarity = NULL
+  WHERE id = p_keep_id;
+
+  DELETE FROM ideas WHERE id = p_merge_id;
+
+  RETURN QUERY SELECT * FROM ideas WHERE id = p_keep_id;
+END;
+$$;
@@ -0,0 +1,140 @@
+/*
+  # Idea lifecycle
+
+  1. Changes
+    - `ideas.status` is restricted to the lifecycle states:
+      new, shortlisted, generating, drafted, used, archived, rejected
+      (unknown or missing values become `new`)
+    - `ideas.status_changed_at` (timestamp with timezone - last transition)
+
+  2. New Tables
+    - `idea_status_transitions`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `idea_id` (bigint, foreign key to ideas)
+      - `from_status` (text, nullable - null for the initial state)
+      - `to_status` (text, not null)
+
+  3. Notes
+    - `is_allowed_idea_transition(from, to)` holds the allowed moves, the same
+      as `src/lib/ideaLifecycle.ts`; keep the two in step
+    - A trigger rejects any other status change, timestamps every transition,
+      fills `used_at` and logs the change, so edge functions, scenarios and
+      scheduled jobs are covered too
+
+  4. Security
+    - Enable RLS on `idea_status_transitions`
+    - Add select policies for authenticated and anonymous users
+*/
+
+UPDATE ideas
+SET status = 'new'
+WHERE status IS NULL
+   OR status NOT IN ('new', 'shortlisted', 'generating', 'drafted', 'used', 'archived', 'rejected');
+
+ALTER TABLE ideas
+  ALTER COLUMN status SET DEFAULT 'new',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT ideas_status_check
+    CHECK (status IN ('new', 'shortlisted', 'generating', 'drafted', 'used', 'archived', 'rejected')),
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz DEFAULT now() NOT NULL;
+
+UPDATE ideas SET status_changed_at = COALESCE(used_at, created_at);
+
+-- Create idea_status_transitions table
+CREATE TABLE IF NOT EXISTS idea_status_transitions (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  idea_id bigint NOT NULL REFERENCES ideas(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idea_status_transitions_idea_id_idx ON idea_status_transitions (idea_id, created_at);
+
+CREATE OR REPLACE FUNCTION is_allowed_idea_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'new' THEN p_to IN ('shortlisted', 'generating', 'rejected', 'archived')
+    WHEN 'shortlisted' THEN p_to IN ('new', 'generating', 'rejected', 'archived')
+    -- Failed generation requests send an idea back to where it came from
+    WHEN 'generating' THEN p_to IN ('drafted', 'new', 'shortlisted')
+    WHEN 'drafted' THEN p_to IN ('used', 'generating', 'archived')
+    WHEN 'used' THEN p_to IN ('archived')
+    WHEN 'archived' THEN p_to IN ('new')
+    WHEN 'rejected' THEN p_to IN ('new', 'archived')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION stamp_idea_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status
+     AND NOT is_allowed_idea_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot move an idea from "%" to "%"', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+    IF NEW.status = 'used' AND NEW.used_at IS NULL THEN
+      NEW.used_at := now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as the owner so clients never need write access to the log
+CREATE OR REPLACE FUNCTION log_idea_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO idea_status_transitions (idea_id, from_status, to_status)
+    VALUES (NEW.id, NULL, NEW.status);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO idea_status_transitions (idea_id, from_status, to_status)
+    VALUES (NEW.id, OLD.status, NEW.status);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_stamp_transition ON ideas;
+CREATE TRIGGER ideas_stamp_transition
+  BEFORE INSERT OR UPDATE OF status ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_idea_transition();
+
+DROP TRIGGER IF EXISTS ideas_log_transition ON ideas;
+CREATE TRIGGER ideas_log_transition
+  AFTER INSERT OR UPDATE OF status ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION log_idea_transition();
+
+-- Enable RLS
+ALTER TABLE idea_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all idea status transitions"
+  ON idea_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all idea status transitions"
+  ON idea_status_transitions
+  FOR SELECT
+  TO anon
+  USING (true);
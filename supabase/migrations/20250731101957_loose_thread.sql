@@ -0,0 +1,138 @@
+/*
+  # Idea tags
+
+  1. New Tables
+    - `tags`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `name` (text, not null, unique ignoring case)
+      - `origin` (text, not null - `manual`, or `cluster` when saved from a
+        proposed topic group)
+    - `idea_tags` (many-to-many between ideas and tags)
+      - `idea_id` (bigint, foreign key to ideas)
+      - `tag_id` (bigint, foreign key to tags)
+      - `created_at` (timestamp with timezone, default now())
+
+  2. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated and anonymous users
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS tags (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  origin text NOT NULL DEFAULT 'manual' CHECK (origin IN ('manual', 'cluster'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tags_name_key ON tags (lower(name));
+
+-- Create idea_tags table
+CREATE TABLE IF NOT EXISTS idea_tags (
+  idea_id bigint NOT NULL REFERENCES ideas(id) ON DELETE CASCADE,
+  tag_id bigint NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (idea_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idea_tags_tag_id_idx ON idea_tags (tag_id);
+
+-- Merged ideas keep their tags
+CREATE OR REPLACE FUNCTION move_idea_tags_on_merge()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.merged_idea_ids IS DISTINCT FROM OLD.merged_idea_ids THEN
+    INSERT INTO idea_tags (idea_id, tag_id)
+    SELECT NEW.id, tag_id FROM idea_tags WHERE idea_id = ANY (NEW.merged_idea_ids)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_move_tags_on_merge ON ideas;
+CREATE TRIGGER ideas_move_tags_on_merge
+  AFTER UPDATE OF merged_idea_ids ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION move_idea_tags_on_merge();
+
+-- Enable RLS
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE idea_tags ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all tags"
+  ON tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert tags"
+  ON tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete tags"
+  ON tags
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view all idea tags"
+  ON idea_tags
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert idea tags"
+  ON idea_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can delete idea tags"
+  ON idea_tags
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all tags"
+  ON tags
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert tags"
+  ON tags
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can delete tags"
+  ON tags
+  FOR DELETE
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can view all idea tags"
+  ON idea_tags
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert idea tags"
+  ON idea_tags
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can delete idea tags"
+  ON idea_tags
+  FOR DELETE
+  TO anon
+  USING (true);
@@ -0,0 +1,10 @@
+/*
+  # Idea source URL
+
+  1. Changes
+    - `ideas`
+      - `source_url` (text, nullable - where the idea came from, kept when ideas
+        are imported from a spreadsheet or JSON export)
+*/
+
+ALTER TABLE ideas ADD COLUMN IF NOT EXISTS source_url text;
@@ -0,0 +1,91 @@
+/*
+  # Idea provenance
+
+  1. Changes
+    - `ideas`
+      - `source_id` (bigint, nullable, foreign key to sources - the source the
+        idea was derived from; cleared if the source is deleted)
+      - `source_excerpt` (text, nullable - the passage of the source item that
+        inspired the idea)
+      - `source_url` now also holds the URL of the specific source item (article,
+        post, episode) the idea came from
+      - `merged_source_ids` (bigint[], default '{}' - sources of ideas merged into
+        this one, other than its own `source_id`)
+
+  2. Functions
+    - `get_source_stats(user_id)` returns, per source, how many ideas were
+      derived from it and how many published contents those ideas produced.
+      Ideas count for their own source and for the sources of ideas merged
+      into them.
+    - `combine_idea_provenance_on_merge()` trigger carries provenance over when
+      `merge_ideas` folds an idea into another: a kept idea without a source
+      takes the merged idea's source, URL and excerpt, and any other source
+      is added to `merged_source_ids`
+*/
+
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS source_id bigint REFERENCES sources(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source_excerpt text,
+  ADD COLUMN IF NOT EXISTS merged_source_ids bigint[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX IF NOT EXISTS ideas_source_id_idx ON ideas (source_id);
+
+-- Runs while the merged ideas still exist, before `merge_ideas` deletes them
+CREATE OR REPLACE FUNCTION combine_idea_provenance_on_merge()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  merged record;
+BEGIN
+  IF NEW.merged_idea_ids IS DISTINCT FROM OLD.merged_idea_ids THEN
+    FOR merged IN
+      SELECT source_id, source_url, source_excerpt, merged_source_ids
+      FROM ideas
+      WHERE id = ANY (NEW.merged_idea_ids) AND id <> NEW.id
+      ORDER BY created_at, id
+    LOOP
+      IF NEW.source_id IS NULL AND NEW.source_url IS NULL AND NEW.source_excerpt IS NULL THEN
+        NEW.source_id := merged.source_id;
+        NEW.source_url := merged.source_url;
+        NEW.source_excerpt := merged.source_excerpt;
+      ELSIF merged.source_id IS NOT NULL THEN
+        NEW.merged_source_ids := NEW.merged_source_ids || merged.source_id;
+      END IF;
+      NEW.merged_source_ids := NEW.merged_source_ids || merged.merged_source_ids;
+    END LOOP;
+
+    NEW.merged_source_ids := ARRAY(
+      SELECT DISTINCT merged_source_id
+      FROM unnest(NEW.merged_source_ids) AS merged_source_id
+      WHERE merged_source_id IS DISTINCT FROM NEW.source_id
+      ORDER BY merged_source_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_combine_provenance_on_merge ON ideas;
+CREATE TRIGGER ideas_combine_provenance_on_merge
+  BEFORE UPDATE OF merged_idea_ids ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION combine_idea_provenance_on_merge();
+
+-- Ideas and published posts per source. Sources without ideas are included
+-- with zero counts.
+CREATE OR REPLACE FUNCTION get_source_stats(p_user_id bigint DEFAULT NULL)
+RETURNS TABLE (source_id bigint, idea_count bigint, published_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    s.id AS source_id,
+    count(DISTINCT i.id) AS idea_count,
+    count(DISTINCT c.id) FILTER (WHERE c.status = 'published') AS published_count
+  FROM sources s
+  LEFT JOIN ideas i ON i.source_id = s.id OR s.id = ANY (i.merged_source_ids)
+  LEFT JOIN contents c ON c.idea_id = i.id
+  WHERE p_user_id IS NULL OR s.user_id = p_user_id
+  GROUP BY s.id;
+$$;
@@ -0,0 +1,174 @@
+/*
+  # Server-side idea search
+
+  1. Changes
+    - `ideas`
+      - `content_search` (tsvector, generated from `content` - English full-text
+        search document)
+    - Indexes for full-text search, owner, status and the keyset sort orders
+
+  2. Functions
+    - `idea_search_clauses(...)` builds the FROM and WHERE clauses shared by
+      the two functions below, with only the filters that are set;
+      `idea_search_priority()` is the priority expression they use
+    - `search_ideas(...)` returns one page of ideas matching a full-text query
+      and filters (status, priority range, creation date range, owner, tag),
+      sorted by creation date or priority. Pages are keyset based: pass the
+      sort value and id of the last idea of the previous page to get the next.
+      Each idea comes with the priority it was filtered and sorted by, to use
+      as the cursor. The query is built per sort so the sort indexes can be
+      used.
+    - `count_ideas_by_status(...)` counts the ideas matching the same filters
+      per status, for totals and filter chips
+*/
+
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS content_search tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS ideas_content_search_idx ON ideas USING gin (content_search);
+CREATE INDEX IF NOT EXISTS ideas_user_id_idx ON ideas (user_id);
+CREATE INDEX IF NOT EXISTS ideas_status_idx ON ideas (status);
+CREATE INDEX IF NOT EXISTS ideas_created_at_id_idx ON ideas (created_at, id);
+CREATE INDEX IF NOT EXISTS ideas_priority_id_idx ON ideas ((coalesce(priority_score, 0)), id);
+
+-- The priority ideas are filtered and sorted by, as an expression over `i`
+CREATE OR REPLACE FUNCTION idea_search_priority()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'coalesce(i.priority_score, 0)';
+$$;
+
+-- FROM and WHERE for the filters that are set, so every query only carries
+-- conditions the planner can use an index for. Filter values are passed to
+-- EXECUTE as parameters $1-$8, in the order of the arguments here.
+CREATE OR REPLACE FUNCTION idea_search_clauses(
+  p_query text,
+  p_statuses text[],
+  p_min_priority real,
+  p_max_priority real,
+  p_created_after timestamptz,
+  p_created_before timestamptz,
+  p_user_id bigint,
+  p_tag_id bigint
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  priority text := idea_search_priority();
+  clauses text := 'FROM ideas i WHERE true';
+BEGIN
+  IF nullif(trim(p_query), '') IS NOT NULL THEN
+    clauses := clauses || ' AND i.content_search @@ websearch_to_tsquery(''english'', $1)';
+  END IF;
+  IF p_statuses IS NOT NULL THEN
+    clauses := clauses || ' AND i.status = ANY ($2)';
+  END IF;
+  IF p_min_priority IS NOT NULL THEN
+    clauses := clauses || ' AND ' || priority || ' >= $3';
+  END IF;
+  IF p_max_priority IS NOT NULL THEN
+    clauses := clauses || ' AND ' || priority || ' <= $4';
+  END IF;
+  IF p_created_after IS NOT NULL THEN
+    clauses := clauses || ' AND i.created_at >= $5';
+  END IF;
+  IF p_created_before IS NOT NULL THEN
+    clauses := clauses || ' AND i.created_at < $6';
+  END IF;
+  IF p_user_id IS NOT NULL THEN
+    clauses := clauses || ' AND i.user_id = $7';
+  END IF;
+  IF p_tag_id IS NOT NULL THEN
+    clauses := clauses || ' AND EXISTS (SELECT 1 FROM idea_tags t WHERE t.idea_id = i.id AND t.tag_id = $8)';
+  END IF;
+  RETURN clauses;
+END;
+$$;
+
+-- Sorts: created_desc (default), created_asc, priority_desc, priority_asc.
+-- Ideas without a score sort as 0. Ties are broken by id in the same direction.
+-- `sort_priority` is the priority as computed here; the next page's cursor
+-- must use it rather than a value recomputed elsewhere.
+-- Each sort gets a plain ORDER BY and row comparison, which the index on the
+-- same columns can serve.
+CREATE OR REPLACE FUNCTION search_ideas(
+  p_query text DEFAULT NULL,
+  p_statuses text[] DEFAULT NULL,
+  p_min_priority real DEFAULT NULL,
+  p_max_priority real DEFAULT NULL,
+  p_created_after timestamptz DEFAULT NULL,
+  p_created_before timestamptz DEFAULT NULL,
+  p_user_id bigint DEFAULT NULL,
+  p_tag_id bigint DEFAULT NULL,
+  p_sort text DEFAULT 'created_desc',
+  p_cursor_created_at timestamptz DEFAULT NULL,
+  p_cursor_priority real DEFAULT NULL,
+  p_cursor_id bigint DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (idea ideas, sort_priority real)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  priority text := idea_search_priority();
+  query text := format('SELECT i, (%s)::real ', priority) || idea_search_clauses(
+    p_query, p_statuses, p_min_priority, p_max_priority,
+    p_created_after, p_created_before, p_user_id, p_tag_id
+  );
+  after_cursor text;
+  sort_order text;
+BEGIN
+  CASE p_sort
+    WHEN 'created_asc' THEN
+      after_cursor := '(i.created_at, i.id) > ($9, $11)';
+      sort_order := 'i.created_at ASC, i.id ASC';
+    WHEN 'priority_desc' THEN
+      after_cursor := format('(%s, i.id) < ($10, $11)', priority);
+      sort_order := priority || ' DESC, i.id DESC';
+    WHEN 'priority_asc' THEN
+      after_cursor := format('(%s, i.id) > ($10, $11)', priority);
+      sort_order := priority || ' ASC, i.id ASC';
+    ELSE
+      after_cursor := '(i.created_at, i.id) < ($9, $11)';
+      sort_order := 'i.created_at DESC, i.id DESC';
+  END CASE;
+
+  IF p_cursor_id IS NOT NULL THEN
+    query := query || ' AND ' || after_cursor;
+  END IF;
+
+  RETURN QUERY EXECUTE query || ' ORDER BY ' || sort_order || ' LIMIT $12'
+    USING p_query, p_statuses, p_min_priority, p_max_priority,
+      p_created_after, p_created_before, p_user_id, p_tag_id,
+      p_cursor_created_at, p_cursor_priority, p_cursor_id, p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION count_ideas_by_status(
+  p_query text DEFAULT NULL,
+  p_min_priority real DEFAULT NULL,
+  p_max_priority real DEFAULT NULL,
+  p_created_after timestamptz DEFAULT NULL,
+  p_created_before timestamptz DEFAULT NULL,
+  p_user_id bigint DEFAULT NULL,
+  p_tag_id bigint DEFAULT NULL
+)
+RETURNS TABLE (status text, idea_count bigint)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  RETURN QUERY EXECUTE 'SELECT i.status, count(*) ' || idea_search_clauses(
+    p_query, NULL, p_min_priority, p_max_priority,
+    p_created_after, p_created_before, p_user_id, p_tag_id
+  ) || ' GROUP BY i.status'
+    USING p_query, NULL::text[], p_min_priority, p_max_priority,
+      p_created_after, p_created_before, p_user_id, p_tag_id;
+END;
+$$;
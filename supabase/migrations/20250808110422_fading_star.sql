@@ -0,0 +1,101 @@
+/*
+  # Idea freshness decay
+
+  1. Changes
+    - `ideas`
+      - `timeliness` (text, not null, default `evergreen` - `evergreen` ideas
+        keep their priority, `timely` ones decay and expire)
+      - `decay_half_life_days` (real, nullable - days for a timely idea to lose
+        half of its priority, 3 when not set)
+      - `expires_at` (timestamp with timezone, nullable - when a timely idea is
+        archived; defaults to 14 days after creation)
+
+  2. Functions
+    - `effective_priority(...)` is the priority after decay, counted in whole
+      days so it stays put while someone pages through a list
+    - `idea_search_priority()` now makes `search_ideas(...)` and
+      `count_ideas_by_status(...)` sort and filter by effective priority
+    - `archive_expired_ideas()` archives new and shortlisted ideas past their
+      expiry and returns their ids. It is scheduled hourly when pg_cron is
+      available, and the app also runs it when it loads ideas.
+*/
+
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS timeliness text DEFAULT 'evergreen' NOT NULL CHECK (timeliness IN ('evergreen', 'timely')),
+  ADD COLUMN IF NOT EXISTS decay_half_life_days real CHECK (decay_half_life_days > 0),
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS ideas_expires_at_idx ON ideas (expires_at) WHERE expires_at IS NOT NULL;
+
+-- Sorting uses effective priority now, which can't be indexed
+DROP INDEX IF EXISTS ideas_priority_id_idx;
+
+-- Timely ideas get an expiry unless one was given
+CREATE OR REPLACE FUNCTION set_idea_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.timeliness = 'timely' AND NEW.expires_at IS NULL THEN
+    NEW.expires_at := coalesce(NEW.created_at, now()) + interval '14 days';
+  ELSIF NEW.timeliness = 'evergreen' THEN
+    NEW.expires_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_set_expiry ON ideas;
+CREATE TRIGGER ideas_set_expiry
+  BEFORE INSERT OR UPDATE OF timeliness, expires_at ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION set_idea_expiry();
+
+CREATE OR REPLACE FUNCTION effective_priority(
+  p_priority_score real,
+  p_timeliness text,
+  p_half_life_days real,
+  p_created_at timestamptz
+)
+RETURNS real
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_timeliness = 'timely' THEN
+      (coalesce(p_priority_score, 0)
+        * power(0.5, greatest(current_date - p_created_at::date, 0) / coalesce(p_half_life_days, 3)))::real
+    ELSE coalesce(p_priority_score, 0)
+  END;
+$$;
+
+-- Search filters and sorts by effective priority; see `search_ideas`
+CREATE OR REPLACE FUNCTION idea_search_priority()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT 'effective_priority(i.priority_score, i.timeliness, i.decay_half_life_days, i.created_at)';
+$$;
+
+-- Runs as the owner so the scheduled job and the app archive the same ideas
+CREATE OR REPLACE FUNCTION archive_expired_ideas()
+RETURNS SETOF bigint
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE ideas
+  SET status = 'archived'
+  WHERE expires_at <= now()
+    AND status IN ('new', 'shortlisted')
+  RETURNING id;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('archive-expired-ideas', '0 * * * *', 'SELECT archive_expired_ideas()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,190 @@
+/*
+  # Content plans
+
+  1. New Tables
+    - `content_plan_items` (the platform and content type picked for an idea)
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `updated_at` (timestamp with timezone, default now())
+      - `user_id` (bigint, foreign key to users, nullable)
+      - `idea_id` (bigint, foreign key to ideas)
+      - `platform` (text, not null - one item per idea and platform)
+      - `content_type` (text, not null)
+      - `status` (text, not null - `planned` until submitted, then
+        `requested`; `drafted` once the draft arrives, `failed` when the
+        request could not be sent)
+      - `requested_at` (timestamp with timezone, nullable)
+      - `drafted_at` (timestamp with timezone, nullable)
+      - `content_id` (bigint, foreign key to contents, nullable - the draft)
+
+  2. Functions
+    - A trigger on `contents` marks the matching plan item of the idea and
+      platform as drafted, so drafts from edge functions and webhooks are
+      both picked up
+    - A trigger on `ideas` moves the plan items of merged ideas to the kept
+      idea. Where both have an item for a platform, the one furthest along
+      (drafted, requested, planned, failed) stays.
+
+  3. Realtime
+    - Add `content_plan_items` to the `supabase_realtime` publication
+
+  4. Security
+    - Enable RLS on `content_plan_items`
+    - Add policies for authenticated and anonymous users
+*/
+
+-- Create content_plan_items table
+CREATE TABLE IF NOT EXISTS content_plan_items (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  user_id bigint REFERENCES users(id),
+  idea_id bigint NOT NULL REFERENCES ideas(id) ON DELETE CASCADE,
+  platform text NOT NULL,
+  content_type text NOT NULL,
+  status text NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'requested', 'drafted', 'failed')),
+  requested_at timestamptz,
+  drafted_at timestamptz,
+  content_id bigint REFERENCES contents(id) ON DELETE SET NULL,
+  UNIQUE (idea_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS content_plan_items_status_idx ON content_plan_items (status);
+
+-- Drafts are stored with lower-case platforms, plans with display names
+CREATE OR REPLACE FUNCTION mark_content_plan_drafted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.idea_id IS NOT NULL AND NEW.platform IS NOT NULL THEN
+    UPDATE content_plan_items
+    SET status = 'drafted',
+        drafted_at = now(),
+        updated_at = now(),
+        content_id = NEW.id
+    WHERE idea_id = NEW.idea_id
+      AND lower(platform) = lower(NEW.platform)
+      AND status IN ('planned', 'requested');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contents_mark_content_plan_drafted ON contents;
+CREATE TRIGGER contents_mark_content_plan_drafted
+  AFTER INSERT ON contents
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_content_plan_drafted();
+
+-- How far along a plan item is, to pick one when merged ideas share a platform
+CREATE OR REPLACE FUNCTION content_plan_status_rank(p_status text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'drafted' THEN 3
+    WHEN 'requested' THEN 2
+    WHEN 'planned' THEN 1
+    ELSE 0
+  END;
+$$;
+
+-- Merged ideas keep their plan. Items left on a merged idea are deleted with it.
+CREATE OR REPLACE FUNCTION move_content_plan_on_merge()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  item content_plan_items%ROWTYPE;
+  existing content_plan_items%ROWTYPE;
+BEGIN
+  IF NEW.merged_idea_ids IS DISTINCT FROM OLD.merged_idea_ids THEN
+    FOR item IN
+      SELECT * FROM content_plan_items
+      WHERE idea_id = ANY (NEW.merged_idea_ids)
+      ORDER BY content_plan_status_rank(status) DESC, updated_at DESC
+    LOOP
+      SELECT * INTO existing FROM content_plan_items
+      WHERE idea_id = NEW.id AND lower(platform) = lower(item.platform);
+
+      IF FOUND THEN
+        IF content_plan_status_rank(item.status) <= content_plan_status_rank(existing.status) THEN
+          CONTINUE;
+        END IF;
+        DELETE FROM content_plan_items WHERE id = existing.id;
+      END IF;
+
+      UPDATE content_plan_items
+      SET idea_id = NEW.id,
+          updated_at = now()
+      WHERE id = item.id;
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ideas_move_content_plan_on_merge ON ideas;
+CREATE TRIGGER ideas_move_content_plan_on_merge
+  AFTER UPDATE OF merged_idea_ids ON ideas
+  FOR EACH ROW
+  EXECUTE FUNCTION move_content_plan_on_merge();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE content_plan_items;
+
+-- Enable RLS
+ALTER TABLE content_plan_items ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all content plan items"
+  ON content_plan_items
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert content plan items"
+  ON content_plan_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update content plan items"
+  ON content_plan_items
+  FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can delete content plan items"
+  ON content_plan_items
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all content plan items"
+  ON content_plan_items
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert content plan items"
+  ON content_plan_items
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can update content plan items"
+  ON content_plan_items
+  FOR UPDATE
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can delete content plan items"
+  ON content_plan_items
+  FOR DELETE
+  TO anon
+  USING (true);
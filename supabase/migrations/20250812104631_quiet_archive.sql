@@ -0,0 +1,142 @@
+/*
+  # Content revisions
+
+  1. Changes
+    - `contents.edited_by` (bigint, foreign key to users, nullable - who saved
+      the current text)
+
+  2. New Tables
+    - `content_revisions`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `content_id` (bigint, foreign key to contents)
+      - `revision_number` (integer, not null - 1 for the original, unique per
+        content)
+      - `content` (text, nullable - the full text of the revision)
+      - `author_id` (bigint, foreign key to users, nullable)
+      - `kind` (text, not null - `original`, `edit` or `restore`)
+      - `restored_from` (bigint, foreign key to content_revisions, nullable)
+
+  3. Functions
+    - A trigger on `contents` records a revision whenever a row is inserted
+      or its text changes, so edge functions and the dashboard are both
+      covered
+    - `restore_content_revision(p_revision_id, p_author_id)` puts an older
+      text back; the trigger records it as a `restore`
+
+  4. Security
+    - Enable RLS on `content_revisions`
+    - Add select policies for authenticated and anonymous users; revisions
+      are only written by the trigger
+*/
+
+ALTER TABLE contents
+  ADD COLUMN IF NOT EXISTS edited_by bigint REFERENCES users(id);
+
+-- Create content_revisions table
+CREATE TABLE IF NOT EXISTS content_revisions (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  content_id bigint NOT NULL REFERENCES contents(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  content text,
+  author_id bigint REFERENCES users(id),
+  kind text NOT NULL DEFAULT 'edit' CHECK (kind IN ('original', 'edit', 'restore')),
+  restored_from bigint REFERENCES content_revisions(id) ON DELETE SET NULL,
+  UNIQUE (content_id, revision_number)
+);
+
+-- Existing contents start their history with what they hold now
+INSERT INTO content_revisions (created_at, content_id, revision_number, content, author_id, kind)
+SELECT created_at, id, 1, content, user_id, 'original'
+FROM contents
+ON CONFLICT (content_id, revision_number) DO NOTHING;
+
+-- Runs as the owner so clients never need write access to the history.
+-- `restore_content_revision` marks its update through a transaction setting.
+CREATE OR REPLACE FUNCTION record_content_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restored_from bigint := nullif(current_setting('app.restored_revision_id', true), '')::bigint;
+  v_next integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the content row's history so concurrent saves get distinct numbers
+  PERFORM 1 FROM contents WHERE id = NEW.id FOR UPDATE;
+
+  SELECT coalesce(max(revision_number), 0) + 1 INTO v_next
+  FROM content_revisions
+  WHERE content_id = NEW.id;
+
+  INSERT INTO content_revisions (content_id, revision_number, content, author_id, kind, restored_from)
+  VALUES (
+    NEW.id,
+    v_next,
+    NEW.content,
+    CASE WHEN TG_OP = 'INSERT' THEN coalesce(NEW.edited_by, NEW.user_id) ELSE NEW.edited_by END,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'original'
+      WHEN v_restored_from IS NOT NULL THEN 'restore'
+      ELSE 'edit'
+    END,
+    CASE WHEN TG_OP = 'UPDATE' THEN v_restored_from END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contents_record_revision ON contents;
+CREATE TRIGGER contents_record_revision
+  AFTER INSERT OR UPDATE OF content ON contents
+  FOR EACH ROW
+  EXECUTE FUNCTION record_content_revision();
+
+-- Put the text of an older revision back and return the updated content
+CREATE OR REPLACE FUNCTION restore_content_revision(p_revision_id bigint, p_author_id bigint DEFAULT NULL)
+RETURNS SETOF contents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_revision content_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision FROM content_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id;
+  END IF;
+
+  PERFORM set_config('app.restored_revision_id', p_revision_id::text, true);
+
+  RETURN QUERY
+  UPDATE contents
+  SET content = v_revision.content,
+      edited_by = p_author_id
+  WHERE id = v_revision.content_id
+  RETURNING *;
+
+  PERFORM set_config('app.restored_revision_id', '', true);
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE content_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all content revisions"
+  ON content_revisions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all content revisions"
+  ON content_revisions
+  FOR SELECT
+  TO anon
+  USING (true);
@@ -0,0 +1,10 @@
+/*
+  # Content media
+
+  1. Changes
+    - `contents`
+      - `media_url` (text, nullable - image or video posted with the content,
+        required by platforms such as Instagram, see `src/lib/platformRules.ts`)
+*/
+
+ALTER TABLE contents ADD COLUMN IF NOT EXISTS media_url text;
@@ -0,0 +1,267 @@
+/*
+  # Content review and approval
+
+  1. Changes
+    - `contents.reviewer_id` (bigint, foreign key to users, nullable - who has
+      to sign the content off)
+    - `contents.status` is one of `draft`, `in_review`, `changes_requested`,
+      `approved` or `published`. The old `ready` status is gone; content that
+      was `ready` goes to its leader for review.
+
+  2. New Tables
+    - `content_reviews`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `content_id` (bigint, foreign key to contents)
+      - `action` (text, not null - `submitted`, `approved` or
+        `changes_requested`)
+      - `author_id` (bigint, foreign key to users, nullable - who submitted or
+        reviewed)
+      - `reviewer_id` (bigint, foreign key to users, nullable - the reviewer
+        assigned at the time)
+      - `comment` (text, nullable)
+
+  3. Functions
+    - `submit_content_for_review(p_content_id, p_reviewer_id, p_author_id,
+      p_comment)` assigns a reviewer and moves content to `in_review`; also
+      used to hand content to another reviewer
+    - `review_content(p_content_id, p_reviewer_id, p_decision, p_comment)`
+      approves content or requests changes. Only the assigned reviewer can,
+      and requesting changes needs a comment.
+    - A trigger on `contents` only lets these functions set `in_review`,
+      `approved` or `changes_requested`, refuses `published` for content that
+      was not approved, and sends approved content back to review when its
+      text or media changes
+    - A trigger on `scheduled_content` refuses content that is not approved
+
+  4. Security
+    - Enable RLS on `content_reviews`
+    - Add select policies for authenticated and anonymous users; reviews are
+      only written by the functions above
+*/
+
+ALTER TABLE contents
+  ADD COLUMN IF NOT EXISTS reviewer_id bigint REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE contents
+SET status = 'in_review',
+    reviewer_id = user_id
+WHERE status = 'ready';
+
+UPDATE contents
+SET status = 'draft'
+WHERE status IS NULL
+   OR status NOT IN ('draft', 'in_review', 'changes_requested', 'approved', 'published');
+
+ALTER TABLE contents
+  ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE contents
+  DROP CONSTRAINT IF EXISTS contents_status_check;
+
+ALTER TABLE contents
+  ADD CONSTRAINT contents_status_check
+  CHECK (status IN ('draft', 'in_review', 'changes_requested', 'approved', 'published'));
+
+-- Create content_reviews table
+CREATE TABLE IF NOT EXISTS content_reviews (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  content_id bigint NOT NULL REFERENCES contents(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('submitted', 'approved', 'changes_requested')),
+  author_id bigint REFERENCES users(id) ON DELETE SET NULL,
+  reviewer_id bigint REFERENCES users(id) ON DELETE SET NULL,
+  comment text
+);
+
+CREATE INDEX IF NOT EXISTS content_reviews_content_id_idx ON content_reviews (content_id, created_at);
+CREATE INDEX IF NOT EXISTS contents_reviewer_status_idx ON contents (reviewer_id, status);
+
+-- Content moved to review by the migration starts its history here
+INSERT INTO content_reviews (content_id, action, reviewer_id, comment)
+SELECT id, 'submitted', reviewer_id, 'Was marked ready before reviews were required'
+FROM contents
+WHERE status = 'in_review'
+  AND NOT EXISTS (SELECT 1 FROM content_reviews r WHERE r.content_id = contents.id);
+
+-- Runs as the owner so it can log to `content_reviews`. The review functions
+-- mark their own updates through a transaction setting.
+CREATE OR REPLACE FUNCTION enforce_content_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reviewing boolean := coalesce(current_setting('app.content_review', true), '') = 'on';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IN ('in_review', 'changes_requested', 'approved', 'published') THEN
+      RAISE EXCEPTION 'New content starts as a draft and has to be reviewed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Approval covers the exact text and media that were reviewed
+  IF OLD.status = 'approved'
+     AND NEW.status = 'approved'
+     AND (NEW.content IS DISTINCT FROM OLD.content OR NEW.media_url IS DISTINCT FROM OLD.media_url) THEN
+    NEW.status := 'in_review';
+    INSERT INTO content_reviews (content_id, action, author_id, reviewer_id, comment)
+    VALUES (NEW.id, 'submitted', NEW.edited_by, NEW.reviewer_id, 'Edited after approval');
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'published' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'Content % must be approved before it is published', NEW.id;
+  END IF;
+
+  IF NEW.status IN ('in_review', 'changes_requested', 'approved') AND NOT v_reviewing THEN
+    RAISE EXCEPTION 'Use submit_content_for_review or review_content to change content % to %', NEW.id, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contents_enforce_review ON contents;
+CREATE TRIGGER contents_enforce_review
+  BEFORE INSERT OR UPDATE OF status, content, media_url ON contents
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_content_review();
+
+CREATE OR REPLACE FUNCTION enforce_scheduled_content_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.content_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM contents WHERE id = NEW.content_id AND status IN ('approved', 'published')
+  ) THEN
+    RAISE EXCEPTION 'Content % must be approved before it is scheduled', NEW.content_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS scheduled_content_enforce_approval ON scheduled_content;
+CREATE TRIGGER scheduled_content_enforce_approval
+  BEFORE INSERT OR UPDATE OF content_id ON scheduled_content
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_scheduled_content_approval();
+
+-- Assign a reviewer and move the content to `in_review`
+CREATE OR REPLACE FUNCTION submit_content_for_review(
+  p_content_id bigint,
+  p_reviewer_id bigint,
+  p_author_id bigint DEFAULT NULL,
+  p_comment text DEFAULT NULL
+)
+RETURNS SETOF contents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_content contents%ROWTYPE;
+BEGIN
+  SELECT * INTO v_content FROM contents WHERE id = p_content_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Content % not found', p_content_id;
+  END IF;
+
+  IF v_content.status NOT IN ('draft', 'changes_requested', 'in_review') THEN
+    RAISE EXCEPTION 'Content % is % and cannot be submitted for review', p_content_id, v_content.status;
+  END IF;
+
+  IF p_reviewer_id IS NULL THEN
+    RAISE EXCEPTION 'A reviewer is required';
+  END IF;
+
+  INSERT INTO content_reviews (content_id, action, author_id, reviewer_id, comment)
+  VALUES (p_content_id, 'submitted', p_author_id, p_reviewer_id, nullif(trim(p_comment), ''));
+
+  PERFORM set_config('app.content_review', 'on', true);
+
+  RETURN QUERY
+  UPDATE contents
+  SET status = 'in_review',
+      reviewer_id = p_reviewer_id
+  WHERE id = p_content_id
+  RETURNING *;
+
+  PERFORM set_config('app.content_review', '', true);
+END;
+$$;
+
+-- Approve content or send it back with a comment
+CREATE OR REPLACE FUNCTION review_content(
+  p_content_id bigint,
+  p_reviewer_id bigint,
+  p_decision text,
+  p_comment text DEFAULT NULL
+)
+RETURNS SETOF contents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_content contents%ROWTYPE;
+BEGIN
+  IF p_decision NOT IN ('approved', 'changes_requested') THEN
+    RAISE EXCEPTION 'Unknown review decision %', p_decision;
+  END IF;
+
+  SELECT * INTO v_content FROM contents WHERE id = p_content_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Content % not found', p_content_id;
+  END IF;
+
+  IF v_content.status <> 'in_review' THEN
+    RAISE EXCEPTION 'Content % is not in review', p_content_id;
+  END IF;
+
+  IF v_content.reviewer_id IS DISTINCT FROM p_reviewer_id THEN
+    RAISE EXCEPTION 'Only the assigned reviewer can review content %', p_content_id;
+  END IF;
+
+  IF p_decision = 'changes_requested' AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'Say what needs to change when requesting changes';
+  END IF;
+
+  INSERT INTO content_reviews (content_id, action, author_id, reviewer_id, comment)
+  VALUES (p_content_id, p_decision, p_reviewer_id, p_reviewer_id, nullif(trim(p_comment), ''));
+
+  PERFORM set_config('app.content_review', 'on', true);
+
+  RETURN QUERY
+  UPDATE contents
+  SET status = p_decision
+  WHERE id = p_content_id
+  RETURNING *;
+
+  PERFORM set_config('app.content_review', '', true);
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE content_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all content reviews"
+  ON content_reviews
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all content reviews"
+  ON content_reviews
+  FOR SELECT
+  TO anon
+  USING (true);
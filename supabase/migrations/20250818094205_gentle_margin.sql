@@ -0,0 +1,130 @@
+/*
+  # Inline comments on content
+
+  1. New Tables
+    - `content_comments`
+      - `id` (bigint, primary key, auto-increment)
+      - `created_at` (timestamp with timezone, default now())
+      - `updated_at` (timestamp with timezone, default now())
+      - `content_id` (bigint, foreign key to contents)
+      - `parent_id` (bigint, foreign key to content_comments, nullable - null
+        for the comment that starts a thread, the thread's first comment for
+        replies)
+      - `author_id` (bigint, foreign key to users, nullable)
+      - `body` (text, not null)
+      - `anchor_start`, `anchor_end` (integer, nullable - character offsets of
+        the commented range in `contents.content` when the thread was started)
+      - `anchor_text` (text, nullable - the commented text)
+      - `anchor_prefix`, `anchor_suffix` (text, nullable - the text just
+        before and after the range, used to find it again after edits)
+      - `resolved_at` (timestamp with timezone, nullable)
+      - `resolved_by` (bigint, foreign key to users, nullable)
+
+    Only thread starters carry an anchor and a resolved state; replies belong
+    to their thread.
+
+  2. Functions
+    - `get_content_comment_counts()` returns, per content, how many comments
+      it has and how many of its threads are unresolved
+
+  3. Realtime
+    - Add `content_comments` to the `supabase_realtime` publication
+
+  4. Security
+    - Enable RLS on `content_comments`
+    - Add policies for authenticated and anonymous users
+*/
+
+-- Create content_comments table
+CREATE TABLE IF NOT EXISTS content_comments (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  content_id bigint NOT NULL REFERENCES contents(id) ON DELETE CASCADE,
+  parent_id bigint REFERENCES content_comments(id) ON DELETE CASCADE,
+  author_id bigint REFERENCES users(id) ON DELETE SET NULL,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  anchor_start integer,
+  anchor_end integer,
+  anchor_text text,
+  anchor_prefix text,
+  anchor_suffix text,
+  resolved_at timestamptz,
+  resolved_by bigint REFERENCES users(id) ON DELETE SET NULL,
+  CHECK (
+    (parent_id IS NULL AND anchor_start IS NOT NULL AND anchor_end >= anchor_start AND anchor_text IS NOT NULL)
+    OR (parent_id IS NOT NULL AND anchor_start IS NULL AND resolved_at IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS content_comments_content_id_idx ON content_comments (content_id, created_at);
+CREATE INDEX IF NOT EXISTS content_comments_parent_id_idx ON content_comments (parent_id);
+
+-- Comments per content and threads still waiting to be resolved
+CREATE OR REPLACE FUNCTION get_content_comment_counts()
+RETURNS TABLE (content_id bigint, comment_count bigint, open_thread_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.content_id,
+    count(*) AS comment_count,
+    count(*) FILTER (WHERE c.parent_id IS NULL AND c.resolved_at IS NULL) AS open_thread_count
+  FROM content_comments c
+  GROUP BY c.content_id;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE content_comments;
+
+-- Enable RLS
+ALTER TABLE content_comments ENABLE ROW LEVEL SECURITY;
+
+-- Policies for authenticated users
+CREATE POLICY "Authenticated users can view all content comments"
+  ON content_comments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert content comments"
+  ON content_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update content comments"
+  ON content_comments
+  FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can delete content comments"
+  ON content_comments
+  FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Policies for anonymous users (for demo purposes)
+CREATE POLICY "Anonymous users can view all content comments"
+  ON content_comments
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can insert content comments"
+  ON content_comments
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE POLICY "Anonymous users can update content comments"
+  ON content_comments
+  FOR UPDATE
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous users can delete content comments"
+  ON content_comments
+  FOR DELETE
+  TO anon
+  USING (true);